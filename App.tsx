@@ -1,26 +1,51 @@
 
-import React, { Suspense, useState, useEffect, useRef, useCallback } from 'react';
+import React, { Suspense, useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
-import { Mic, MicOff, Search, AlertCircle, ExternalLink, LayoutGrid, X, Clock, ChevronDown, ChevronRight, Globe, MapPin, Trash2, Bug, Terminal, Brain, FileText, Upload, FilePlus, Cloud, CloudOff, User, Settings, Copy, Check, MonitorPlay, Smile, Frown, ShieldCheck, Lock, LogOut, Pin, Server, SlidersHorizontal, Music, Play, Pause, Keyboard, Send, MessageSquare } from 'lucide-react';
+import { Mic, MicOff, Search, AlertCircle, ExternalLink, LayoutGrid, X, Clock, ChevronDown, ChevronRight, Globe, MapPin, Trash2, Bug, Terminal, Brain, FileText, Upload, FilePlus, Cloud, CloudOff, User, Settings, Copy, Check, MonitorPlay, Smile, Frown, ShieldCheck, Lock, LogOut, Pin, Server, SlidersHorizontal, Music, Play, Pause, Keyboard, Send, MessageSquare, RefreshCw, PhoneOff, Camera, ScreenShare, Paperclip, Pencil, Combine, Undo2, Plus, History, TextSearch } from 'lucide-react';
 
 import { Avatar3D } from './components/Avatar3D';
 import { Loader } from './components/Loader';
 import { SettingsModal } from './components/SettingsModal';
 import { YouTubePlayer } from './components/YouTubePlayer';
+import { VideoPreview } from './components/VideoPreview';
+import { SearchPanel } from './components/SearchPanel';
 import { useGeminiLive } from './hooks/useGeminiLive';
 import { useGoogleDrive } from './hooks/useGoogleDrive';
-import { useRemoteStorage, SearchHistoryItem } from './hooks/useRemoteStorage';
-import { ConnectionState, GroundingChunk, GroundingMetadata, Memory, WorkspaceFile, IntegrationsConfig, ChatMessage, MusicState, NotificationItem } from './types';
+import { useRemoteStorage } from './hooks/useRemoteStorage';
+import { ConnectionState, GroundingChunk, GroundingMetadata, Memory, MemoryDetails, MemoryUpdate, MemoryCategory, MemoryMerge, WorkspaceFile, IntegrationsConfig, ChatMessage, MusicState, NotificationItem, InputSettings, AudioDeviceSettings, PersonaProfile, ModelSettings, VideoSource, UsageBudget, UsageTotals, SearchResult, SearchHistoryItem, UserSettings, SyncChanges, SyncStatus, ChatThread, DataArchive, ImportMode, ImportSummary, RetentionPolicy } from './types';
+import { useHotkeys } from './hooks/useHotkeys';
+import { useUsageTracker } from './hooks/useUsageTracker';
+import { useChatThreads } from './hooks/useChatThreads';
+import { useUnifiedSearch } from './hooks/useUnifiedSearch';
+import { useMemoryRecall } from './hooks/useMemoryRecall';
+import { useSync } from './hooks/useSync';
+import { usePersistedRecords } from './hooks/usePersistedRecords';
+import { selectCoreMemories } from './utils/memoryIndex';
+import { normalizeMemory, createMemory, applyMemoryUpdate, sortMemories, isMemoryExpired, MEMORY_CATEGORIES, MEMORY_SOURCE_LABELS, IMPORTANCE_RANGE, MemorySort } from './utils/memories';
+import { threadLabel } from './utils/threads';
+import { planConsolidation, createMergeRecord, applyMergePlans, undoMergeRecord } from './utils/memoryConsolidation';
+import { mergeSynced, unsyncedRecords, recordVersion } from './utils/sync';
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, RecordPlan, emptyCounts, planRecords } from './utils/portability';
+import { getAllRecords, deleteLocalDb } from './utils/localDb';
+import { DEFAULT_INPUT_SETTINGS, formatHotkey } from './utils/hotkeys';
+import { DEFAULT_PERSONA, DEFAULT_PERSONA_ID, resolvePersonas } from './utils/personas';
+import { DEFAULT_MODEL_SETTINGS, validateModelSettings } from './utils/models';
+import { DEFAULT_USAGE_BUDGET, sanitizeBudget, formatSeconds } from './utils/usage';
+import { DEFAULT_RETENTION, sanitizeRetention } from './utils/retention';
+import { readAttachment, formatFileSize, PendingAttachment, ATTACHMENT_ACCEPT, MAX_ATTACHMENTS_PER_MESSAGE } from './utils/attachments';
 
 const DEFAULT_CUSTOM_SEARCH_CX = "05458f6c63b8b40ac";
 const GIGGLE_URL = "https://storage.googleapis.com/3d_model/audio/giggle.wav";
+const MAX_STORED_MERGES = 20;
+// Distance (px) from the end of a drawer list at which the next page is requested
+const SCROLL_LOAD_THRESHOLD = 80;
 
 const App = () => {
   // --- STATES ---
   
   // Google Drive / Auth
-  const { login, logout, user: googleUser, accessToken, isSyncing, clientId, setClientId, searchDriveFiles, readDriveFile, getTaskLists, getTasks, addTask, requestDrivePermissions, requestSearchPermissions, requestYoutubePermissions } = useGoogleDrive();
+  const { login, logout, user: googleUser, accessToken, clientId, setClientId, searchDriveFiles, readDriveFile, getTaskLists, getTasks, addTask, requestDrivePermissions, requestSearchPermissions, requestYoutubePermissions } = useGoogleDrive();
   const [isClientIdModalOpen, setIsClientIdModalOpen] = useState(false);
   const [tempClientId, setTempClientId] = useState("");
   const [originCopied, setOriginCopied] = useState(false);
@@ -28,11 +53,14 @@ const App = () => {
   // Remote Storage API
   const { 
       apiUrl, setApiUrl, isApiConfigOpen, setIsApiConfigOpen,
-      fetchMemories, saveMemory: saveMemoryApi, deleteMemory: deleteMemoryApi,
-      fetchSearchHistory, saveSearchHistoryItem: saveSearchApi, deleteSearchHistoryItem: deleteSearchApi, clearSearchHistory: clearSearchApi,
-      fetchChatHistory, saveChatMessage: saveChatApi, clearChatHistory: clearChatApi,
-      fetchConfig, saveConfig: saveConfigApi,
-      fetchNotifications, markNotificationRead
+      saveMemory: saveMemoryApi, deleteMemory: deleteMemoryApi,
+      fetchMemoryMerges, saveMemoryMerge: saveMemoryMergeApi, undoMemoryMerge: undoMemoryMergeApi,
+      saveSearchHistoryItem: saveSearchApi, deleteSearchHistoryItem: deleteSearchApi, clearSearchHistory: clearSearchApi,
+      fetchThreads, createThread: createThreadApi, renameThread: renameThreadApi, deleteThread: deleteThreadApi, fetchThreadMessages, saveChatMessage: saveChatApi, searchRemote,
+      saveConfig: saveConfigApi, fetchChanges, exportData: exportDataApi, importData: importDataApi, deleteAccount: deleteAccountApi,
+      fetchUsage, saveUsage: saveUsageApi,
+      fetchNotifications, markNotificationRead,
+      syncStatus: outboxStatus, pendingKeys, flushOutbox, clearOutbox
   } = useRemoteStorage(accessToken);
   const [tempApiUrl, setTempApiUrl] = useState("");
   
@@ -40,9 +68,19 @@ const App = () => {
   const [googleApiKey, setGoogleApiKey] = useState(localStorage.getItem('gem_google_api_key') || process.env.API_KEY || "");
   const [tempGoogleApiKey, setTempGoogleApiKey] = useState("");
 
+  // Local data (memories, search history, workspace files) is read from IndexedDB after mount
+  const [isLocalDataLoaded, setIsLocalDataLoaded] = useState(false);
+
   // Memory
   const [memories, setMemories] = useState<Memory[]>([]);
   const [isMemoryDrawerOpen, setIsMemoryDrawerOpen] = useState(false);
+  const [memoryFilter, setMemoryFilter] = useState<MemoryCategory | 'all'>('all');
+  const [memorySort, setMemorySort] = useState<MemorySort>('newest');
+  const [editingMemory, setEditingMemory] = useState<{ id: string; text: string; category: MemoryCategory; importance: number } | null>(null);
+  const memoriesRef = useRef<Memory[]>([]);
+  const [memoryMerges, setMemoryMerges] = useState<MemoryMerge[]>([]);
+  const [memoryMergesCursor, setMemoryMergesCursor] = useState<string | null>(null);
+  const [mergeNotice, setMergeNotice] = useState<string | null>(null);
   
   // Workspace
   const [files, setFiles] = useState<WorkspaceFile[]>([]);
@@ -52,14 +90,34 @@ const App = () => {
 
   // Search History
   const [searchHistory, setSearchHistory] = useState<SearchHistoryItem[]>([]);
+  const searchHistoryRef = useRef<SearchHistoryItem[]>([]);
   const [isSearchDrawerOpen, setIsSearchDrawerOpen] = useState(false);
   const [expandedHistoryIds, setExpandedHistoryIds] = useState<Set<number>>(new Set());
   const [showSources, setShowSources] = useState(false);
 
   // Chat History
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [isChatDrawerOpen, setIsChatDrawerOpen] = useState(false);
   const chatScrollRef = useRef<HTMLDivElement>(null);
+  const {
+      threads: chatThreads, activeThreadId, viewedThreadId, messages: chatMessages, hasMore: hasEarlierMessages,
+      hasMoreThreads, loadMoreThreads, viewThread, loadEarlier: loadEarlierMessages, startThread, appendMessage: appendChatMessage,
+      resumeThread: resumeChatThread, renameThread, deleteThread, reload: reloadChatThreads, importThreads
+  } = useChatThreads({
+      isRemote: !!accessToken && !!apiUrl,
+      fetchThreads, createThread: createThreadApi, renameThread: renameThreadApi, deleteThread: deleteThreadApi,
+      fetchThreadMessages, saveChatMessage: saveChatApi
+  });
+  const [editingThread, setEditingThread] = useState<{ id: string; title: string } | null>(null);
+  const [resumeThreadId, setResumeThreadId] = useState<string | null>(null);
+
+  // Unified Search
+  const [isSearchPanelOpen, setIsSearchPanelOpen] = useState(false);
+  const [highlightedItem, setHighlightedItem] = useState<string | null>(null); // `${type}-${id}` of the result being shown
+  const { query: unifiedQuery, setQuery: setUnifiedQuery, results: unifiedResults, isSearching } = useUnifiedSearch({
+      memories, searchHistory, files, threads: chatThreads,
+      isRemote: !!accessToken && !!apiUrl,
+      searchRemote
+  });
 
   // Settings & Integrations
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
@@ -70,8 +128,18 @@ const App = () => {
       media: false,
       notifications: false,
       openTabs: false,
-      personalizedSearch: false
+      personalizedSearch: false,
+      vision: false
   });
+  const [inputSettings, setInputSettings] = useState<InputSettings>(DEFAULT_INPUT_SETTINGS);
+  const [audioDevices, setAudioDevices] = useState<AudioDeviceSettings>({ inputDeviceId: null, outputDeviceId: null });
+  const [personas, setPersonas] = useState<PersonaProfile[]>([DEFAULT_PERSONA]);
+  const [activePersonaId, setActivePersonaId] = useState<string>(DEFAULT_PERSONA_ID);
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(DEFAULT_MODEL_SETTINGS);
+  const [usageBudget, setUsageBudget] = useState<UsageBudget>(DEFAULT_USAGE_BUDGET);
+  const [retention, setRetention] = useState<RetentionPolicy>(DEFAULT_RETENTION);
+  const [budgetNotice, setBudgetNotice] = useState<{ level: 'warn' | 'exceeded'; message: string } | null>(null);
+  const activePersona = useMemo(() => personas.find(p => p.id === activePersonaId) || DEFAULT_PERSONA, [personas, activePersonaId]);
 
   // Animation Gestures & Expressions
   const [currentGesture, setCurrentGesture] = useState<string | null>(null);
@@ -88,6 +156,9 @@ const App = () => {
   // Text Chat Mode
   const [isTextMode, setIsTextMode] = useState(false);
   const [textInput, setTextInput] = useState("");
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
   
   // Audio Refs
   const giggleAudioRef = useRef<HTMLAudioElement | null>(null);
@@ -105,50 +176,59 @@ const App = () => {
       giggleAudioRef.current.volume = 0.6; // Set volume slightly lower so it doesn't blast
   }, []);
 
-  const loadLocalMemories = () => {
+  // Load Settings
+  useEffect(() => {
       try {
-          const stored = localStorage.getItem('gem_long_term_memory');
-          if (stored) return JSON.parse(stored).map((m: any) => ({ ...m, timestamp: new Date(m.timestamp) }));
+          const stored = localStorage.getItem('gem_integrations_config');
+          if (stored) setIntegrations(JSON.parse(stored));
       } catch (e) {}
-      return [];
-  };
-
-  const loadLocalHistory = () => {
       try {
-          const stored = localStorage.getItem('gem_search_history');
-          if (stored) return JSON.parse(stored).map((h: any) => ({ ...h, timestamp: new Date(h.timestamp) }));
+          const storedInput = localStorage.getItem('gem_input_settings');
+          if (storedInput) setInputSettings({ ...DEFAULT_INPUT_SETTINGS, ...JSON.parse(storedInput) });
       } catch (e) {}
-      return [];
-  };
-
-  const loadLocalChat = () => {
       try {
-          const stored = localStorage.getItem('gem_chat_history');
-          if (stored) return JSON.parse(stored).map((c: any) => ({ ...c, timestamp: new Date(c.timestamp) }));
+          const storedDevices = localStorage.getItem('gem_audio_devices');
+          if (storedDevices) setAudioDevices(JSON.parse(storedDevices));
       } catch (e) {}
-      return [];
-  };
-
-  // Load Settings
-  useEffect(() => {
       try {
-          const stored = localStorage.getItem('gem_integrations_config');
-          if (stored) setIntegrations(JSON.parse(stored));
+          const storedModel = localStorage.getItem('gem_model_settings');
+          if (storedModel) {
+              const { settings, errors } = validateModelSettings(JSON.parse(storedModel));
+              if (errors.length > 0) console.warn("Stored model settings adjusted:", errors);
+              setModelSettings(settings);
+          }
+      } catch (e) {}
+      try {
+          const storedBudget = localStorage.getItem('gem_usage_budget');
+          if (storedBudget) setUsageBudget(sanitizeBudget(JSON.parse(storedBudget)));
+      } catch (e) {}
+      try {
+          const storedRetention = localStorage.getItem('gem_retention');
+          if (storedRetention) setRetention(sanitizeRetention(JSON.parse(storedRetention)));
+      } catch (e) {}
+      try {
+          const storedPersonas = localStorage.getItem('gem_personas');
+          if (storedPersonas) {
+              const parsed = JSON.parse(storedPersonas);
+              setPersonas(resolvePersonas(parsed.personas));
+              if (parsed.activePersonaId) setActivePersonaId(parsed.activePersonaId);
+          }
       } catch (e) {}
   }, []);
 
   // Save Settings
+  // Enabling some integrations needs extra OAuth scopes first
+  const requestIntegrationPermission = async (key: keyof IntegrationsConfig, current: IntegrationsConfig) => {
+      if (!accessToken) return true;
+      if (key === 'workspace') return requestDrivePermissions();
+      if (key === 'personalizedSearch') return requestSearchPermissions();
+      if ((key === 'youtube' || key === 'media') && !current.youtube && !current.media) return requestYoutubePermissions();
+      return true;
+  };
+
   const toggleIntegration = async (key: keyof IntegrationsConfig) => {
-      if (key === 'workspace' && !integrations.workspace && accessToken) {
-          const granted = await requestDrivePermissions();
-          if (!granted) return; 
-      }
-      if (key === 'personalizedSearch' && !integrations.personalizedSearch && accessToken) {
-          const granted = await requestSearchPermissions();
-          if (!granted) return;
-      }
-      if ((key === 'youtube' || key === 'media') && !integrations.youtube && !integrations.media && accessToken) {
-          const granted = await requestYoutubePermissions();
+      if (!integrations[key]) {
+          const granted = await requestIntegrationPermission(key, integrations);
           if (!granted) return;
       }
 
@@ -163,6 +243,95 @@ const App = () => {
       });
   };
 
+  // Applies a persona's preferred integrations, skipping any whose permission is refused
+  const applyIntegrations = async (target: Partial<IntegrationsConfig>) => {
+      const next = { ...integrations };
+      for (const key of Object.keys(target) as (keyof IntegrationsConfig)[]) {
+          const value = target[key];
+          if (value === undefined || next[key] === value) continue;
+          if (value && !(await requestIntegrationPermission(key, next))) continue;
+          next[key] = value;
+      }
+      setIntegrations(next);
+      localStorage.setItem('gem_integrations_config', JSON.stringify(next));
+      if (next.notifications && "Notification" in window && Notification.permission !== "granted") {
+          Notification.requestPermission();
+      }
+      if (accessToken && apiUrl) saveConfigApi(next);
+  };
+
+  const persistPersonas = (nextPersonas: PersonaProfile[], nextActiveId: string) => {
+      setPersonas(nextPersonas);
+      setActivePersonaId(nextActiveId);
+      localStorage.setItem('gem_personas', JSON.stringify({ personas: nextPersonas, activePersonaId: nextActiveId }));
+      if (accessToken && apiUrl) saveConfigApi({ personas: nextPersonas, activePersonaId: nextActiveId });
+  };
+
+  const savePersona = (persona: PersonaProfile) => {
+      const exists = personas.some(p => p.id === persona.id);
+      persistPersonas(exists ? personas.map(p => p.id === persona.id ? persona : p) : [...personas, persona], activePersonaId);
+  };
+
+  const deletePersona = (id: string) => {
+      if (id === DEFAULT_PERSONA_ID) return;
+      persistPersonas(personas.filter(p => p.id !== id), activePersonaId === id ? DEFAULT_PERSONA_ID : activePersonaId);
+  };
+
+  // Takes effect on the next connection
+  const selectPersona = async (id: string) => {
+      const persona = personas.find(p => p.id === id);
+      if (!persona) return;
+      persistPersonas(personas, id);
+      if (persona.defaultIntegrations) await applyIntegrations(persona.defaultIntegrations);
+  };
+
+  // Applies on the next connection
+  const updateModelSettings = (changes: Partial<ModelSettings>) => {
+      setModelSettings(prev => {
+          const { settings: next, errors } = validateModelSettings({ ...prev, ...changes });
+          if (errors.length > 0) console.warn("Model settings adjusted:", errors);
+          localStorage.setItem('gem_model_settings', JSON.stringify(next));
+          if (accessToken && apiUrl) saveConfigApi({ model: next });
+          return next;
+      });
+  };
+
+  const updateUsageBudget = (changes: Partial<UsageBudget>) => {
+      setUsageBudget(prev => {
+          const next = sanitizeBudget({ ...prev, ...changes });
+          localStorage.setItem('gem_usage_budget', JSON.stringify(next));
+          if (accessToken && apiUrl) saveConfigApi({ budget: next });
+          return next;
+      });
+  };
+
+  // Enforced by the backend's daily retention job, so it only matters when signed in
+  const updateRetention = (changes: Partial<RetentionPolicy>) => {
+      setRetention(prev => {
+          const next = sanitizeRetention({ ...prev, ...changes });
+          localStorage.setItem('gem_retention', JSON.stringify(next));
+          if (accessToken && apiUrl) saveConfigApi({ retention: next });
+          return next;
+      });
+  };
+
+  const updateAudioDevices = (changes: Partial<AudioDeviceSettings>) => {
+      setAudioDevices(prev => {
+          const next = { ...prev, ...changes };
+          localStorage.setItem('gem_audio_devices', JSON.stringify(next));
+          return next;
+      });
+  };
+
+  const updateInputSettings = (changes: Partial<InputSettings>) => {
+      setInputSettings(prev => {
+          const next = { ...prev, ...changes };
+          localStorage.setItem('gem_input_settings', JSON.stringify(next));
+          if (accessToken && apiUrl) saveConfigApi({ input: next });
+          return next;
+      });
+  };
+
   useEffect(() => {
       if (accessToken && "Notification" in window && Notification.permission !== "granted" && integrations.notifications) {
          Notification.requestPermission();
@@ -170,41 +339,185 @@ const App = () => {
       if (accessToken && "geolocation" in navigator) {
           navigator.geolocation.getCurrentPosition(() => {}, () => {});
       }
+  }, [accessToken, integrations.notifications]);
+
+  // Signed in, the backend's merge history replaces this browser's (after it loaded, so it isn't overwritten)
+  useEffect(() => {
+      if (!accessToken || !apiUrl || !isLocalDataLoaded) return;
+      fetchMemoryMerges().then(cloudMerges => {
+          if (cloudMerges === null) return;
+          setMemoryMerges(cloudMerges.items);
+          setMemoryMergesCursor(cloudMerges.nextCursor || null);
+      });
+  }, [accessToken, apiUrl, isLocalDataLoaded, fetchMemoryMerges]);
+
+  // Local data shows as soon as IndexedDB has it; useSync merges in the backend's copy once signed in
+  useEffect(() => {
+      Promise.all([
+          getAllRecords<Memory>('memories'),
+          getAllRecords<SearchHistoryItem>('search_history'),
+          getAllRecords<WorkspaceFile>('workspace_files'),
+          getAllRecords<MemoryMerge>('memory_merges')
+      ]).then(([storedMemories, storedHistory, storedFiles, storedMerges]) => {
+          setMemories(storedMemories.map(normalizeMemory).sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
+          setSearchHistory(storedHistory.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
+          setFiles(storedFiles);
+          setMemoryMerges(storedMerges.sort((a, b) => b.mergedAt.getTime() - a.mergedAt.getTime()));
+      }).catch(e => {
+          console.error("[LocalDb] Loading local data failed", e);
+      }).finally(() => setIsLocalDataLoaded(true));
+  }, []);
+
+  // --- SYNC ---
+
+  const applyCloudConfig = (cloudConfig: Partial<UserSettings>) => {
+      const { input, personas: cloudPersonas, activePersonaId: cloudActivePersonaId, model: cloudModel, budget: cloudBudget, retention: cloudRetention, ...cloudIntegrations } = cloudConfig;
+      if (Object.keys(cloudIntegrations).length > 0) {
+          setIntegrations(prev => {
+              const next = { ...prev, ...cloudIntegrations };
+              localStorage.setItem('gem_integrations_config', JSON.stringify(next));
+              return next;
+          });
+      }
+      if (input) {
+          const nextInput = { ...DEFAULT_INPUT_SETTINGS, ...input };
+          setInputSettings(nextInput);
+          localStorage.setItem('gem_input_settings', JSON.stringify(nextInput));
+      }
+      if (cloudModel) {
+          const { settings, errors } = validateModelSettings(cloudModel);
+          if (errors.length > 0) console.warn("Cloud model settings adjusted:", errors);
+          setModelSettings(settings);
+          localStorage.setItem('gem_model_settings', JSON.stringify(settings));
+      }
+      if (cloudBudget) {
+          const nextBudget = sanitizeBudget(cloudBudget);
+          setUsageBudget(nextBudget);
+          localStorage.setItem('gem_usage_budget', JSON.stringify(nextBudget));
+      }
+      if (cloudRetention) {
+          const nextRetention = sanitizeRetention(cloudRetention);
+          setRetention(nextRetention);
+          localStorage.setItem('gem_retention', JSON.stringify(nextRetention));
+      }
+      if (cloudPersonas) {
+          const nextPersonas = resolvePersonas(cloudPersonas);
+          const nextActiveId = cloudActivePersonaId && nextPersonas.some(p => p.id === cloudActivePersonaId) ? cloudActivePersonaId : DEFAULT_PERSONA_ID;
+          setPersonas(nextPersonas);
+          setActivePersonaId(nextActiveId);
+          localStorage.setItem('gem_personas', JSON.stringify({ personas: nextPersonas, activePersonaId: nextActiveId }));
+      }
+  };
 
-      // Load Data
-      const initData = async () => {
-        const localMem = loadLocalMemories();
-        const localHist = loadLocalHistory();
-        const localChat = loadLocalChat();
+  // Backend changes are merged per record (last writer wins) instead of replacing what this device has
+  const applySyncChanges = (changes: SyncChanges, isFullSync: boolean) => {
+      const deletedMemories = changes.deleted.filter(d => d.collection === 'memories');
+      const deletedHistory = changes.deleted.filter(d => d.collection === 'search_history');
+      if (isFullSync) {
+          // Whatever this device has that the backend never saw gets uploaded
+          unsyncedRecords(memoriesRef.current, changes.memories, deletedMemories).forEach(m => saveMemoryApi(m));
+          unsyncedRecords(searchHistoryRef.current, changes.searchHistory, deletedHistory).forEach(h => saveSearchApi(h));
+      }
+      setMemories(prev => mergeSynced(prev, changes.memories, deletedMemories));
+      setSearchHistory(prev => mergeSynced(prev, changes.searchHistory, deletedHistory));
+      if (changes.settings) {
+          // A section changed here but not sent yet is newer than the backend's
+          const pending = new Set(pendingKeys);
+          const incoming = Object.fromEntries(Object.entries(changes.settings).filter(([section]) => !pending.has(`settings/${section}`)));
+          applyCloudConfig(incoming);
+      }
+  };
 
-        if (accessToken && apiUrl) {
-            const cloudConfig = await fetchConfig();
-            if (cloudConfig) {
-                setIntegrations(cloudConfig);
-                localStorage.setItem('gem_integrations_config', JSON.stringify(cloudConfig));
-            }
+  const { isPulling, lastSyncedAt, syncNow, resetSync } = useSync({
+      // A full sync compares against what this device has, so wait until it is loaded
+      enabled: !!accessToken && !!apiUrl && isLocalDataLoaded,
+      apiUrl,
+      fetchChanges,
+      onChanges: applySyncChanges
+  });
+  const isSyncing = isPulling || outboxStatus.isSyncing;
+  const syncStatus: SyncStatus = { ...outboxStatus, isSyncing, lastSyncedAt };
 
-            const cloudMemories = await fetchMemories();
-            setMemories(cloudMemories !== null ? cloudMemories : localMem);
+  const handleLogout = () => {
+      clearOutbox();
+      resetSync();
+      logout();
+  };
 
-            const cloudHistory = await fetchSearchHistory();
-            setSearchHistory(cloudHistory !== null ? cloudHistory : localHist);
+  // --- EXPORT / IMPORT ---
+
+  // Signed in, the backend has everything; signed out, the archive is built from this browser's data
+  const handleExportData = async (): Promise<DataArchive> => {
+      if (accessToken && apiUrl) return exportDataApi();
+      const [threads, messages] = await Promise.all([getAllRecords<ChatThread>('chat_threads'), getAllRecords<ChatMessage>('chat_messages')]);
+      return {
+          format: ARCHIVE_FORMAT,
+          version: ARCHIVE_VERSION,
+          exportedAt: new Date(),
+          memories: memoriesRef.current,
+          threads: threads.map(t => ({
+              ...t,
+              messages: messages.filter(m => m.threadId === t.id).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+          })),
+          searchHistory: searchHistoryRef.current,
+          settings: { ...integrations, input: inputSettings, personas, activePersonaId, model: modelSettings, budget: usageBudget, retention },
+          notifications: []
+      };
+  };
 
-            const cloudChat = await fetchChatHistory();
-            setChatHistory(cloudChat !== null ? cloudChat : localChat);
-        } else {
-            setMemories(localMem);
-            setSearchHistory(localHist);
-            setChatHistory(localChat);
-        }
+  const handleImportData = async (archive: DataArchive, mode: ImportMode, dryRun: boolean): Promise<ImportSummary> => {
+      if (accessToken && apiUrl) {
+          const summary = await importDataApi(archive, mode, dryRun);
+          if (!dryRun) {
+              syncNow();
+              reloadChatThreads();
+          }
+          return summary;
+      }
+
+      const storedMessages = await getAllRecords<ChatMessage>('chat_messages');
+      const knownMessages = new Set(storedMessages.map(m => `${m.threadId}/${m.id}`));
+      const isNewer = <T extends Memory | SearchHistoryItem>(a: T, b: T) => recordVersion(a) > recordVersion(b);
+      const memoryPlan = planRecords(memoriesRef.current, archive.memories, mode, isNewer);
+      const historyPlan = planRecords(searchHistoryRef.current, archive.searchHistory, mode, isNewer);
+      const threadPlan = planRecords(chatThreads, archive.threads, mode, t => t.messages.some(m => !knownMessages.has(`${t.id}/${m.id}`)));
+      // Local settings carry no change times to compare, so only a replace takes the archive's
+      const settingsSections = mode === 'replace' ? Object.keys(archive.settings) : [];
+      const summary: ImportSummary = {
+          mode,
+          dryRun,
+          memories: memoryPlan.counts,
+          threads: threadPlan.counts,
+          searchHistory: historyPlan.counts,
+          notifications: emptyCounts(),
+          settings: settingsSections
+      };
+      if (dryRun) return summary;
+
+      // Replaced records count as changed now, so a later sign-in doesn't let older backend copies win
+      const now = new Date();
+      const applyPlan = <T extends Memory | SearchHistoryItem>(prev: T[], plan: RecordPlan<T>): T[] => {
+          const written = new Map(plan.write.map(r => [String(r.id), mode === 'replace' ? { ...r, updatedAt: now } : r]));
+          const removed = new Set(plan.remove);
+          const kept = prev.filter(r => !written.has(String(r.id)) && !removed.has(String(r.id)));
+          return [...kept, ...written.values()].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
       };
-      initData();
+      setMemories(prev => applyPlan(prev, memoryPlan));
+      setSearchHistory(prev => applyPlan(prev, historyPlan));
+      await importThreads(threadPlan.write, threadPlan.remove, mode);
+      if (settingsSections.length > 0) applyCloudConfig(archive.settings);
+      return summary;
+  };
 
-      try {
-          const storedFiles = localStorage.getItem('gem_workspace_files');
-          if (storedFiles) setFiles(JSON.parse(storedFiles));
-      } catch (e) {}
-  }, [accessToken, apiUrl, fetchMemories, fetchSearchHistory, fetchChatHistory, fetchConfig, integrations.notifications]);
+  // --- ACCOUNT ---
+
+  // The local copies go too: left in place, the next sign-in would upload them into a fresh account
+  const handleDeleteAccount = async () => {
+      await deleteAccountApi();
+      clearOutbox();
+      logout();
+      resetApp();
+  };
 
   // --- NOTIFICATION POLLING ---
   useEffect(() => {
@@ -233,8 +546,7 @@ const App = () => {
                           text: `Hey! I found something interesting: ${n.title} - ${n.body}`,
                           timestamp: new Date()
                       };
-                      setChatHistory(prev => [...prev, chatMsg]);
-                      if(accessToken && apiUrl) saveChatApi(chatMsg);
+                      appendChatMessage(chatMsg);
                       
                       // 3. Mark Read
                       await markNotificationRead(n.id);
@@ -251,17 +563,48 @@ const App = () => {
       return () => {
           if (notificationPollInterval.current) clearInterval(notificationPollInterval.current);
       };
-  }, [accessToken, apiUrl, integrations.notifications, fetchNotifications, markNotificationRead, saveChatApi]);
+  }, [accessToken, apiUrl, integrations.notifications, fetchNotifications, markNotificationRead, appendChatMessage]);
 
 
   // --- PERSISTENCE EFFECTS ---
-  useEffect(() => { localStorage.setItem('gem_long_term_memory', JSON.stringify(memories)); }, [memories]);
-  useEffect(() => { localStorage.setItem('gem_search_history', JSON.stringify(searchHistory)); }, [searchHistory]);
-  useEffect(() => { localStorage.setItem('gem_chat_history', JSON.stringify(chatHistory)); }, [chatHistory]);
-  useEffect(() => { localStorage.setItem('gem_workspace_files', JSON.stringify(files)); }, [files]);
+  useEffect(() => { memoriesRef.current = memories; }, [memories]);
+  useEffect(() => { searchHistoryRef.current = searchHistory; }, [searchHistory]);
+  usePersistedRecords('memories', memories, isLocalDataLoaded);
+  usePersistedRecords('search_history', searchHistory, isLocalDataLoaded);
+  usePersistedRecords('workspace_files', files, isLocalDataLoaded);
+  usePersistedRecords('memory_merges', memoryMerges, isLocalDataLoaded);
 
   // --- HANDLERS ---
 
+  // Older pages are fetched as a drawer list scrolls near its end
+  const pagingRef = useRef({ merges: false });
+
+  const onScrollNearEnd = (edge: 'top' | 'bottom', load: () => void) => (e: React.UIEvent<HTMLElement>) => {
+      const el = e.currentTarget;
+      const distance = edge === 'top' ? el.scrollTop : el.scrollHeight - el.scrollTop - el.clientHeight;
+      if (distance < SCROLL_LOAD_THRESHOLD) load();
+  };
+
+  const loadMoreMerges = async () => {
+      if (!memoryMergesCursor || pagingRef.current.merges) return;
+      pagingRef.current.merges = true;
+      const page = await fetchMemoryMerges(memoryMergesCursor);
+      pagingRef.current.merges = false;
+      if (!page) return;
+      setMemoryMerges(prev => [...prev, ...page.items.filter(m => !prev.some(p => p.id === m.id))]);
+      setMemoryMergesCursor(page.nextCursor);
+  };
+
+  // Keeps the message the user was looking at in place while older ones are prepended
+  const loadEarlierChat = async () => {
+      const el = chatScrollRef.current;
+      const previousHeight = el ? el.scrollHeight : 0;
+      await loadEarlierMessages();
+      requestAnimationFrame(() => {
+          if (el) el.scrollTop += el.scrollHeight - previousHeight;
+      });
+  };
+
   const triggerGesture = useCallback((gestureName: string) => {
       setCurrentGesture(gestureName);
       setTimeout(() => setCurrentGesture(null), 100); 
@@ -289,23 +632,91 @@ const App = () => {
       else login();
   };
 
-  const handleNoteRemembered = useCallback((note: string) => {
-      const newMemory: Memory = { id: Date.now().toString(), text: note, timestamp: new Date() };
+  const handleNoteRemembered = useCallback((note: string, details?: MemoryDetails) => {
+      const newMemory = createMemory(note, details);
       setMemories(prev => [newMemory, ...prev]);
       if (accessToken && apiUrl) saveMemoryApi(newMemory);
       triggerGesture('HeadNod');
   }, [triggerGesture, accessToken, apiUrl, saveMemoryApi]);
 
+  const handleMemoriesEmbedded = useCallback((embedded: Memory[]) => {
+      // Results for memories edited or deleted while the request ran are dropped; saving them would replace
+      // the pending edit or delete in the outbox. Edited memories are embedded again on their own.
+      const isCurrent = (m: Memory | undefined, e: Memory) => !!m && m.text === e.text && recordVersion(m) === recordVersion(e);
+      const current = new Map(memoriesRef.current.map(m => [m.id, m]));
+      const fresh = embedded.filter(e => isCurrent(current.get(e.id), e));
+      if (fresh.length === 0) return;
+      const byId = new Map(fresh.map(m => [m.id, m]));
+      setMemories(prev => prev.map(m => {
+          const e = byId.get(m.id);
+          return e && isCurrent(m, e) ? e : m;
+      }));
+      // Vectors live on the memory docs so other devices don't have to re-embed
+      if (accessToken && apiUrl) fresh.forEach(m => saveMemoryApi(m));
+  }, [accessToken, apiUrl, saveMemoryApi]);
+
+  const handleMemoryUpdated = useCallback(async (id: string, update: MemoryUpdate): Promise<Memory | null> => {
+      const current = memoriesRef.current.find(m => m.id === id);
+      if (!current) return null;
+      const updated = applyMemoryUpdate(current, update);
+      setMemories(prev => prev.map(m => m.id === id ? updated : m));
+      // The whole memory is saved so the backend can keep whichever device's edit came last
+      if (accessToken && apiUrl) saveMemoryApi(updated);
+      return updated;
+  }, [accessToken, apiUrl, saveMemoryApi]);
+
+  const saveMemoryEdit = () => {
+      if (!editingMemory) return;
+      const { id, text, category, importance } = editingMemory;
+      if (text.trim()) handleMemoryUpdated(id, { text: text.trim(), category, importance });
+      setEditingMemory(null);
+  };
+
+  // Expired memories stay visible in the drawer but are no longer offered to the model
+  const activeMemories = useMemo(() => memories.filter(m => !isMemoryExpired(m)), [memories]);
+  const visibleMemories = useMemo(
+      () => sortMemories(memoryFilter === 'all' ? memories : memories.filter(m => m.category === memoryFilter), memorySort),
+      [memories, memoryFilter, memorySort]
+  );
+
+  const { recall: recallMemories } = useMemoryRecall({
+      memories: activeMemories,
+      apiKey: googleApiKey || null,
+      onEmbedded: handleMemoriesEmbedded
+  });
+
   const deleteMemory = (id: string) => {
       setMemories(prev => prev.filter(m => m.id !== id));
       if (accessToken && apiUrl) deleteMemoryApi(id);
   };
 
+  // Folds near-duplicates into one memory each; the originals are kept on the merge record for undo
+  const consolidateMemories = () => {
+      const plans = planConsolidation(memoriesRef.current);
+      if (plans.length === 0) {
+          setMergeNotice("No duplicates found.");
+          return;
+      }
+      const merges = plans.map(plan => createMergeRecord(plan, 'manual'));
+      setMemories(prev => applyMergePlans(prev, plans));
+      setMemoryMerges(prev => [...merges, ...prev].slice(0, MAX_STORED_MERGES));
+      if (accessToken && apiUrl) plans.forEach((plan, i) => saveMemoryMergeApi(merges[i], plan.canonical));
+      const removed = plans.reduce((sum, plan) => sum + plan.originals.length - 1, 0);
+      setMergeNotice(`Merged ${removed} duplicate${removed === 1 ? '' : 's'} into ${plans.length} memor${plans.length === 1 ? 'y' : 'ies'}.`);
+  };
+
+  const undoMerge = (merge: MemoryMerge) => {
+      setMemories(prev => undoMergeRecord(prev, merge).map(normalizeMemory));
+      setMemoryMerges(prev => prev.filter(m => m.id !== merge.id));
+      if (accessToken && apiUrl) undoMemoryMergeApi(merge.id);
+      setMergeNotice(null);
+  };
+
   const handlePinItem = (type: 'search' | 'file', item: any) => {
       let note = "";
       if (type === 'search') note = `Remember this resource: "${item.title}" - ${item.uri}`;
       else if (type === 'file') note = `Remember this document: "${item.name}". Type: ${item.type}.`;
-      if (note) handleNoteRemembered(note);
+      if (note) handleNoteRemembered(note, { category: 'fact', source: type === 'search' ? 'pinned_search' : 'pinned_file' });
   };
 
   const handleFileSaved = useCallback((fileName: string, content: string) => {
@@ -345,16 +756,15 @@ const App = () => {
   };
 
   const deleteFile = (id: string) => setFiles(prev => prev.filter(f => f.id !== id));
-  const clearFiles = () => { setFiles([]); localStorage.removeItem('gem_workspace_files'); };
+  const clearFiles = () => setFiles([]);
 
   const handlePlayMusic = useCallback((val: string, type: 'id' | 'query' = 'query') => { 
       setMusicState({ type, value: val }); 
   }, []);
 
   const handleChatUpdate = useCallback((message: ChatMessage) => {
-      setChatHistory(prev => [...prev, message]);
-      if (accessToken && apiUrl) saveChatApi(message);
-  }, [accessToken, apiUrl, saveChatApi]);
+      appendChatMessage(message);
+  }, [appendChatMessage]);
 
   const handleDeleteSearchItem = (id: number) => {
       setSearchHistory(prev => prev.filter(item => item.id !== id));
@@ -372,12 +782,25 @@ const App = () => {
 
   const resetApp = () => {
       localStorage.clear();
-      window.location.reload();
+      deleteLocalDb()
+          .catch(e => console.error("[LocalDb] Deleting local data failed", e))
+          .finally(() => window.location.reload());
   };
 
+  const isLoggedIn = !!accessToken;
+
   // --- HOOK INIT ---
-  const { connect, disconnect, sendTextMessage, connectionState, isSpeaking, volume, groundingMetadata, audioAnalyser, logs, clearLogs } = useGeminiLive({
+  const { today: todayUsage, status: budgetStatus, ratio: budgetRatio, record: recordUsage } = useUsageTracker({
+      budget: usageBudget,
+      isRemote: isLoggedIn && !!apiUrl,
+      fetchUsage,
+      saveUsage: saveUsageApi
+  });
+
+  const { connect, disconnect, sendTextMessage, resetContext, loadContext, startTalking, stopTalking, isTalking, startVideo, stopVideo, videoSource, videoStream, connectionState, isSpeaking, sessionUsage, lastTurnUsage, volume, groundingMetadata, audioAnalyser, logs, clearLogs } = useGeminiLive({
       onNoteRemembered: handleNoteRemembered,
+      onMemoryUpdated: handleMemoryUpdated,
+      recallMemories,
       onFileSaved: handleFileSaved,
       onPlayMusic: handlePlayMusic,
       onChatUpdate: handleChatUpdate,
@@ -392,24 +815,137 @@ const App = () => {
       customSearchCx: DEFAULT_CUSTOM_SEARCH_CX,
       // Gate Mic: When Music is Playing OR Text Mode is Active
       isMusicPlaying: !!musicState || isTextMode,
-      apiKey: googleApiKey
+      apiKey: googleApiKey,
+      pushToTalk: inputSettings.mode === 'pushToTalk',
+      inputDeviceId: audioDevices.inputDeviceId,
+      outputDeviceId: audioDevices.outputDeviceId,
+      persona: activePersona,
+      modelSettings,
+      onUsage: recordUsage
   });
+  const isPushToTalk = inputSettings.mode === 'pushToTalk';
+
+  const addAttachments = async (incoming: File[]) => {
+      if (incoming.length === 0) return;
+      setAttachmentError(null);
+      const room = MAX_ATTACHMENTS_PER_MESSAGE - pendingAttachments.length;
+      if (incoming.length > room) setAttachmentError(`Up to ${MAX_ATTACHMENTS_PER_MESSAGE} attachments per message`);
+      const results = await Promise.allSettled(incoming.slice(0, Math.max(0, room)).map(readAttachment));
+      const added = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+      const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+      if (failed) setAttachmentError(failed.reason?.message || 'Could not read file');
+      setPendingAttachments(prev => [...prev, ...added].slice(0, MAX_ATTACHMENTS_PER_MESSAGE));
+      if (attachmentInputRef.current) attachmentInputRef.current.value = '';
+  };
+
+  const removeAttachment = (id: string) => setPendingAttachments(prev => prev.filter(a => a.attachment.id !== id));
+
+  const handleSendText = () => {
+      if (!textInput.trim() && pendingAttachments.length === 0) return;
+      sendTextMessage(textInput.trim(), pendingAttachments);
+      setTextInput('');
+      setPendingAttachments([]);
+      setAttachmentError(null);
+  };
+
+  const toggleVideo = (source: VideoSource) => {
+      if (videoSource === source) stopVideo();
+      else startVideo(source);
+  };
   
   const handleToggleConnection = async () => {
-    if (connectionState === ConnectionState.CONNECTED) {
+    if (connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.RECONNECTING) {
       await disconnect();
+    } else if (budgetStatus === 'exceeded') {
+      setBudgetNotice({ level: 'exceeded', message: "Today's usage budget is used up. Raise it in Settings to keep chatting." });
     } else {
-      const memoryTexts = memories.map(m => m.text);
+      // Only a core profile is preloaded; the model pulls the rest through recallMemories
+      const memoryTexts = selectCoreMemories(activeMemories).map(m => m.text);
+      // Every session gets its own thread unless a past one was picked to continue
+      if (resumeThreadId !== activeThreadId) {
+          startThread();
+          resetContext();
+      }
+      setResumeThreadId(null);
       await connect(memoryTexts, files);
     }
   };
 
+  // The picked thread receives the next session's messages and its latest turns become that session's context
+  const resumeThread = async (threadId: string) => {
+      const messages = await resumeChatThread(threadId);
+      loadContext(messages);
+      setResumeThreadId(threadId);
+  };
+
+  const openSearchResult = (result: SearchResult) => {
+      setIsSearchPanelOpen(false);
+      if (result.type === 'memory') {
+          setMemoryFilter('all');
+          setIsMemoryDrawerOpen(true);
+      } else if (result.type === 'chat') {
+          if (result.threadId && result.threadId !== viewedThreadId) viewThread(result.threadId);
+          setIsChatDrawerOpen(true);
+      } else if (result.type === 'search') {
+          setExpandedHistoryIds(prev => new Set(prev).add(Number(result.id)));
+          setIsSearchDrawerOpen(true);
+      } else {
+          setExpandedFileId(result.id);
+          setIsWorkspaceDrawerOpen(true);
+      }
+      setHighlightedItem(`${result.type}-${result.id}`);
+  };
+
+  const startNewThread = () => {
+      startThread();
+      resetContext();
+      setResumeThreadId(null);
+  };
+
+  const saveThreadTitle = () => {
+      if (editingThread) renameThread(editingThread.id, editingThread.title);
+      setEditingThread(null);
+  };
+
+  // Warn once when crossing the warning threshold; end the session at the limit
+  const isSessionActive = connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.RECONNECTING;
+  useEffect(() => {
+      if (budgetStatus === 'warn') {
+          setBudgetNotice(prev => prev ? prev : { level: 'warn', message: `You've used ${Math.round(budgetRatio * 100)}% of today's usage budget.` });
+      } else if (budgetStatus === 'exceeded' && isSessionActive) {
+          setBudgetNotice({ level: 'exceeded', message: "Daily usage budget reached. The session was ended." });
+          disconnect();
+      } else if (budgetStatus === 'ok') {
+          setBudgetNotice(null);
+      }
+  }, [budgetStatus, isSessionActive, disconnect]);
+
+  const formatUsage = (u: UsageTotals) => `${u.totalTokens.toLocaleString()} tok (${u.inputTokens.toLocaleString()} in / ${u.outputTokens.toLocaleString()} out) · audio ${formatSeconds(u.inputAudioSeconds)} in / ${formatSeconds(u.outputAudioSeconds)} out · ${u.toolCalls} tools · ${u.turns} turns`;
+
+  useHotkeys({
+      settings: inputSettings,
+      enabled: isLoggedIn && !isTextMode,
+      onToggleConnection: handleToggleConnection,
+      onTalkStart: startTalking,
+      onTalkEnd: stopTalking
+  });
+
   // Scroll chat to bottom
   useEffect(() => {
       if (isChatDrawerOpen && chatScrollRef.current) {
           chatScrollRef.current.scrollTop = chatScrollRef.current.scrollHeight;
       }
-  }, [chatHistory, isChatDrawerOpen]);
+  }, [chatMessages[chatMessages.length - 1]?.id, isChatDrawerOpen]);
+
+  // Scroll the opened drawer to the picked search result once it slid in (and, for chats, the thread loaded)
+  useEffect(() => {
+      if (!highlightedItem) return;
+      const scrollTimer = setTimeout(() => {
+          document.getElementById(highlightedItem)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      }, 350);
+      const clearTimer = setTimeout(() => setHighlightedItem(null), 3000);
+      return () => { clearTimeout(scrollTimer); clearTimeout(clearTimer); };
+  }, [highlightedItem, chatMessages]);
 
   // --- SEARCH HISTORY LOGIC ---
   useEffect(() => {
@@ -432,7 +968,7 @@ const App = () => {
             const existingUris = new Set(head.sources.map(s => s.uri));
             const uniqueNewSources = newSources.filter(s => !existingUris.has(s.uri));
             if (uniqueNewSources.length === 0) return prev;
-            const updatedHead = { ...head, sources: [...head.sources, ...uniqueNewSources] };
+            const updatedHead = { ...head, sources: [...head.sources, ...uniqueNewSources], updatedAt: new Date() };
             if (accessToken && apiUrl) saveSearchApi(updatedHead);
             return [updatedHead, ...prev.slice(1)];
         } else {
@@ -458,7 +994,6 @@ const App = () => {
   const formatTime = (date: Date | string | number) => new Date(date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   const formatDate = (date: Date | string | number) => new Date(date).toLocaleDateString([], { month: 'short', day: 'numeric' });
   const copyOrigin = () => { navigator.clipboard.writeText(window.location.origin); setOriginCopied(true); setTimeout(() => setOriginCopied(false), 2000); };
-  const isLoggedIn = !!accessToken;
 
   return (
     <div className="relative w-full h-screen bg-[#0a0a12] overflow-hidden font-sans">
@@ -507,8 +1042,21 @@ const App = () => {
       {/* SIDEBAR */}
       {isLoggedIn && (
       <div className="absolute top-0 left-0 p-6 flex flex-col gap-4 items-start pointer-events-none z-40 max-h-screen">
-        <button onClick={logout} className="pointer-events-auto bg-slate-900/40 backdrop-blur-xl p-3 rounded-2xl shadow-lg border border-white/10 transition-all hover:bg-red-900/40 hover:border-red-500/30 hover:scale-105 group relative"><LogOut size={24} className="text-slate-400 group-hover:text-red-400" /></button>
+        <button onClick={handleLogout} className="pointer-events-auto bg-slate-900/40 backdrop-blur-xl p-3 rounded-2xl shadow-lg border border-white/10 transition-all hover:bg-red-900/40 hover:border-red-500/30 hover:scale-105 group relative"><LogOut size={24} className="text-slate-400 group-hover:text-red-400" /></button>
+        {apiUrl && (
+            <button
+                onClick={() => { flushOutbox(); syncNow(); }}
+                title={syncStatus.isSyncing ? "Syncing..." : syncStatus.pendingCount > 0 ? `${syncStatus.pendingCount} change${syncStatus.pendingCount === 1 ? '' : 's'} waiting to sync${syncStatus.error ? ` (${syncStatus.error})` : ''}` : syncStatus.lastSyncedAt ? `Synced ${syncStatus.lastSyncedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : "Not synced yet"}
+                className="pointer-events-auto bg-slate-900/40 backdrop-blur-xl px-3 py-2 rounded-2xl shadow-lg border border-white/10 hover:bg-slate-800/60 flex items-center gap-2"
+            >
+                {syncStatus.isSyncing ? <RefreshCw size={14} className="text-blue-400 animate-spin" /> : syncStatus.pendingCount > 0 ? <CloudOff size={14} className="text-amber-400" /> : <Cloud size={14} className="text-emerald-400" />}
+                {syncStatus.pendingCount > 0 && <span className="text-[10px] text-amber-300">{syncStatus.pendingCount}</span>}
+            </button>
+        )}
         <div className="flex flex-col gap-3 pointer-events-auto">
+             <button onClick={() => setIsSearchPanelOpen(true)} title="Search everything" className="bg-slate-900/40 backdrop-blur-xl p-3 rounded-2xl shadow-lg border border-white/10 hover:bg-slate-800/60 relative">
+                <TextSearch size={24} className="text-slate-300" />
+            </button>
              <button onClick={() => setIsMemoryDrawerOpen(true)} className="bg-slate-900/40 backdrop-blur-xl p-3 rounded-2xl shadow-lg border border-white/10 hover:bg-slate-800/60 relative">
                 <Brain size={24} className="text-pink-400" />
                 {memories.length > 0 && <span className="absolute -top-1 -right-1 flex h-4 w-4 items-center justify-center rounded-full bg-pink-500 text-[10px] text-white">{memories.length}</span>}
@@ -523,7 +1071,7 @@ const App = () => {
             </button>
             <button onClick={() => setIsChatDrawerOpen(true)} className="bg-slate-900/40 backdrop-blur-xl p-3 rounded-2xl shadow-lg border border-white/10 hover:bg-slate-800/60 relative">
                 <MessageSquare size={24} className="text-cyan-400" />
-                {chatHistory.length > 0 && <span className="absolute -top-1 -right-1 flex h-4 w-4 items-center justify-center rounded-full bg-cyan-500 text-[10px] text-white">{chatHistory.length}</span>}
+                {chatMessages.length > 0 && <span className="absolute -top-1 -right-1 flex h-4 w-4 items-center justify-center rounded-full bg-cyan-500 text-[10px] text-white">{chatMessages.length}</span>}
             </button>
             <button onClick={() => setIsSettingsOpen(true)} className="bg-slate-900/40 backdrop-blur-xl p-3 rounded-2xl shadow-lg border border-white/10 hover:bg-slate-800/60 relative"><SlidersHorizontal size={24} className="text-blue-400" /></button>
         </div>
@@ -535,17 +1083,77 @@ const App = () => {
       <div className={`absolute top-0 left-0 h-full w-80 bg-slate-950/95 backdrop-blur-xl border-r border-white/10 shadow-2xl transition-transform duration-300 z-50 flex flex-col ${isMemoryDrawerOpen ? 'translate-x-0' : '-translate-x-full'}`}>
          <div className="p-6 border-b border-white/10 bg-slate-900/50 flex justify-between items-center">
               <div className="flex items-center gap-2 text-slate-100"><Brain size={18} className="text-pink-400" /><h2 className="font-bold text-lg">Memory</h2></div>
-              <button onClick={() => setIsMemoryDrawerOpen(false)} className="text-slate-400 hover:text-white"><X size={20} /></button>
+              <div className="flex gap-2">
+                  <button onClick={consolidateMemories} title="Merge duplicates" className="text-slate-400 hover:text-pink-300 p-2 hover:bg-white/10 rounded-full"><Combine size={16} /></button>
+                  <button onClick={() => setIsMemoryDrawerOpen(false)} className="text-slate-400 hover:text-white"><X size={20} /></button>
+              </div>
+          </div>
+          {mergeNotice && (
+              <div className="mx-4 mt-3 flex items-center justify-between gap-2 px-3 py-2 rounded-lg bg-pink-500/10 border border-pink-500/30 text-[11px] text-pink-200">
+                  <span>{mergeNotice}</span>
+                  <button onClick={() => setMergeNotice(null)} className="opacity-60 hover:opacity-100"><X size={12} /></button>
+              </div>
+          )}
+          <div className="px-4 pt-3 pb-2 border-b border-white/5 space-y-2">
+              <div className="flex flex-wrap gap-1">
+                  {[{ id: 'all' as const, label: 'All' }, ...MEMORY_CATEGORIES].map(c => (
+                      <button key={c.id} onClick={() => setMemoryFilter(c.id)} className={`px-2 py-0.5 rounded-full text-[10px] border ${memoryFilter === c.id ? 'bg-pink-500/20 border-pink-500/50 text-pink-200' : 'border-white/10 text-slate-400 hover:text-white'}`}>{c.label}</button>
+                  ))}
+              </div>
+              <select value={memorySort} onChange={e => setMemorySort(e.target.value as MemorySort)} className="w-full bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-[11px] text-slate-300">
+                  <option value="newest">Newest first</option>
+                  <option value="importance">Most important first</option>
+              </select>
           </div>
           <div className="flex-1 overflow-y-auto p-4 space-y-3">
-              {memories.map((m) => (
-                  <div key={m.id} className="bg-slate-900/60 border border-white/5 rounded-xl p-3 group relative">
-                      <p className="text-sm text-slate-300 leading-relaxed pr-6">{m.text}</p>
-                      <span className="text-[10px] text-slate-500 font-mono mt-2 block">{formatDate(m.timestamp)}</span>
-                      <button onClick={() => deleteMemory(m.id)} className="absolute top-2 right-2 text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"><X size={14} /></button>
+              {visibleMemories.map((m) => editingMemory?.id === m.id ? (
+                  <div key={m.id} className="bg-slate-900/80 border border-pink-500/30 rounded-xl p-3 space-y-2">
+                      <textarea value={editingMemory.text} onChange={e => setEditingMemory({ ...editingMemory, text: e.target.value })} rows={3} className="w-full bg-black/30 border border-white/10 rounded-lg p-2 text-sm text-slate-200 resize-none" autoFocus />
+                      <div className="flex gap-2">
+                          <select value={editingMemory.category} onChange={e => setEditingMemory({ ...editingMemory, category: e.target.value as MemoryCategory })} className="flex-1 bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-[11px] text-slate-300">
+                              {MEMORY_CATEGORIES.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                          </select>
+                          <select value={editingMemory.importance} onChange={e => setEditingMemory({ ...editingMemory, importance: Number(e.target.value) })} className="bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-[11px] text-slate-300">
+                              {Array.from({ length: IMPORTANCE_RANGE.max - IMPORTANCE_RANGE.min + 1 }, (_, i) => IMPORTANCE_RANGE.min + i).map(n => <option key={n} value={n}>{'★'.repeat(n)}</option>)}
+                          </select>
+                      </div>
+                      <div className="flex justify-end gap-2">
+                          <button onClick={() => setEditingMemory(null)} className="text-slate-400 text-xs px-2">Cancel</button>
+                          <button onClick={saveMemoryEdit} className="bg-pink-600 text-white text-xs px-3 py-1 rounded-lg">Save</button>
+                      </div>
+                  </div>
+              ) : (
+                  <div key={m.id} id={`memory-${m.id}`} className={`bg-slate-900/60 border border-white/5 rounded-xl p-3 group relative ${isMemoryExpired(m) ? 'opacity-50' : ''} ${highlightedItem === `memory-${m.id}` ? 'ring-1 ring-pink-400/70' : ''}`}>
+                      <p className="text-sm text-slate-300 leading-relaxed pr-10">{m.text}</p>
+                      <div className="flex items-center gap-2 mt-2 text-[10px] text-slate-500">
+                          <span className="px-1.5 py-0.5 rounded bg-pink-500/10 text-pink-300">{MEMORY_CATEGORIES.find(c => c.id === m.category)?.label}</span>
+                          <span className="text-amber-400/80" title={`Importance ${m.importance}/${IMPORTANCE_RANGE.max}`}>{'★'.repeat(m.importance)}</span>
+                          <span title={MEMORY_SOURCE_LABELS[m.source]} className="font-mono">{formatDate(m.timestamp)}</span>
+                          {m.expiresAt && <span className={isMemoryExpired(m) ? 'text-red-400' : ''}>{isMemoryExpired(m) ? 'expired' : `until ${formatDate(m.expiresAt)}`}</span>}
+                      </div>
+                      <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button onClick={() => setEditingMemory({ id: m.id, text: m.text, category: m.category, importance: m.importance })} className="text-slate-600 hover:text-pink-300"><Pencil size={13} /></button>
+                          <button onClick={() => deleteMemory(m.id)} className="text-slate-600 hover:text-red-400"><X size={14} /></button>
+                      </div>
                   </div>
               ))}
           </div>
+          {memoryMerges.length > 0 && (
+              <div onScroll={onScrollNearEnd('bottom', loadMoreMerges)} className="border-t border-white/10 p-4 max-h-48 overflow-y-auto">
+                  <h3 className="text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-2">Recent merges</h3>
+                  <div className="space-y-2">
+                      {memoryMerges.map(merge => (
+                          <div key={merge.id} className="flex items-start justify-between gap-2 text-[11px] text-slate-400">
+                              <div className="min-w-0">
+                                  <p className="truncate text-slate-300" title={merge.originals.map(o => o.text).join('\n')}>{merge.originals.length} memories → 1</p>
+                                  <span className="text-[10px] text-slate-500">{merge.origin === 'scheduled' ? 'Nightly' : 'Manual'} · {formatDate(merge.mergedAt)}</span>
+                              </div>
+                              <button onClick={() => undoMerge(merge)} title="Undo merge" className="flex items-center gap-1 text-slate-500 hover:text-pink-300 flex-shrink-0"><Undo2 size={12} /> Undo</button>
+                          </div>
+                      ))}
+                  </div>
+              </div>
+          )}
       </div>
 
       {/* Chat History Drawer */}
@@ -553,15 +1161,63 @@ const App = () => {
           <div className="p-6 border-b border-white/10 flex justify-between items-center bg-slate-900/50">
               <div className="flex items-center gap-2 text-slate-100"><MessageSquare size={18} className="text-cyan-400" /><h2 className="font-bold text-lg">Chat History</h2></div>
               <div className="flex gap-2">
-                  <button onClick={() => { setChatHistory([]); if(accessToken && apiUrl) clearChatApi(); }} className="text-slate-400 hover:text-red-400 p-2 hover:bg-white/10 rounded-full"><Trash2 size={16} /></button>
+                  <button onClick={startNewThread} title="New conversation" className="text-slate-400 hover:text-cyan-300 p-2 hover:bg-white/10 rounded-full"><Plus size={16} /></button>
                   <button onClick={() => setIsChatDrawerOpen(false)} className="text-slate-400 hover:text-white p-2 hover:bg-white/10 rounded-full"><X size={20} /></button>
               </div>
           </div>
-          <div ref={chatScrollRef} className="flex-1 overflow-y-auto p-4 space-y-4 scrollbar-thin scrollbar-thumb-slate-700">
-              {chatHistory.map((msg) => (
-                  <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                      <div className={`max-w-[80%] p-3 rounded-xl text-sm ${msg.role === 'user' ? 'bg-indigo-600 text-white rounded-tr-none' : 'bg-slate-800 text-slate-200 rounded-tl-none'}`}>
-                          <p>{msg.text}</p>
+          {chatThreads.length > 0 && (
+              <div onScroll={onScrollNearEnd('bottom', loadMoreThreads)} className="max-h-44 overflow-y-auto border-b border-white/10 p-2 space-y-1 scrollbar-thin scrollbar-thumb-slate-700">
+                  {chatThreads.map(t => editingThread?.id === t.id ? (
+                      <div key={t.id} className="flex items-center gap-2 px-2 py-1">
+                          <input value={editingThread.title} onChange={e => setEditingThread({ ...editingThread, title: e.target.value })} onKeyDown={e => { if (e.key === 'Enter') saveThreadTitle(); if (e.key === 'Escape') setEditingThread(null); }} placeholder={threadLabel(t)} className="flex-1 bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-xs text-slate-200" autoFocus />
+                          <button onClick={saveThreadTitle} className="text-cyan-300 hover:text-white"><Check size={14} /></button>
+                      </div>
+                  ) : (
+                      <div key={t.id} onClick={() => viewThread(t.id)} className={`group flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer text-xs ${t.id === viewedThreadId ? 'bg-cyan-500/10 text-cyan-100' : 'text-slate-400 hover:bg-white/5'}`}>
+                          <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${t.id === activeThreadId ? 'bg-cyan-400' : 'bg-transparent'}`} title={t.id === activeThreadId ? 'Current conversation' : undefined} />
+                          <span className="flex-1 truncate">{threadLabel(t)}</span>
+                          <span className="text-[10px] text-slate-500 flex-shrink-0">{formatDate(t.updatedAt)} · {t.messageCount}</span>
+                          <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                              <button onClick={e => { e.stopPropagation(); setEditingThread({ id: t.id, title: t.title }); }} className="text-slate-500 hover:text-cyan-300"><Pencil size={12} /></button>
+                              <button onClick={e => { e.stopPropagation(); deleteThread(t.id); }} className="text-slate-500 hover:text-red-400"><Trash2 size={12} /></button>
+                          </div>
+                      </div>
+                  ))}
+              </div>
+          )}
+          {viewedThreadId && chatMessages.length > 0 && !isSessionActive && (
+              <div className="px-4 py-2 border-b border-white/10 flex items-center justify-between text-[11px] text-slate-400">
+                  {resumeThreadId === viewedThreadId ? (
+                      <span className="flex items-center gap-1 text-cyan-300"><History size={12} /> The next session continues this conversation</span>
+                  ) : (
+                      <>
+                          <span>{viewedThreadId === activeThreadId ? 'Last conversation' : 'Past conversation'}</span>
+                          <button onClick={() => resumeThread(viewedThreadId)} className="flex items-center gap-1 text-cyan-300 hover:text-white"><History size={12} /> Continue in next session</button>
+                      </>
+                  )}
+              </div>
+          )}
+          <div ref={chatScrollRef} onScroll={onScrollNearEnd('top', loadEarlierChat)} className="flex-1 overflow-y-auto p-4 space-y-4 scrollbar-thin scrollbar-thumb-slate-700">
+              {hasEarlierMessages && (
+                  <button onClick={loadEarlierChat} className="w-full text-[11px] text-slate-500 hover:text-cyan-300 py-1">Load earlier messages</button>
+              )}
+              {chatMessages.map((msg) => (
+                  <div key={msg.id} id={`chat-${msg.id}`} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                      <div className={`max-w-[80%] p-3 rounded-xl text-sm ${msg.role === 'user' ? 'bg-indigo-600 text-white rounded-tr-none' : 'bg-slate-800 text-slate-200 rounded-tl-none'} ${highlightedItem === `chat-${msg.id}` ? 'ring-2 ring-cyan-300/70' : ''}`}>
+                          {msg.attachments && msg.attachments.length > 0 && (
+                              <div className="flex flex-wrap gap-2 mb-2">
+                                  {msg.attachments.map(a => a.thumbnail ? (
+                                      <img key={a.id} src={a.thumbnail} alt={a.name} title={a.name} className="w-20 h-20 object-cover rounded-lg border border-white/20" />
+                                  ) : (
+                                      <div key={a.id} title={a.name} className="flex items-center gap-1.5 bg-black/30 rounded-lg px-2 py-1.5 max-w-full">
+                                          <FileText size={14} className="flex-shrink-0" />
+                                          <span className="text-xs truncate">{a.name}</span>
+                                          <span className="text-[10px] opacity-60 flex-shrink-0">{formatFileSize(a.size)}</span>
+                                      </div>
+                                  ))}
+                              </div>
+                          )}
+                          {msg.text && <p>{msg.text}</p>}
                           <span className="text-[10px] opacity-50 block mt-1 text-right">{formatTime(msg.timestamp)}</span>
                       </div>
                   </div>
@@ -577,7 +1233,7 @@ const App = () => {
           </div>
           <div className="flex-1 overflow-y-auto p-4 space-y-3">
               {searchHistory.map((item) => (
-                  <div key={item.id} className="bg-slate-900/60 border border-white/5 rounded-xl overflow-hidden group relative">
+                  <div key={item.id} id={`search-${item.id}`} className={`bg-slate-900/60 border border-white/5 rounded-xl overflow-hidden group relative ${highlightedItem === `search-${item.id}` ? 'ring-1 ring-indigo-400/70' : ''}`}>
                       <div className="p-3 hover:bg-white/5 cursor-pointer" onClick={() => setExpandedHistoryIds(prev => { const s = new Set(prev); s.has(item.id) ? s.delete(item.id) : s.add(item.id); return s; })}>
                           <div className="pr-6">
                               <p className="text-sm font-semibold text-slate-200 truncate">{item.query}</p>
@@ -629,7 +1285,7 @@ const App = () => {
           </div>
           <div className="flex-1 overflow-y-auto p-4 space-y-3">
               {files.map(f => (
-                  <div key={f.id} className="bg-slate-900/60 border border-white/5 rounded-xl overflow-hidden">
+                  <div key={f.id} id={`file-${f.id}`} className={`bg-slate-900/60 border border-white/5 rounded-xl overflow-hidden ${highlightedItem === `file-${f.id}` ? 'ring-1 ring-emerald-400/70' : ''}`}>
                       <div className="p-3 flex justify-between items-center hover:bg-white/5 cursor-pointer" onClick={() => setExpandedFileId(expandedFileId === f.id ? null : f.id)}>
                           <div className="flex items-center gap-2 overflow-hidden">
                               <FileText size={16} className="text-emerald-400 flex-shrink-0"/>
@@ -653,7 +1309,9 @@ const App = () => {
 
       {(isSearchDrawerOpen || isMemoryDrawerOpen || isWorkspaceDrawerOpen || isApiConfigOpen || isSettingsOpen || isChatDrawerOpen) && <div className="absolute inset-0 bg-black/60 backdrop-blur-sm z-40" onClick={() => { setIsSearchDrawerOpen(false); setIsMemoryDrawerOpen(false); setIsWorkspaceDrawerOpen(false); setIsApiConfigOpen(false); setIsSettingsOpen(false); setIsChatDrawerOpen(false); }} />}
 
-      <SettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} config={integrations} onToggle={toggleIntegration} />
+      <SettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} config={integrations} onToggle={toggleIntegration} inputSettings={inputSettings} onInputSettingsChange={updateInputSettings} audioDevices={audioDevices} onAudioDevicesChange={updateAudioDevices} personas={personas} activePersonaId={activePersonaId} onSelectPersona={selectPersona} onSavePersona={savePersona} onDeletePersona={deletePersona} modelSettings={modelSettings} onModelSettingsChange={updateModelSettings} usageBudget={usageBudget} onUsageBudgetChange={updateUsageBudget} todayUsage={todayUsage.totals} isSignedIn={isLoggedIn && !!apiUrl} onExportData={handleExportData} onImportData={handleImportData} retention={retention} onRetentionChange={updateRetention} onDeleteAccount={handleDeleteAccount} />
+
+      <SearchPanel isOpen={isSearchPanelOpen} onClose={() => setIsSearchPanelOpen(false)} query={unifiedQuery} onQueryChange={setUnifiedQuery} results={unifiedResults} isSearching={isSearching} onSelect={openSearchResult} />
 
       {/* MUSIC PLAYER */}
       {musicState && (
@@ -697,6 +1355,16 @@ const App = () => {
           </div>
       )}
 
+      {budgetNotice && (
+          <div className={`absolute top-24 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 px-4 py-2 rounded-full border text-sm shadow-lg ${budgetNotice.level === 'exceeded' ? 'bg-red-500/20 border-red-500/40 text-red-200' : 'bg-amber-500/20 border-amber-500/40 text-amber-200'}`}>
+              <AlertCircle size={16} />
+              <span>{budgetNotice.message}</span>
+              <button onClick={() => setBudgetNotice(null)} className="opacity-60 hover:opacity-100"><X size={14} /></button>
+          </div>
+      )}
+
+      {videoStream && videoSource && <VideoPreview stream={videoStream} source={videoSource} onStop={stopVideo} />}
+
       {/* MAIN CONTROLS */}
       {isLoggedIn && (
         <div className="absolute bottom-10 left-0 w-full flex justify-center pointer-events-none z-30">
@@ -706,18 +1374,57 @@ const App = () => {
               <div className="flex items-end gap-4">
                   <button onClick={() => setIsTextMode(!isTextMode)} className="bg-slate-900/60 p-3 rounded-full border border-white/10 text-slate-400 hover:text-white">{isTextMode ? <Mic size={20} /> : <Keyboard size={20} />}</button>
                   {isTextMode ? (
-                      connectionState === ConnectionState.CONNECTED ? (
-                          <div className="flex gap-2 bg-slate-900/80 p-2 rounded-2xl border border-white/10 w-80">
-                              <input type="text" value={textInput} onChange={e => setTextInput(e.target.value)} onKeyDown={e => { if(e.key==='Enter'&&textInput.trim()){ sendTextMessage(textInput); setTextInput(''); }}} className="flex-1 bg-transparent text-white px-2 outline-none text-sm" placeholder="Type..." autoFocus />
-                              <button onClick={() => { if(textInput.trim()) { sendTextMessage(textInput); setTextInput(''); }}} className="bg-blue-600 p-2 rounded-xl text-white"><Send size={16}/></button>
+                      connectionState === ConnectionState.RECONNECTING ? (
+                          <div className="bg-amber-500/20 text-amber-300 border border-amber-500/30 py-3 px-6 rounded-full flex items-center gap-2 text-sm"><RefreshCw size={16} className="animate-spin" /> Reconnecting...</div>
+                      ) : connectionState === ConnectionState.CONNECTED ? (
+                          <div className="flex flex-col gap-2 bg-slate-900/80 p-2 rounded-2xl border border-white/10 w-80" onDragOver={e => e.preventDefault()} onDrop={e => { e.preventDefault(); addAttachments(Array.from(e.dataTransfer.files)); }}>
+                              {pendingAttachments.length > 0 && (
+                                  <div className="flex flex-wrap gap-2 px-1">
+                                      {pendingAttachments.map(({ attachment }) => (
+                                          <div key={attachment.id} className="relative flex items-center gap-1.5 bg-black/40 border border-white/10 rounded-lg pr-5 max-w-[9rem]" title={`${attachment.name} (${formatFileSize(attachment.size)})`}>
+                                              {attachment.thumbnail ? <img src={attachment.thumbnail} alt={attachment.name} className="w-8 h-8 object-cover rounded-l-lg" /> : <FileText size={16} className="text-slate-400 ml-1.5 flex-shrink-0" />}
+                                              <span className="text-[10px] text-slate-300 truncate">{attachment.name}</span>
+                                              <button onClick={() => removeAttachment(attachment.id)} className="absolute top-0.5 right-0.5 text-slate-500 hover:text-red-400"><X size={12} /></button>
+                                          </div>
+                                      ))}
+                                  </div>
+                              )}
+                              {attachmentError && <span className="text-[10px] text-red-400 px-1">{attachmentError}</span>}
+                              <div className="flex gap-2">
+                                  <input type="file" multiple accept={ATTACHMENT_ACCEPT} ref={attachmentInputRef} className="hidden" onChange={e => addAttachments(Array.from(e.target.files || []))} />
+                                  <button onClick={() => attachmentInputRef.current?.click()} title="Attach image or file" className="text-slate-400 hover:text-white p-2 rounded-xl"><Paperclip size={16}/></button>
+                                  <input type="text" value={textInput} onChange={e => setTextInput(e.target.value)} onKeyDown={e => { if(e.key==='Enter') handleSendText(); }} onPaste={e => { const pasted = Array.from<File>(e.clipboardData.files); if (pasted.length > 0) { e.preventDefault(); addAttachments(pasted); }}} className="flex-1 bg-transparent text-white px-2 outline-none text-sm" placeholder="Type..." autoFocus />
+                                  <button onClick={handleSendText} className="bg-blue-600 p-2 rounded-xl text-white"><Send size={16}/></button>
+                              </div>
                           </div>
                       ) : (
                           <button onClick={handleToggleConnection} className="bg-indigo-600 text-white font-bold py-3 px-6 rounded-full flex items-center gap-2">Start Chat</button>
                       )
                   ) : (
-                      <button onClick={handleToggleConnection} className={`w-12 h-12 sm:w-16 sm:h-16 rounded-full flex items-center justify-center text-white shadow-lg transition-transform hover:scale-105 ${connectionState === ConnectionState.CONNECTED ? 'bg-red-500' : 'bg-indigo-600'}`}>{connectionState === ConnectionState.CONNECTED ? <Mic size={24} className="sm:w-7 sm:h-7" /> : <MicOff size={24} className="sm:w-7 sm:h-7" />}</button>
+                      isPushToTalk && connectionState === ConnectionState.CONNECTED ? (
+                          <div className="flex flex-col items-center gap-2">
+                              <button
+                                  onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); startTalking(); }}
+                                  onPointerUp={stopTalking}
+                                  onPointerCancel={stopTalking}
+                                  title={`Hold to talk (or hold ${formatHotkey(inputSettings.pushToTalkKey)})`}
+                                  className={`w-12 h-12 sm:w-16 sm:h-16 rounded-full flex items-center justify-center text-white shadow-lg transition-transform select-none touch-none ${isTalking ? 'bg-red-500 scale-110 ring-4 ring-red-400/40' : 'bg-slate-700 hover:scale-105'}`}
+                              >{isTalking ? <Mic size={24} className="sm:w-7 sm:h-7" /> : <MicOff size={24} className="sm:w-7 sm:h-7" />}</button>
+                              <span className="text-[10px] text-slate-400">{isTalking ? 'Listening...' : `Hold ${formatHotkey(inputSettings.pushToTalkKey)} to talk`}</span>
+                          </div>
+                      ) : (
+                          <button onClick={handleToggleConnection} title={connectionState === ConnectionState.RECONNECTING ? 'Reconnecting... (click to stop)' : undefined} className={`w-12 h-12 sm:w-16 sm:h-16 rounded-full flex items-center justify-center text-white shadow-lg transition-transform hover:scale-105 ${connectionState === ConnectionState.CONNECTED ? 'bg-red-500' : connectionState === ConnectionState.RECONNECTING ? 'bg-amber-500 animate-pulse' : 'bg-indigo-600'}`}>{connectionState === ConnectionState.RECONNECTING ? <RefreshCw size={24} className="sm:w-7 sm:h-7 animate-spin" /> : connectionState === ConnectionState.CONNECTED ? <Mic size={24} className="sm:w-7 sm:h-7" /> : <MicOff size={24} className="sm:w-7 sm:h-7" />}</button>
+                      )
                   )}
-                  <div className="w-12" />
+                  {integrations.vision && connectionState === ConnectionState.CONNECTED && (
+                      <div className="flex gap-2">
+                          <button onClick={() => toggleVideo('camera')} title={videoSource === 'camera' ? 'Stop camera' : 'Let her see you (camera)'} className={`p-3 rounded-full border ${videoSource === 'camera' ? 'bg-red-500/20 border-red-500/50 text-red-300' : 'bg-slate-900/60 border-white/10 text-slate-400 hover:text-white'}`}><Camera size={20} /></button>
+                          <button onClick={() => toggleVideo('screen')} title={videoSource === 'screen' ? 'Stop screen sharing' : 'Let her see your screen'} className={`p-3 rounded-full border ${videoSource === 'screen' ? 'bg-red-500/20 border-red-500/50 text-red-300' : 'bg-slate-900/60 border-white/10 text-slate-400 hover:text-white'}`}><ScreenShare size={20} /></button>
+                      </div>
+                  )}
+                  {isPushToTalk && !isTextMode && connectionState === ConnectionState.CONNECTED ? (
+                      <button onClick={handleToggleConnection} title={`End session (${formatHotkey(inputSettings.toggleConnectionHotkey)})`} className="bg-slate-900/60 p-3 rounded-full border border-white/10 text-slate-400 hover:text-red-400"><PhoneOff size={20} /></button>
+                  ) : <div className="w-12" />}
               </div>
            </div>
         </div>
@@ -728,6 +1435,11 @@ const App = () => {
       {isDebugOpen && (
           <div className="absolute bottom-20 right-6 w-[500px] h-96 bg-slate-950/95 border border-white/10 rounded-xl z-40 flex flex-col font-mono text-xs">
               <div className="p-2 border-b border-white/10 flex justify-between bg-slate-900/50"><span className="text-slate-300 font-bold">Logs</span><div className="flex gap-2"><button onClick={() => setDebugDance(!debugDance)} className="text-yellow-400"><Music size={14}/></button><button onClick={resetApp} className="text-red-400">Reset App</button><button onClick={clearLogs} className="text-red-400">Clear</button><button onClick={() => setIsDebugOpen(false)}>X</button></div></div>
+              <div className="p-2 border-b border-white/10 bg-slate-900/30 space-y-0.5 text-[10px] text-slate-400">
+                  <div><span className="text-emerald-400">session</span> {formatUsage(sessionUsage)}</div>
+                  {lastTurnUsage && <div><span className="text-emerald-400">last turn</span> {formatUsage(lastTurnUsage)}</div>}
+                  <div><span className={budgetStatus === 'ok' ? 'text-emerald-400' : budgetStatus === 'warn' ? 'text-amber-400' : 'text-red-400'}>today</span> {formatUsage(todayUsage.totals)}{(usageBudget.dailyTokenLimit || usageBudget.dailyAudioMinutesLimit) ? ` · ${Math.round(budgetRatio * 100)}% of budget` : ''}</div>
+              </div>
               <div ref={debugScrollRef} className="flex-1 overflow-y-auto p-2 space-y-1">
                   {logs.map((l, i) => (
                       <div key={i} className="text-slate-300">
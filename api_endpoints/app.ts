@@ -0,0 +1,563 @@
+import express from "express";
+import cors from "cors";
+import axios from "axios";
+import { createHash } from "crypto";
+import { StorageBackend, BadRequestError, settingsChanges } from "./storage";
+import { memorySchema, memoryUpdateSchema, memoryMergeSchema, chatMessageSchema, chatThreadSchema, threadTitleSchema, searchHistoryItemSchema, settingsUpdateSchema, dataArchiveSchema, usageDeltaSchema } from "../utils/contracts";
+import { Schema, FieldError, formatFieldErrors, date, oneOf, withDefault } from "../utils/validation";
+import { archiveFileName } from "../utils/portability";
+import { exportUserData, importUserData } from "./portability";
+import { searchDocs, memoryDoc, chatDoc, searchHistoryDoc, SEARCH_RESULT_LIMIT, MIN_QUERY_LENGTH } from "../utils/search";
+
+// The Express app behind both entry points: index.ts (Firebase Functions) and server.ts (plain Node).
+// Routes only talk to the StorageBackend they are given.
+
+// --- AUTH ---
+// Tokens are checked with Google's tokeninfo endpoint once, then cached in memory (keyed by a hash, never the raw token)
+// until they expire or TOKEN_CACHE_MAX_TTL_MS passes, so revoked tokens stop working within a few minutes.
+// GOOGLE_CLIENT_IDS is a comma-separated allowlist of OAuth client ids whose tokens are accepted.
+const DEFAULT_CLIENT_ID = "210614270256-ppo1vmagl3roimn5duo8ma98ev6fla6d.apps.googleusercontent.com";
+const ALLOWED_CLIENT_IDS = (process.env.GOOGLE_CLIENT_IDS || DEFAULT_CLIENT_ID).split(",").map(id => id.trim()).filter(Boolean);
+const TOKEN_CACHE_MAX_TTL_MS = 5 * 60 * 1000;
+const TOKEN_CACHE_MAX_ENTRIES = 5000;
+
+interface AuthUser {
+  sub: string;
+  email?: string;
+}
+
+// 401 = send a (new) token, 403 = the token is valid but not for this API; `code` is for clients to branch on
+class AuthError extends Error {
+  constructor(public status: 401 | 403 | 503, public code: string, message: string) {
+    super(message);
+  }
+}
+
+const tokenCache = new Map<string, { user: AuthUser; expiresAt: number }>();
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+const cacheToken = (key: string, user: AuthUser, tokenExpiresAt: number) => {
+  // Maps iterate in insertion order, so the first key is the oldest entry
+  if (tokenCache.size >= TOKEN_CACHE_MAX_ENTRIES) tokenCache.delete(tokenCache.keys().next().value);
+  tokenCache.set(key, { user, expiresAt: Math.min(tokenExpiresAt, Date.now() + TOKEN_CACHE_MAX_TTL_MS) });
+};
+
+// ID tokens (JWTs) and OAuth access tokens both go through tokeninfo; it checks signature and expiry for us
+const verifyToken = async (token: string): Promise<{ user: AuthUser; expiresAt: number }> => {
+  const isJwt = token.split(".").length === 3;
+  let info: any;
+  try {
+    const response = await axios.get("https://oauth2.googleapis.com/tokeninfo", {
+      params: isJwt ? { id_token: token } : { access_token: token },
+      timeout: 5000
+    });
+    info = response.data;
+  } catch (error: any) {
+    // tokeninfo answers 400 for unknown, malformed and expired tokens
+    if (error.response?.status === 400) throw new AuthError(401, "invalid_token", "Unauthorized: Invalid or expired token");
+    throw new AuthError(503, "verification_unavailable", "Token verification is temporarily unavailable");
+  }
+
+  const expiresAt = Number(info.exp) * 1000;
+  if (!expiresAt || expiresAt <= Date.now()) throw new AuthError(401, "token_expired", "Unauthorized: Token expired");
+  if (!ALLOWED_CLIENT_IDS.includes(info.aud) && !ALLOWED_CLIENT_IDS.includes(info.azp)) {
+    throw new AuthError(403, "audience_not_allowed", "Forbidden: Token was issued to another application");
+  }
+  // Access tokens only carry the user id when the openid scope was granted
+  if (!info.sub) throw new AuthError(403, "insufficient_scope", "Forbidden: Token is missing the openid scope");
+  return { user: { sub: info.sub, email: info.email }, expiresAt };
+};
+
+const authenticate = async (req: any, res: any, next: any) => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    res.status(401).json({ error: "Unauthorized: No token provided", code: "missing_token" });
+    return;
+  }
+
+  const accessToken = authHeader.split("Bearer ")[1];
+  const key = hashToken(accessToken);
+  const cached = tokenCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    req.user = cached.user;
+    next();
+    return;
+  }
+  tokenCache.delete(key);
+
+  try {
+    const { user, expiresAt } = await verifyToken(accessToken);
+    cacheToken(key, user, expiresAt);
+    req.user = user;
+    next();
+  } catch (error: any) {
+    const authError = error instanceof AuthError ? error : new AuthError(503, "verification_unavailable", "Token verification failed");
+    console.error(`Auth Error (${authError.code}):`, authError.status === 503 ? error : authError.message);
+    res.status(authError.status).json({ error: authError.message, code: authError.code });
+  }
+};
+
+// --- REQUEST HELPERS ---
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// What one GET /search reads at most: searches run as the user types, so they can't scan the whole account
+const SEARCH_MAX_HISTORY = 500;
+const SEARCH_MAX_THREADS = 50;
+const SEARCH_THREAD_BATCH = 10;
+
+class ValidationError extends BadRequestError {
+  constructor(public fields: FieldError[]) {
+    super(`Invalid request: ${formatFieldErrors(fields)}`);
+  }
+}
+
+// Request bodies go through the shared contracts (utils/contracts); invalid ones are rejected with 400
+const validate = <T>(schema: Schema<T>, input: unknown): T => {
+  const result = schema.parse(input);
+  if (!result.ok) throw new ValidationError(result.errors);
+  return result.value;
+};
+
+// Dates -> ISO strings, like everything the web client stores
+export const toDoc = (value: any) => JSON.parse(JSON.stringify(value));
+
+// `limit` and `cursor` query params; see paginate in the storage backends
+const pageRequest = (req: any, fallbackLimit: number = DEFAULT_PAGE_SIZE) => ({
+  limit: Math.min(Math.max(parseInt(req.query.limit, 10) || fallbackLimit, 1), MAX_PAGE_SIZE),
+  cursor: req.query.cursor ? String(req.query.cursor) : null
+});
+
+const sendError = (res: any, label: string, e: any) => {
+  console.error(`${label} Error:`, e);
+  if (e instanceof ValidationError) res.status(400).json({ error: e.message, fields: e.fields });
+  else res.status(e instanceof BadRequestError ? 400 : 500).send(e.message);
+};
+
+const SYNC_OVERLAP_MS = 10 * 1000;
+
+// Archives are far bigger than other request bodies; Cloud Functions caps requests at 32 MB
+const IMPORT_BODY_LIMIT = "25mb";
+
+export const createApp = (storage: StorageBackend) => {
+  const app = express();
+
+  // 1. JSON Body Parser (Critical for POST requests); the import route gets a larger limit, the default parser skips parsed bodies
+  app.use("/import", express.json({ limit: IMPORT_BODY_LIMIT }) as any);
+  app.use(express.json() as any);
+
+  // 2. CORS
+  app.use(cors({ origin: true }) as any);
+
+  // 3. Auth
+  app.use(authenticate);
+
+  // --- MEMORIES ENDPOINTS ---
+
+  app.get("/memories", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      // Newest first
+      res.json(await storage.listMemories(userId, pageRequest(req)));
+    } catch (e: any) {
+      sendError(res, "GET /memories", e);
+    }
+  });
+
+  app.post("/memories", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const memory = toDoc(validate(memorySchema, req.body));
+
+      // applied: false when another device changed (or deleted) the memory more recently
+      const applied = await storage.saveMemory(userId, memory);
+      res.json({ success: true, applied });
+    } catch (e: any) {
+      sendError(res, "POST /memories", e);
+    }
+  });
+
+  app.patch("/memories/:id", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const memoryId = req.params.id;
+      const update = validate(memoryUpdateSchema, req.body || {});
+      const changes: Record<string, any> = {};
+
+      if (update.text !== undefined) {
+        changes.text = update.text.trim();
+        // The stored vector no longer matches; the client re-embeds and saves it
+        changes.embedding = null;
+        changes.embeddingModel = null;
+      }
+      if (update.category !== undefined) changes.category = update.category;
+      if (update.importance !== undefined) changes.importance = update.importance;
+      if (update.expiresAt !== undefined) {
+        changes.expiresAt = update.expiresAt === null ? null : update.expiresAt.toISOString();
+      }
+      if (Object.keys(changes).length === 0) throw new BadRequestError("No updatable fields provided");
+      changes.updatedAt = new Date().toISOString();
+
+      if (!(await storage.updateMemory(userId, memoryId, changes))) {
+        res.status(404).send("Memory not found");
+        return;
+      }
+      res.json({ success: true });
+    } catch (e: any) {
+      sendError(res, "PATCH /memories/:id", e);
+    }
+  });
+
+  app.delete("/memories/:id", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const memoryId = req.params.id;
+      await storage.deleteMemory(userId, memoryId);
+      res.json({ success: true });
+    } catch (e: any) {
+      sendError(res, "DELETE /memories", e);
+    }
+  });
+
+  // --- MEMORY CONSOLIDATION ---
+
+  app.get("/memory_merges", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      res.json(await storage.listMemoryMerges(userId, pageRequest(req, 20)));
+    } catch (e: any) {
+      sendError(res, "GET /memory_merges", e);
+    }
+  });
+
+  app.post("/memory_merges", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const body = req.body || {};
+      const merge = validate(memoryMergeSchema, body.merge);
+      const canonical = validate(memorySchema, body.canonical);
+      if (canonical.id !== merge.canonicalId) throw new BadRequestError("Canonical memory does not match merge record");
+
+      // Canonical memory replaces its cluster; the merge record keeps the originals for undo
+      await storage.commitMerge(userId, toDoc(merge), toDoc(canonical));
+      res.json({ success: true });
+    } catch (e: any) {
+      sendError(res, "POST /memory_merges", e);
+    }
+  });
+
+  app.post("/memory_merges/:id/undo", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const merge = await storage.undoMerge(userId, req.params.id);
+      if (!merge) {
+        res.status(404).send("Merge not found");
+        return;
+      }
+      res.json({ success: true, restored: merge.originals });
+    } catch (e: any) {
+      sendError(res, "POST /memory_merges/undo", e);
+    }
+  });
+
+  // --- SEARCH HISTORY ENDPOINTS ---
+
+  app.get("/search_history", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      res.json(await storage.listSearchHistory(userId, pageRequest(req)));
+    } catch (e: any) {
+      sendError(res, "GET /search_history", e);
+    }
+  });
+
+  app.post("/search_history", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const item = toDoc(validate(searchHistoryItemSchema, req.body));
+
+      console.log(`Saving search item ${item.id} for ${userId}`);
+      const applied = await storage.saveSearchHistoryItem(userId, item);
+      res.json({ success: true, applied });
+    } catch (e: any) {
+      sendError(res, "POST /search_history", e);
+    }
+  });
+
+  app.delete("/search_history/:id", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const itemId = req.params.id;
+      console.log(`Deleting search item ${itemId} for ${userId}`);
+      await storage.deleteSearchHistoryItem(userId, itemId);
+      res.json({ success: true });
+    } catch (e: any) {
+      sendError(res, "DELETE /search_history/:id", e);
+    }
+  });
+
+  app.delete("/search_history", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      await storage.clearSearchHistory(userId);
+      res.json({ success: true });
+    } catch (e: any) {
+      sendError(res, "DELETE /search_history", e);
+    }
+  });
+
+  // --- SETTINGS ENDPOINTS ---
+
+  app.get("/settings", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      res.json(await storage.getSettings(userId));
+    } catch (e: any) {
+      sendError(res, "GET /settings", e);
+    }
+  });
+
+  app.post("/settings", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const { updatedAt: changedAt, ...sections } = validate(settingsUpdateSchema, req.body);
+      const config = toDoc(sections);
+      // When the change was made on the client; older clients don't send it
+      const updatedAt = (changedAt || new Date()).toISOString();
+
+      // Last writer wins per section, so a queued offline change doesn't overwrite a newer one from another device
+      const { changes, sectionUpdatedAt } = settingsChanges(await storage.getSettings(userId), config, updatedAt);
+      // Merge so clients can save one settings section (integrations, input, ...) at a time
+      if (Object.keys(changes).length > 0) await storage.saveSettings(userId, { ...changes, sectionUpdatedAt });
+      res.json({ success: true, applied: Object.keys(changes) });
+    } catch (e: any) {
+      sendError(res, "POST /settings", e);
+    }
+  });
+
+  // --- USAGE ENDPOINTS ---
+
+  app.get("/usage", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      // `days` is the older name for `limit`
+      const days = parseInt(req.query.days, 10) || 30;
+      res.json(await storage.listUsage(userId, pageRequest(req, days)));
+    } catch (e: any) {
+      sendError(res, "GET /usage", e);
+    }
+  });
+
+  app.post("/usage", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const { date, delta } = validate(usageDeltaSchema, req.body);
+      const totals = Object.fromEntries(Object.entries(delta).filter(([, value]) => value > 0));
+      await storage.addUsage(userId, date, totals);
+      res.json({ success: true });
+    } catch (e: any) {
+      sendError(res, "POST /usage", e);
+    }
+  });
+
+  // --- CHAT THREADS ENDPOINTS ---
+
+  app.get("/threads", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      if (!req.query.cursor && storage.migrateLegacyChat) await storage.migrateLegacyChat(userId);
+      // Most recently active first
+      res.json(await storage.listThreads(userId, pageRequest(req)));
+    } catch (e: any) {
+      sendError(res, "GET /threads", e);
+    }
+  });
+
+  app.post("/threads", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const thread = validate(chatThreadSchema, req.body);
+
+      // Counters are maintained by the server as messages arrive
+      await storage.saveThread(userId, toDoc({ ...thread, title: thread.title.trim(), messageCount: 0, preview: "" }));
+      res.json({ success: true });
+    } catch (e: any) {
+      sendError(res, "POST /threads", e);
+    }
+  });
+
+  app.patch("/threads/:id", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const title = validate(threadTitleSchema, (req.body || {}).title).trim();
+
+      const thread = await storage.renameThread(userId, req.params.id, title);
+      if (!thread) {
+        res.status(404).send("Thread not found");
+        return;
+      }
+      res.json(thread);
+    } catch (e: any) {
+      sendError(res, "PATCH /threads", e);
+    }
+  });
+
+  app.delete("/threads/:id", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      await storage.deleteThread(userId, req.params.id);
+      res.json({ success: true });
+    } catch (e: any) {
+      sendError(res, "DELETE /threads", e);
+    }
+  });
+
+  app.get("/threads/:id/messages", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const page = await storage.listThreadMessages(userId, req.params.id, pageRequest(req));
+      // Pages walk backwards in time, but each page reads top to bottom
+      res.json({ ...page, items: page.items.reverse() });
+    } catch (e: any) {
+      sendError(res, "GET /threads/messages", e);
+    }
+  });
+
+  app.post("/threads/:id/messages", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const threadId = req.params.id;
+      const message = toDoc(validate(chatMessageSchema, req.body));
+
+      await storage.appendThreadMessage(userId, threadId, { ...message, threadId });
+      res.json({ success: true });
+    } catch (e: any) {
+      sendError(res, "POST /threads/messages", e);
+    }
+  });
+
+  // --- SEARCH ENDPOINT ---
+
+  // Same matching as the client, over all memories and the most recent search history and threads
+  // (workspace files only live in the browser)
+  app.get("/search", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const q = String(req.query.q || "").trim();
+      if (q.length < MIN_QUERY_LENGTH) {
+        res.json([]);
+        return;
+      }
+      const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || SEARCH_RESULT_LIMIT, 1), SEARCH_RESULT_LIMIT);
+
+      const [memories, searchHistory, threads] = await Promise.all([
+        storage.getAllMemories(userId),
+        storage.listSearchHistory(userId, { limit: SEARCH_MAX_HISTORY }),
+        storage.listThreads(userId, { limit: SEARCH_MAX_THREADS })
+      ]);
+      const docs = [...memories.map(memoryDoc), ...searchHistory.items.map(searchHistoryDoc)];
+
+      // Newest threads first, a batch at a time, until enough messages match
+      let chatMatches = 0;
+      for (let i = 0; i < threads.items.length && chatMatches < limit; i += SEARCH_THREAD_BATCH) {
+        const batch = await Promise.all(threads.items.slice(i, i + SEARCH_THREAD_BATCH).map(async (thread) => {
+          const messages = await storage.getAllThreadMessages(userId, thread.id);
+          return messages.map(m => chatDoc(m, thread.id, thread.title || thread.preview || "Conversation"));
+        }));
+        const chatDocs = batch.flat();
+        chatMatches += searchDocs(chatDocs, q, limit).length;
+        docs.push(...chatDocs);
+      }
+      res.json(searchDocs(docs, q, limit));
+    } catch (e: any) {
+      sendError(res, "GET /search", e);
+    }
+  });
+
+  // --- SYNC ENDPOINT ---
+
+  // Delta sync for memories, search history and settings: everything written after `since`, deletions included.
+  // Without `since` it returns all of it. Clients pass the returned `nextSince` on their next call.
+  app.get("/sync", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const since = req.query.since ? validate(date(), String(req.query.since)).toISOString() : null;
+      // Overlaps the window a little so writes that were in flight during this read are picked up next time
+      const nextSince = new Date(Date.now() - SYNC_OVERLAP_MS).toISOString();
+      const changes = await storage.changesSince(userId, since);
+      res.json({ ...changes, nextSince });
+    } catch (e: any) {
+      sendError(res, "GET /sync", e);
+    }
+  });
+
+  // --- EXPORT / IMPORT ENDPOINTS ---
+
+  app.get("/export", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const archive = await exportUserData(storage, userId);
+      res.setHeader("Content-Disposition", `attachment; filename="${archiveFileName(new Date(archive.exportedAt))}"`);
+      res.json(archive);
+    } catch (e: any) {
+      sendError(res, "GET /export", e);
+    }
+  });
+
+  // ?mode=merge (default) or replace; ?dryRun=true returns the summary without writing anything
+  app.post("/import", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const mode = validate(withDefault(oneOf(["merge", "replace"] as const), "merge"), req.query.mode);
+      const dryRun = req.query.dryRun === "true";
+      const archive = toDoc(validate(dataArchiveSchema, req.body));
+
+      const summary = await importUserData(storage, userId, archive, { mode, dryRun });
+      console.log(`Import (${mode}${dryRun ? ", dry run" : ""}) for ${userId}:`, JSON.stringify(summary));
+      res.json(summary);
+    } catch (e: any) {
+      sendError(res, "POST /import", e);
+    }
+  });
+
+  // --- ACCOUNT ENDPOINT ---
+
+  // Permanent: removes the user document with every subcollection (memories, threads and their messages,
+  // tombstones, settings, usage, notifications). Signed-in devices keep their local copies until they reset.
+  app.delete("/account", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      await storage.deleteUser(userId);
+      console.log(`Deleted account ${userId}`);
+      res.json({ success: true });
+    } catch (e: any) {
+      sendError(res, "DELETE /account", e);
+    }
+  });
+
+  // --- NOTIFICATIONS ENDPOINTS ---
+
+  app.get("/notifications", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      res.json(await storage.listUnreadNotifications(userId, pageRequest(req, 20)));
+    } catch (e: any) {
+      sendError(res, "GET /notifications", e);
+    }
+  });
+
+  app.post("/notifications/:id/read", async (req: any, res: any) => {
+    try {
+      const userId = req.user.sub;
+      const notificationId = req.params.id;
+      await storage.markNotificationRead(userId, notificationId);
+      res.json({ success: true });
+    } catch (e: any) {
+      sendError(res, "POST /notifications/read", e);
+    }
+  });
+
+  return app;
+};
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import * as path from "path";
+import { createFileStorage } from "./fileStorage";
+import { BadRequestError, Doc, StorageBackend, decodeCursor, encodeCursor } from "./storage";
+import { toDoc } from "./app";
+import { memorySchema, syncDeletionSchema } from "../utils/contracts";
+import { applyMergePlans, createMergeRecord, planConsolidation } from "../utils/memoryConsolidation";
+import { mergeSynced } from "../utils/sync";
+import { Schema } from "../utils/validation";
+
+describe("cursors", () => {
+  it("round-trip the order value and id", () => {
+    expect(decodeCursor(encodeCursor("2026-01-02T00:00:00.000Z", "m1"))).toEqual(["2026-01-02T00:00:00.000Z", "m1"]);
+    expect(decodeCursor(encodeCursor(42, "u/1"))).toEqual([42, "u/1"]);
+  });
+
+  it("reject anything that is not a [value, id] pair", () => {
+    expect(() => decodeCursor("not a cursor")).toThrow(BadRequestError);
+    expect(() => decodeCursor(Buffer.from(JSON.stringify(["only value"])).toString("base64url"))).toThrow(BadRequestError);
+    expect(() => decodeCursor(Buffer.from(JSON.stringify([1, 2])).toString("base64url"))).toThrow(BadRequestError);
+  });
+});
+
+describe("file storage", () => {
+  let directory: string;
+  let storage: StorageBackend;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "gem-storage-"));
+    storage = createFileStorage(directory);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const memory = (id: string, timestamp: string) => ({ id, content: id, timestamp });
+
+  it("pages newest first with the id as tie-breaker", async () => {
+    await storage.saveMemory("u1", memory("a", "2026-01-01T00:00:00.000Z"));
+    await storage.saveMemory("u1", memory("b", "2026-01-03T00:00:00.000Z"));
+    await storage.saveMemory("u1", memory("c", "2026-01-02T00:00:00.000Z"));
+    await storage.saveMemory("u1", memory("d", "2026-01-02T00:00:00.000Z"));
+
+    const first = await storage.listMemories("u1", { limit: 2 });
+    expect(first.items.map(m => m.id)).toEqual(["b", "d"]);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await storage.listMemories("u1", { limit: 2, cursor: first.nextCursor });
+    expect(second.items.map(m => m.id)).toEqual(["c", "a"]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("rejects invalid cursors", async () => {
+    await expect(storage.listMemories("u1", { limit: 2, cursor: "garbage" })).rejects.toThrow(BadRequestError);
+  });
+
+  it("keeps the newer version of a memory", async () => {
+    expect(await storage.saveMemory("u1", { ...memory("a", "2026-01-01T00:00:00.000Z"), updatedAt: "2026-01-05T00:00:00.000Z" })).toBe(true);
+    expect(await storage.saveMemory("u1", { ...memory("a", "2026-01-01T00:00:00.000Z"), content: "stale", updatedAt: "2026-01-04T00:00:00.000Z" })).toBe(false);
+    const [stored] = await storage.getAllMemories("u1");
+    expect(stored.content).toBe("a");
+  });
+
+  it("does not resurrect deleted memories with older writes", async () => {
+    await storage.saveMemory("u1", memory("a", "2026-01-01T00:00:00.000Z"));
+    await storage.deleteMemory("u1", "a");
+    expect(await storage.saveMemory("u1", memory("a", "2026-01-01T00:00:00.000Z"))).toBe(false);
+
+    const changes = await storage.changesSince("u1", null);
+    expect(changes.memories).toEqual([]);
+    expect(changes.deleted.map(t => t.id)).toEqual(["a"]);
+  });
+
+  it("persists to disk for a fresh instance", async () => {
+    await storage.saveMemory("u1", memory("a", "2026-01-01T00:00:00.000Z"));
+    const reopened = createFileStorage(directory);
+    expect((await reopened.getAllMemories("u1")).map(m => m.id)).toEqual(["a"]);
+    expect(await reopened.listUserIds()).toEqual(["u1"]);
+  });
+
+  it("brings undone merges back on other devices", async () => {
+    // Clients read docs the way GET /sync responses are parsed
+    const parse = <T,>(schema: Schema<T>, docs: Doc[]) => docs.map(doc => {
+      const result = schema.parse(JSON.parse(JSON.stringify(doc)));
+      if (!result.ok) throw new Error(JSON.stringify(result.errors));
+      return result.value;
+    });
+    const pull = async (since: string | null, local: any[]) => {
+      const changes = await storage.changesSince("u1", since);
+      return mergeSynced(local, parse(memorySchema, changes.memories), parse(syncDeletionSchema, changes.deleted));
+    };
+    vi.useFakeTimers({ toFake: ["Date"], now: new Date("2026-01-10T00:00:00.000Z") });
+    const originals = [
+      { id: "a", text: "Likes jazz music a lot", category: "preference", importance: 4, source: "voice", timestamp: "2026-01-01T00:00:00.000Z" },
+      { id: "b", text: "Likes jazz music a lot!", category: "preference", importance: 2, source: "voice", timestamp: "2026-01-02T00:00:00.000Z" }
+    ];
+    for (const original of originals) await storage.saveMemory("u1", original);
+    let otherDevice = await pull(null, []);
+
+    // Merged on the first device, then pulled by the other one
+    vi.setSystemTime(new Date("2026-01-11T00:00:00.000Z"));
+    const [plan] = planConsolidation(parse(memorySchema, originals));
+    await storage.commitMerge("u1", toDoc(createMergeRecord(plan, "manual")), toDoc(plan.canonical));
+    const mergedSince = new Date().toISOString();
+    otherDevice = await pull("2026-01-10T00:00:00.000Z", otherDevice);
+    expect(otherDevice).toEqual(applyMergePlans(parse(memorySchema, originals), [plan]));
+
+    vi.setSystemTime(new Date("2026-01-12T00:00:00.000Z"));
+    const merges = (await storage.listMemoryMerges("u1", { limit: 10 })).items;
+    await storage.undoMerge("u1", merges[0].id);
+    otherDevice = await pull(mergedSince, otherDevice);
+    expect(otherDevice.map(m => [m.id, m.text, m.importance]).sort()).toEqual([["a", "Likes jazz music a lot", 4], ["b", "Likes jazz music a lot!", 2]]);
+  });
+});
@@ -0,0 +1,226 @@
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "fs/promises";
+import * as path from "path";
+import { StorageBackend, PageRequest, Page, Doc, SyncedCollection, Tombstone, encodeCursor, decodeCursor, acceptsWrite, restoredOriginals, threadWithMessage, tombstoneId } from "./storage";
+
+// One JSON file per user, kept in memory once read. Meant for local development and small self-hosted
+// deployments: a single server process owns the directory (there is no cross-process locking).
+interface UserData {
+  memories: Record<string, Doc>;
+  memory_merges: Record<string, Doc>;
+  search_history: Record<string, Doc>;
+  settings: Doc;
+  usage: Record<string, Doc>;
+  threads: Record<string, Doc>;
+  messages: Record<string, Record<string, Doc>>; // By thread id
+  notifications: Record<string, Doc>;
+  deletions: Record<string, Doc>; // Tombstones of synced docs, by tombstoneId
+}
+
+const emptyUserData = (): UserData => ({
+  memories: {},
+  memory_merges: {},
+  search_history: {},
+  settings: {},
+  usage: {},
+  threads: {},
+  messages: {},
+  notifications: {},
+  deletions: {}
+});
+
+const compare = (a: any, b: any) => a < b ? -1 : a > b ? 1 : 0;
+
+// Synced docs carry the server time of their last write (syncedAt) so GET /sync can ask for everything newer
+const saveSynced = (data: UserData, collection: SyncedCollection, doc: Doc) => {
+  const id = String(doc.id);
+  const key = tombstoneId(collection, id);
+  if (!acceptsWrite(doc, data[collection][id], data.deletions[key])) return false;
+  data[collection][id] = { ...doc, syncedAt: new Date().toISOString() };
+  delete data.deletions[key];
+  return true;
+};
+
+const deleteSynced = (data: UserData, collection: SyncedCollection, id: string) => {
+  const deletedAt = new Date().toISOString();
+  delete data[collection][id];
+  data.deletions[tombstoneId(collection, id)] = { collection, id, deletedAt, syncedAt: deletedAt };
+};
+
+const changedSince = (docs: Record<string, Doc>, time: string | null) =>
+  Object.values(docs).filter(doc => !time || (doc.syncedAt && doc.syncedAt > time));
+
+// Same ordering and cursors as the Firestore backend: field descending, then id descending
+const paginate = (docs: Record<string, Doc>, orderField: string, page: PageRequest, filter?: (doc: Doc) => boolean): Page => {
+  let entries = Object.entries(docs)
+    .filter(([, doc]) => !filter || filter(doc))
+    .sort(([aId, a], [bId, b]) => compare(b[orderField], a[orderField]) || compare(bId, aId));
+  if (page.cursor) {
+    const [value, id] = decodeCursor(page.cursor);
+    entries = entries.filter(([docId, doc]) => compare(doc[orderField], value) < 0 || (doc[orderField] === value && docId < id));
+  }
+  const slice = entries.slice(0, page.limit);
+  const last = slice[slice.length - 1];
+  return {
+    items: slice.map(([, doc]) => doc),
+    nextCursor: entries.length > page.limit && last ? encodeCursor(last[1][orderField], last[0]) : null
+  };
+};
+
+export const createFileStorage = (directory: string): StorageBackend => {
+  const cache = new Map<string, Promise<UserData>>();
+  const writes = new Map<string, Promise<void>>();
+  const ready = mkdir(directory, { recursive: true });
+
+  const fileFor = (userId: string) => path.join(directory, `${encodeURIComponent(userId)}.json`);
+
+  const load = (userId: string): Promise<UserData> => {
+    let data = cache.get(userId);
+    if (!data) {
+      data = ready
+        .then(() => readFile(fileFor(userId), "utf8"))
+        .then(text => ({ ...emptyUserData(), ...JSON.parse(text) }))
+        .catch((e: any) => {
+          if (e.code === "ENOENT") return emptyUserData();
+          cache.delete(userId);
+          throw e;
+        });
+      cache.set(userId, data);
+    }
+    return data;
+  };
+
+  // Mutations run synchronously on the in-memory copy, then writes to the user's file are queued in order.
+  // Each write goes to a temp file first so a crash never leaves half a file behind.
+  const update = async <T,>(userId: string, mutate: (data: UserData) => T): Promise<T> => {
+    const data = await load(userId);
+    const result = mutate(data);
+    const file = fileFor(userId);
+    const write = (writes.get(userId) || Promise.resolve()).then(async () => {
+      await writeFile(`${file}.tmp`, JSON.stringify(data));
+      await rename(`${file}.tmp`, file);
+    });
+    writes.set(userId, write.catch(() => {}));
+    await write;
+    return result;
+  };
+
+  const read = async <T,>(userId: string, select: (data: UserData) => T): Promise<T> => select(await load(userId));
+
+  return {
+    listMemories: (userId, page) => read(userId, data => paginate(data.memories, "timestamp", page)),
+    getAllMemories: (userId) => read(userId, data => Object.values(data.memories)),
+    saveMemory: (userId, memory) => update(userId, data => saveSynced(data, "memories", memory)),
+    updateMemory: (userId, id, changes) => update(userId, data => {
+      const memory = data.memories[id];
+      if (!memory) return false;
+      for (const [key, value] of Object.entries(changes)) {
+        if (value === null) delete memory[key];
+        else memory[key] = value;
+      }
+      memory.syncedAt = new Date().toISOString();
+      return true;
+    }),
+    deleteMemory: (userId, id) => update(userId, data => deleteSynced(data, "memories", id)),
+
+    listMemoryMerges: (userId, page) => read(userId, data => paginate(data.memory_merges, "mergedAt", page)),
+    commitMerge: (userId, merge, canonical) => update(userId, data => {
+      for (const original of merge.originals) {
+        if (original.id !== canonical.id) deleteSynced(data, "memories", original.id);
+      }
+      data.memories[canonical.id] = { ...canonical, syncedAt: new Date().toISOString() };
+      data.memory_merges[merge.id] = merge;
+    }),
+    undoMerge: (userId, mergeId) => update(userId, data => {
+      const merge = data.memory_merges[mergeId];
+      if (!merge) return null;
+      // Originals include the canonical's own pre-merge version
+      delete data.memories[merge.canonicalId];
+      const originals = restoredOriginals(merge, new Date().toISOString());
+      for (const original of originals) {
+        data.memories[original.id] = original;
+        delete data.deletions[tombstoneId("memories", original.id)];
+      }
+      delete data.memory_merges[mergeId];
+      return { ...merge, originals };
+    }),
+
+    listSearchHistory: (userId, page) => read(userId, data => paginate(data.search_history, "timestamp", page)),
+    getAllSearchHistory: (userId) => read(userId, data => Object.values(data.search_history)),
+    saveSearchHistoryItem: (userId, item) => update(userId, data => saveSynced(data, "search_history", item)),
+    deleteSearchHistoryItem: (userId, id) => update(userId, data => deleteSynced(data, "search_history", id)),
+    clearSearchHistory: (userId) => update(userId, data => {
+      Object.keys(data.search_history).forEach(id => deleteSynced(data, "search_history", id));
+    }),
+
+    getSettings: (userId) => read(userId, data => data.settings),
+    saveSettings: (userId, settings) => update(userId, data => { data.settings = { ...data.settings, ...settings, syncedAt: new Date().toISOString() }; }),
+
+    listUsage: (userId, page) => read(userId, data => paginate(data.usage, "date", page)),
+    addUsage: (userId, date, delta) => update(userId, data => {
+      const day = data.usage[date] || { date, totals: {} };
+      for (const [field, value] of Object.entries(delta)) day.totals[field] = (day.totals[field] || 0) + value;
+      data.usage[date] = day;
+    }),
+
+    listThreads: (userId, page) => read(userId, data => paginate(data.threads, "updatedAt", page)),
+    getAllThreads: (userId) => read(userId, data => Object.values(data.threads)),
+    saveThread: (userId, thread) => update(userId, data => { data.threads[thread.id] = thread; }),
+    renameThread: (userId, id, title) => update(userId, data => {
+      const thread = data.threads[id];
+      if (!thread) return null;
+      thread.title = title;
+      return thread;
+    }),
+    deleteThread: (userId, id) => update(userId, data => {
+      delete data.threads[id];
+      delete data.messages[id];
+    }),
+    listThreadMessages: (userId, threadId, page) => read(userId, data => paginate(data.messages[threadId] || {}, "timestamp", page)),
+    getAllThreadMessages: (userId, threadId) => read(userId, data => Object.values(data.messages[threadId] || {})),
+    appendThreadMessage: (userId, threadId, message) => update(userId, data => {
+      // Retried sends (e.g. from a client outbox) must not count the message twice
+      if (data.messages[threadId]?.[message.id]) return;
+      data.threads[threadId] = threadWithMessage(threadId, data.threads[threadId], message);
+      data.messages[threadId] = { ...data.messages[threadId], [message.id]: message };
+    }),
+    importThread: (userId, thread, messages) => update(userId, data => {
+      data.threads[thread.id] = thread;
+      const stored = { ...data.messages[thread.id] };
+      for (const message of messages) stored[message.id] = { ...message, threadId: thread.id };
+      data.messages[thread.id] = stored;
+    }),
+    pruneThreadMessages: (userId, thread, messageIds) => update(userId, data => {
+      data.threads[thread.id] = thread;
+      for (const id of messageIds) delete data.messages[thread.id]?.[id];
+    }),
+
+    listUnreadNotifications: (userId, page) => read(userId, data => paginate(data.notifications, "timestamp", page, n => n.read === false)),
+    markNotificationRead: (userId, id) => update(userId, data => {
+      if (data.notifications[id]) data.notifications[id].read = true;
+    }),
+    getAllNotifications: (userId) => read(userId, data => Object.values(data.notifications)),
+    saveNotification: (userId, notification) => update(userId, data => { data.notifications[notification.id] = notification; }),
+    deleteNotification: (userId, id) => update(userId, data => { delete data.notifications[id]; }),
+
+    changesSince: (userId, time) => read(userId, data => ({
+      memories: changedSince(data.memories, time),
+      searchHistory: changedSince(data.search_history, time),
+      settings: !time || (data.settings.syncedAt && data.settings.syncedAt > time) ? data.settings : null,
+      deleted: changedSince(data.deletions, time) as Tombstone[]
+    })),
+
+    deleteUser: async (userId) => {
+      // Queued writes would bring the file back
+      await writes.get(userId);
+      cache.delete(userId);
+      writes.delete(userId);
+      await rm(fileFor(userId), { force: true });
+    },
+
+    listUserIds: async () => {
+      await ready;
+      const files = await readdir(directory);
+      return files.filter(f => f.endsWith(".json")).map(f => decodeURIComponent(f.slice(0, -".json".length)));
+    }
+  };
+};
@@ -0,0 +1,240 @@
+import * as admin from "firebase-admin";
+import { StorageBackend, PageRequest, Doc, SyncedCollection, Tombstone, encodeCursor, decodeCursor, acceptsWrite, restoredOriginals, threadWithMessage, tombstoneId } from "./storage";
+
+// Data lives under users/{uid}/... in a named Firestore database.
+// Composite indexes for filtered lists are declared in firestore.indexes.json.
+export const createFirestoreStorage = (databaseId: string): StorageBackend => {
+  if (admin.apps.length === 0) admin.initializeApp();
+  const db = admin.firestore();
+  // IMPORTANT: Ensure the database (default 'companion') exists in your Firestore console!
+  db.settings({ databaseId });
+
+  const paginate = async (query: admin.firestore.Query, orderField: string, page: PageRequest) => {
+    let ordered = query.orderBy(orderField, "desc").orderBy(admin.firestore.FieldPath.documentId(), "desc");
+    if (page.cursor) ordered = ordered.startAfter(...decodeCursor(page.cursor));
+    const snapshot = await ordered.limit(page.limit + 1).get();
+    const docs = snapshot.docs.slice(0, page.limit);
+    const last = docs[docs.length - 1];
+    return {
+      items: docs.map(doc => doc.data()),
+      nextCursor: snapshot.docs.length > page.limit && last ? encodeCursor(last.get(orderField), last.id) : null
+    };
+  };
+
+  const all = async (path: string) => (await db.collection(path).get()).docs.map(doc => doc.data());
+
+  // Firestore can't store null-as-delete, so the interface's null maps to FieldValue.delete()
+  const toUpdate = (changes: Doc) => {
+    const update: Doc = {};
+    for (const [key, value] of Object.entries(changes)) update[key] = value === null ? admin.firestore.FieldValue.delete() : value;
+    return update;
+  };
+
+  // Synced docs carry the server time of their last write (syncedAt) so GET /sync can ask for everything newer
+  const tombstoneRef = (userId: string, collection: SyncedCollection, id: string) =>
+    db.doc(`users/${userId}/deletions/${tombstoneId(collection, id)}`);
+
+  const saveSynced = (userId: string, collection: SyncedCollection, doc: Doc) => {
+    const ref = db.doc(`users/${userId}/${collection}/${doc.id}`);
+    const tombstone = tombstoneRef(userId, collection, String(doc.id));
+    return db.runTransaction(async (tx) => {
+      const [stored, deleted] = await Promise.all([tx.get(ref), tx.get(tombstone)]);
+      if (!acceptsWrite(doc, stored.data(), deleted.data())) return false;
+      tx.set(ref, { ...doc, syncedAt: new Date().toISOString() });
+      if (deleted.exists) tx.delete(tombstone);
+      return true;
+    });
+  };
+
+  // Works with a WriteBatch or a BulkWriter
+  type Writer = {
+    delete: (ref: admin.firestore.DocumentReference) => unknown;
+    set: (ref: admin.firestore.DocumentReference, data: Doc) => unknown;
+  };
+
+  const deleteSynced = (writer: Writer, userId: string, collection: SyncedCollection, id: string) => {
+    const deletedAt = new Date().toISOString();
+    writer.delete(db.doc(`users/${userId}/${collection}/${id}`));
+    writer.set(tombstoneRef(userId, collection, id), { collection, id, deletedAt, syncedAt: deletedAt });
+  };
+
+  const since = (path: string, time: string | null) =>
+    (time ? db.collection(path).where("syncedAt", ">", time) : db.collection(path)).get().then(snapshot => snapshot.docs.map(doc => doc.data()));
+
+  return {
+    listMemories: (userId, page) => paginate(db.collection(`users/${userId}/memories`), "timestamp", page),
+    getAllMemories: (userId) => all(`users/${userId}/memories`),
+    saveMemory: (userId, memory) => saveSynced(userId, "memories", memory),
+    updateMemory: async (userId, id, changes) => {
+      const ref = db.doc(`users/${userId}/memories/${id}`);
+      const doc = await ref.get();
+      if (!doc.exists) return false;
+      await ref.update(toUpdate({ ...changes, syncedAt: new Date().toISOString() }));
+      return true;
+    },
+    deleteMemory: async (userId, id) => {
+      const batch = db.batch();
+      deleteSynced(batch, userId, "memories", id);
+      await batch.commit();
+    },
+
+    listMemoryMerges: (userId, page) => paginate(db.collection(`users/${userId}/memory_merges`), "mergedAt", page),
+    commitMerge: async (userId, merge, canonical) => {
+      const batch = db.batch();
+      for (const original of merge.originals) {
+        if (original.id !== canonical.id) deleteSynced(batch, userId, "memories", original.id);
+      }
+      batch.set(db.doc(`users/${userId}/memories/${canonical.id}`), { ...canonical, syncedAt: new Date().toISOString() });
+      batch.set(db.doc(`users/${userId}/memory_merges/${merge.id}`), merge);
+      await batch.commit();
+    },
+    undoMerge: async (userId, mergeId) => {
+      const mergeRef = db.doc(`users/${userId}/memory_merges/${mergeId}`);
+      const doc = await mergeRef.get();
+      if (!doc.exists) return null;
+      const merge: any = doc.data();
+      const batch = db.batch();
+      batch.delete(db.doc(`users/${userId}/memories/${merge.canonicalId}`));
+      // Originals include the canonical's own pre-merge version, which overwrites the delete above
+      const originals = restoredOriginals(merge, new Date().toISOString());
+      for (const original of originals) {
+        batch.set(db.doc(`users/${userId}/memories/${original.id}`), original);
+        batch.delete(tombstoneRef(userId, "memories", original.id));
+      }
+      batch.delete(mergeRef);
+      await batch.commit();
+      return { ...merge, originals };
+    },
+
+    listSearchHistory: (userId, page) => paginate(db.collection(`users/${userId}/search_history`), "timestamp", page),
+    getAllSearchHistory: (userId) => all(`users/${userId}/search_history`),
+    saveSearchHistoryItem: (userId, item) => saveSynced(userId, "search_history", item),
+    deleteSearchHistoryItem: async (userId, id) => {
+      const batch = db.batch();
+      deleteSynced(batch, userId, "search_history", id);
+      await batch.commit();
+    },
+    clearSearchHistory: async (userId) => {
+      const writer = db.bulkWriter();
+      const snapshot = await db.collection(`users/${userId}/search_history`).get();
+      snapshot.docs.forEach((doc) => deleteSynced(writer, userId, "search_history", doc.id));
+      await writer.close();
+    },
+
+    getSettings: async (userId) => {
+      const doc = await db.doc(`users/${userId}/settings/config`).get();
+      return doc.exists ? doc.data() : {};
+    },
+    saveSettings: async (userId, settings) => {
+      await db.doc(`users/${userId}/settings/config`).set({ ...settings, syncedAt: new Date().toISOString() }, { merge: true });
+    },
+
+    // Doc ids are YYYY-MM-DD, so string order is date order
+    listUsage: (userId, page) => paginate(db.collection(`users/${userId}/usage`), "date", page),
+    addUsage: async (userId, date, delta) => {
+      const totals: Record<string, any> = {};
+      for (const [field, value] of Object.entries(delta)) totals[field] = admin.firestore.FieldValue.increment(value);
+      await db.doc(`users/${userId}/usage/${date}`).set({ date, totals }, { merge: true });
+    },
+
+    listThreads: (userId, page) => paginate(db.collection(`users/${userId}/threads`), "updatedAt", page),
+    getAllThreads: (userId) => all(`users/${userId}/threads`),
+    saveThread: async (userId, thread) => {
+      await db.doc(`users/${userId}/threads/${thread.id}`).set(thread);
+    },
+    renameThread: async (userId, id, title) => {
+      const ref = db.doc(`users/${userId}/threads/${id}`);
+      const doc = await ref.get();
+      if (!doc.exists) return null;
+      await ref.update({ title });
+      return { ...doc.data(), title };
+    },
+    deleteThread: async (userId, id) => {
+      // Removes the thread doc together with its messages subcollection
+      await db.recursiveDelete(db.doc(`users/${userId}/threads/${id}`));
+    },
+    listThreadMessages: (userId, threadId, page) => paginate(db.collection(`users/${userId}/threads/${threadId}/messages`), "timestamp", page),
+    getAllThreadMessages: (userId, threadId) => all(`users/${userId}/threads/${threadId}/messages`),
+    appendThreadMessage: async (userId, threadId, message) => {
+      const threadRef = db.doc(`users/${userId}/threads/${threadId}`);
+      const messageRef = threadRef.collection("messages").doc(message.id);
+      await db.runTransaction(async (tx) => {
+        const [thread, existing] = await Promise.all([tx.get(threadRef), tx.get(messageRef)]);
+        // Retried sends (e.g. from a client outbox) must not count the message twice
+        if (existing.exists) return;
+        tx.set(threadRef, threadWithMessage(threadId, thread.data(), message));
+        tx.set(messageRef, message);
+      });
+    },
+    importThread: async (userId, thread, messages) => {
+      const writer = db.bulkWriter();
+      writer.set(db.doc(`users/${userId}/threads/${thread.id}`), thread);
+      messages.forEach(m => writer.set(db.doc(`users/${userId}/threads/${thread.id}/messages/${m.id}`), { ...m, threadId: thread.id }));
+      await writer.close();
+    },
+    pruneThreadMessages: async (userId, thread, messageIds) => {
+      const writer = db.bulkWriter();
+      messageIds.forEach(id => writer.delete(db.doc(`users/${userId}/threads/${thread.id}/messages/${id}`)));
+      writer.set(db.doc(`users/${userId}/threads/${thread.id}`), thread);
+      await writer.close();
+    },
+    // The flat chat_history collection predates threads; fold it into one thread the first time threads are listed
+    migrateLegacyChat: async (userId) => {
+      const legacy = await db.collection(`users/${userId}/chat_history`).get();
+      if (legacy.empty) return;
+      const messages = legacy.docs.map(doc => doc.data());
+      messages.sort((a: any, b: any) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+      const firstUser = messages.find((m: any) => m.role === "user");
+      const threadId = `legacy-${Date.now()}`;
+      const thread = {
+        id: threadId,
+        title: "Earlier conversations",
+        createdAt: messages[0].timestamp,
+        updatedAt: messages[messages.length - 1].timestamp,
+        messageCount: messages.length,
+        preview: firstUser ? firstUser.text.slice(0, 120) : ""
+      };
+      const writer = db.bulkWriter();
+      writer.set(db.doc(`users/${userId}/threads/${threadId}`), thread);
+      messages.forEach((m: any) => writer.set(db.doc(`users/${userId}/threads/${threadId}/messages/${m.id}`), { ...m, threadId }));
+      legacy.docs.forEach(doc => writer.delete(doc.ref));
+      await writer.close();
+    },
+
+    // Needs the (read, timestamp) composite index from firestore.indexes.json
+    listUnreadNotifications: (userId, page) => paginate(db.collection(`users/${userId}/notifications`).where("read", "==", false), "timestamp", page),
+    markNotificationRead: async (userId, id) => {
+      await db.doc(`users/${userId}/notifications/${id}`).update({ read: true });
+    },
+    getAllNotifications: (userId) => all(`users/${userId}/notifications`),
+    saveNotification: async (userId, notification) => {
+      await db.doc(`users/${userId}/notifications/${notification.id}`).set(notification);
+    },
+    deleteNotification: async (userId, id) => {
+      await db.doc(`users/${userId}/notifications/${id}`).delete();
+    },
+
+    changesSince: async (userId, time) => {
+      const [memories, searchHistory, deleted, settings] = await Promise.all([
+        since(`users/${userId}/memories`, time),
+        since(`users/${userId}/search_history`, time),
+        since(`users/${userId}/deletions`, time),
+        db.doc(`users/${userId}/settings/config`).get()
+      ]);
+      const settingsData = settings.data();
+      return {
+        memories,
+        searchHistory,
+        settings: settingsData && (!time || (settingsData.syncedAt && settingsData.syncedAt > time)) ? settingsData : null,
+        deleted: deleted as Tombstone[]
+      };
+    },
+
+    // The user doc itself may not exist; recursiveDelete still removes every subcollection under it
+    deleteUser: async (userId) => {
+      await db.recursiveDelete(db.doc(`users/${userId}`));
+    },
+
+    listUserIds: async () => (await db.collection("users").listDocuments()).map(doc => doc.id)
+  };
+};
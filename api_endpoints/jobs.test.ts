@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import * as path from "path";
+import { createFileStorage } from "./fileStorage";
+import { enforceRetention } from "./jobs";
+import { StorageBackend } from "./storage";
+
+describe("enforceRetention", () => {
+  const now = Date.parse("2026-03-31T00:00:00.000Z");
+  let directory: string;
+  let storage: StorageBackend;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    directory = await mkdtemp(path.join(tmpdir(), "gem-jobs-"));
+    storage = createFileStorage(directory);
+    await storage.saveSettings("u1", { retention: { chatDays: 30, memoriesDays: 30 } });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const message = (id: string, role: string, timestamp: string) => ({ id, role, text: id, timestamp });
+
+  it("prunes old messages from threads still in use", async () => {
+    await storage.appendThreadMessage("u1", "t1", message("old", "user", "2026-01-01T00:00:00.000Z"));
+    await storage.appendThreadMessage("u1", "t1", message("reply", "model", "2026-03-20T00:00:00.000Z"));
+    await storage.appendThreadMessage("u1", "t1", message("new", "user", "2026-03-21T00:00:00.000Z"));
+    await storage.appendThreadMessage("u1", "t2", message("stale", "user", "2026-01-01T00:00:00.000Z"));
+
+    await enforceRetention(storage, now);
+
+    const threads = await storage.getAllThreads("u1");
+    expect(threads).toHaveLength(1);
+    expect(threads[0]).toMatchObject({ id: "t1", createdAt: "2026-03-20T00:00:00.000Z", messageCount: 2, preview: "new" });
+    expect((await storage.getAllThreadMessages("u1", "t1")).map(m => m.id).sort()).toEqual(["new", "reply"]);
+    expect(await storage.getAllThreadMessages("u1", "t2")).toEqual([]);
+  });
+
+  it("deletes memories by their last change and leaves tombstones", async () => {
+    await storage.saveMemory("u1", { id: "edited", timestamp: "2026-01-01T00:00:00.000Z", updatedAt: "2026-03-15T00:00:00.000Z" });
+    await storage.saveMemory("u1", { id: "expired", timestamp: "2026-01-01T00:00:00.000Z" });
+
+    await enforceRetention(storage, now);
+
+    const changes = await storage.changesSince("u1", null);
+    expect(changes.memories.map(m => m.id)).toEqual(["edited"]);
+    expect(changes.deleted.map(t => t.id)).toEqual(["expired"]);
+  });
+
+  it("keeps everything without a policy", async () => {
+    await storage.saveSettings("u1", { retention: null });
+    await storage.saveMemory("u1", { id: "expired", timestamp: "2026-01-01T00:00:00.000Z" });
+    await enforceRetention(storage, now);
+    expect(await storage.getAllMemories("u1")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,84 @@
+import { StorageBackend, Doc, recordVersion, threadPreview } from "./storage";
+import { toDoc } from "./app";
+import { planConsolidation, createMergeRecord } from "../utils/memoryConsolidation";
+import { sanitizeRetention, retentionCutoff } from "../utils/retention";
+
+// Nightly dedup for every user, same algorithm the client runs on demand
+export const consolidateAllMemories = async (storage: StorageBackend) => {
+  const userIds = await storage.listUserIds();
+  for (const userId of userIds) {
+    try {
+      // Docs from older clients have no category/importance
+      const memories: any[] = (await storage.getAllMemories(userId)).map(doc => ({ category: "fact", importance: 3, ...doc }));
+      const plans = planConsolidation(memories);
+      for (const plan of plans) {
+        await storage.commitMerge(userId, toDoc(createMergeRecord(plan, "scheduled")), toDoc(plan.canonical));
+      }
+      if (plans.length > 0) console.log(`Consolidated ${plans.length} memory clusters for ${userId}`);
+    } catch (e) {
+      console.error(`Memory consolidation failed for ${userId}:`, e);
+    }
+  }
+};
+
+const byTimestamp = (a: Doc, b: Doc) => String(a.timestamp).localeCompare(String(b.timestamp));
+
+// Chat retention goes by message: older messages are pruned from threads that are still in use,
+// and a thread goes away once none of its messages are left
+const pruneChats = async (storage: StorageBackend, userId: string, cutoff: string) => {
+  let threads = 0;
+  let messages = 0;
+  for (const thread of await storage.getAllThreads(userId)) {
+    // Every message is at or after createdAt, every one at or before updatedAt
+    if (thread.createdAt && String(thread.createdAt) >= cutoff) continue;
+    const stored = thread.updatedAt && String(thread.updatedAt) < cutoff ? [] : (await storage.getAllThreadMessages(userId, thread.id)).sort(byTimestamp);
+    const kept = stored.filter(m => String(m.timestamp) >= cutoff);
+    if (kept.length === 0) {
+      await storage.deleteThread(userId, thread.id);
+      threads++;
+      messages += thread.messageCount || stored.length;
+      continue;
+    }
+    if (kept.length === stored.length) continue;
+    const firstUser = kept.find(m => m.role === "user");
+    // createdAt moves up to the oldest message left, so the next run can skip the thread until that one expires
+    await storage.pruneThreadMessages(userId, {
+      ...thread,
+      createdAt: kept[0].timestamp,
+      messageCount: kept.length,
+      preview: firstUser ? threadPreview(firstUser) : ""
+    }, stored.filter(m => String(m.timestamp) < cutoff).map(m => String(m.id)));
+    messages += stored.length - kept.length;
+  }
+  return { threads, messages };
+};
+
+// Deletes what is past each user's retention windows (settings.retention). Memories and search history leave
+// tombstones, so the deletions reach every device on its next sync.
+export const enforceRetention = async (storage: StorageBackend, now: number = Date.now()) => {
+  const userIds = await storage.listUserIds();
+  for (const userId of userIds) {
+    try {
+      const policy = sanitizeRetention((await storage.getSettings(userId)).retention);
+      // ISO timestamps compare in time order
+      const expired = async (days: number | null, load: () => Promise<Doc[]>, changedAt: (doc: Doc) => string) => {
+        if (days === null) return [];
+        const cutoff = retentionCutoff(days, now).toISOString();
+        return (await load()).filter(doc => changedAt(doc) < cutoff).map(doc => String(doc.id));
+      };
+
+      const chats = policy.chatDays === null ? { threads: 0, messages: 0 } : await pruneChats(storage, userId, retentionCutoff(policy.chatDays, now).toISOString());
+      const searches = await expired(policy.searchHistoryDays, () => storage.getAllSearchHistory(userId), h => String(h.timestamp));
+      for (const id of searches) await storage.deleteSearchHistoryItem(userId, id);
+      const memories = await expired(policy.memoriesDays, () => storage.getAllMemories(userId), recordVersion);
+      for (const id of memories) await storage.deleteMemory(userId, id);
+      const notifications = await expired(policy.notificationsDays, () => storage.getAllNotifications(userId), n => String(n.timestamp));
+      for (const id of notifications) await storage.deleteNotification(userId, id);
+
+      const total = chats.messages + chats.threads + searches.length + memories.length + notifications.length;
+      if (total > 0) console.log(`Retention removed ${chats.messages} messages (${chats.threads} threads), ${searches.length} searches, ${memories.length} memories, ${notifications.length} notifications for ${userId}`);
+    } catch (e) {
+      console.error(`Retention failed for ${userId}:`, e);
+    }
+  }
+};
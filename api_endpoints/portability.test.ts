@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import * as path from "path";
+import { createFileStorage } from "./fileStorage";
+import { exportUserData, importUserData } from "./portability";
+import { StorageBackend } from "./storage";
+
+describe("import", () => {
+  let directory: string;
+  let storage: StorageBackend;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "gem-portability-"));
+    storage = createFileStorage(directory);
+    await storage.saveMemory("u1", { id: "a", text: "old", timestamp: "2026-01-01T00:00:00.000Z" });
+    await storage.appendThreadMessage("u1", "t1", { id: "m1", role: "user", text: "hi", timestamp: "2026-01-01T00:00:00.000Z" });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const archiveWith = async (change: (archive: any) => void) => {
+    const archive: any = await exportUserData(storage, "u1");
+    change(archive);
+    return JSON.parse(JSON.stringify(archive));
+  };
+
+  it("merges newer records and new messages without losing stored ones", async () => {
+    const archive = await archiveWith(a => {
+      a.memories = [{ ...a.memories[0], text: "new", updatedAt: "2026-01-02T00:00:00.000Z" }, { id: "b", text: "b", timestamp: "2026-01-02T00:00:00.000Z" }];
+      a.threads[0].messages.push({ id: "m2", role: "model", text: "hello", timestamp: "2026-01-02T00:00:00.000Z" });
+    });
+    await storage.saveMemory("u1", { id: "c", text: "c", timestamp: "2026-01-03T00:00:00.000Z" });
+
+    const summary = await importUserData(storage, "u1", archive, { mode: "merge", dryRun: false });
+    expect(summary.memories).toEqual({ added: 1, updated: 1, unchanged: 0, removed: 0 });
+    expect(summary.threads).toEqual({ added: 0, updated: 1, unchanged: 0, removed: 0 });
+
+    const memories = await storage.getAllMemories("u1");
+    expect(memories.map(m => [m.id, m.text]).sort()).toEqual([["a", "new"], ["b", "b"], ["c", "c"]]);
+    expect((await storage.getAllThreadMessages("u1", "t1")).map(m => m.id).sort()).toEqual(["m1", "m2"]);
+    expect((await storage.getAllThreads("u1"))[0].messageCount).toBe(2);
+  });
+
+  it("plans a dry run without writing", async () => {
+    const archive = await archiveWith(a => { a.memories = []; a.threads = []; });
+    const summary = await importUserData(storage, "u1", archive, { mode: "replace", dryRun: true });
+    expect(summary.memories.removed).toBe(1);
+    expect(summary.threads.removed).toBe(1);
+    expect(await storage.getAllMemories("u1")).toHaveLength(1);
+  });
+
+  it("replaces records, even ones deleted after the export", async () => {
+    const archive = await archiveWith(() => {});
+    vi.useFakeTimers({ toFake: ["Date"], now: new Date("2026-02-01T00:00:00.000Z") });
+    await storage.deleteMemory("u1", "a");
+    await storage.saveMemory("u1", { id: "c", text: "c", timestamp: "2026-01-03T00:00:00.000Z" });
+    vi.setSystemTime(new Date("2026-02-01T00:00:01.000Z"));
+
+    const summary = await importUserData(storage, "u1", archive, { mode: "replace", dryRun: false });
+    expect(summary.memories).toEqual({ added: 1, updated: 0, unchanged: 0, removed: 1 });
+    expect((await storage.getAllMemories("u1")).map(m => m.id)).toEqual(["a"]);
+  });
+});
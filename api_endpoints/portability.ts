@@ -0,0 +1,140 @@
+import { StorageBackend, Doc, recordVersion, settingsChanges } from "./storage";
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, planRecords, countUnchanged } from "../utils/portability";
+import type { ImportMode, ImportSummary } from "../types";
+
+// Account export and import (GET /export, POST /import). Archives use the same JSON shapes as the API,
+// see DataArchive in types.ts; memory merge records and usage totals are not part of them.
+
+// Writes run a few at a time so large archives stay within request time limits without flooding the backend
+const WRITE_CONCURRENCY = 20;
+
+const inBatches = async <T,>(items: T[], write: (item: T) => Promise<void>) => {
+  for (let i = 0; i < items.length; i += WRITE_CONCURRENCY) {
+    await Promise.all(items.slice(i, i + WRITE_CONCURRENCY).map(write));
+  }
+};
+
+type IdDoc = Doc & { id: string | number };
+
+// Server bookkeeping stays out of archives
+const withoutSyncFields = ({ syncedAt, ...doc }: Doc) => doc;
+
+const byTimestamp = (a: Doc, b: Doc) => String(a.timestamp).localeCompare(String(b.timestamp));
+
+export const exportUserData = async (storage: StorageBackend, userId: string) => {
+  const [memories, threads, searchHistory, settings, notifications] = await Promise.all([
+    storage.getAllMemories(userId),
+    storage.getAllThreads(userId),
+    storage.getAllSearchHistory(userId),
+    storage.getSettings(userId),
+    storage.getAllNotifications(userId)
+  ]);
+  const archivedThreads = await Promise.all(threads.map(async (thread) => ({
+    ...thread,
+    messages: (await storage.getAllThreadMessages(userId, thread.id)).sort(byTimestamp)
+  })));
+  const { syncedAt, sectionUpdatedAt, ...sections } = settings;
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    memories: memories.map(withoutSyncFields),
+    threads: archivedThreads,
+    searchHistory: searchHistory.map(withoutSyncFields),
+    settings: sections,
+    notifications
+  };
+};
+
+interface ImportOptions {
+  mode: ImportMode;
+  dryRun: boolean;
+}
+
+// `archive` is a validated DataArchive as plain JSON (ISO date strings). A dry run plans without writing;
+// its counts can be slightly higher than the real import's when other devices write in between.
+export const importUserData = async (storage: StorageBackend, userId: string, archive: Doc, { mode, dryRun }: ImportOptions): Promise<ImportSummary> => {
+  const now = new Date().toISOString();
+  const [memories, threads, searchHistory, settings, notifications] = await Promise.all([
+    storage.getAllMemories(userId),
+    storage.getAllThreads(userId),
+    storage.getAllSearchHistory(userId),
+    storage.getSettings(userId),
+    storage.getAllNotifications(userId)
+  ]);
+
+  // Merging an existing thread only adds the messages it doesn't have yet
+  const storedMessageIds = new Map<string, Set<string>>();
+  const threadIds = new Set(threads.map(t => t.id));
+  if (mode === "merge") {
+    await Promise.all(archive.threads.filter((t: Doc) => threadIds.has(t.id)).map(async (t: Doc) => {
+      storedMessageIds.set(t.id, new Set((await storage.getAllThreadMessages(userId, t.id)).map(m => m.id)));
+    }));
+  }
+  const newMessages = (thread: Doc): Doc[] => thread.messages.filter((m: Doc) => !storedMessageIds.get(thread.id)?.has(m.id));
+
+  const isNewer = (incoming: IdDoc, current: IdDoc) => recordVersion(incoming) > recordVersion(current);
+  const memoryPlan = planRecords(memories as IdDoc[], archive.memories as IdDoc[], mode, isNewer);
+  const historyPlan = planRecords(searchHistory as IdDoc[], archive.searchHistory as IdDoc[], mode, isNewer);
+  const threadPlan = planRecords(threads as IdDoc[], archive.threads as IdDoc[], mode, incoming => newMessages(incoming).length > 0);
+  // Notifications don't change after they are sent, except for being read
+  const notificationPlan = planRecords(notifications as IdDoc[], archive.notifications as IdDoc[], mode, (incoming, current) => incoming.read && !current.read);
+  // A replace wins over every section; a merge only over sections last changed before the export
+  const differentSettings = Object.fromEntries(Object.entries(archive.settings).filter(([section, value]) => JSON.stringify(value) !== JSON.stringify(settings[section])));
+  const settingsPlan = settingsChanges(settings, differentSettings, mode === "replace" ? now : archive.exportedAt);
+
+  const summary: ImportSummary = {
+    mode,
+    dryRun,
+    memories: memoryPlan.counts,
+    threads: threadPlan.counts,
+    searchHistory: historyPlan.counts,
+    notifications: notificationPlan.counts,
+    settings: Object.keys(settingsPlan.changes)
+  };
+  if (dryRun) return summary;
+
+  // Replaced records are stamped with the import time so they win last-writer-wins against older copies
+  // (and tombstones) here and on every synced device
+  const stamp = (doc: Doc) => mode === "replace" ? { ...doc, updatedAt: now } : doc;
+  const memoryIds = new Set(memories.map(m => String(m.id)));
+  const historyIds = new Set(searchHistory.map(h => String(h.id)));
+
+  await inBatches(memoryPlan.remove, id => storage.deleteMemory(userId, id));
+  await inBatches(memoryPlan.write, async (memory) => {
+    if (!(await storage.saveMemory(userId, stamp(memory)))) countUnchanged(summary.memories, memoryIds.has(String(memory.id)));
+  });
+
+  await inBatches(historyPlan.remove, id => storage.deleteSearchHistoryItem(userId, id));
+  await inBatches(historyPlan.write, async (item) => {
+    if (!(await storage.saveSearchHistoryItem(userId, stamp(item)))) countUnchanged(summary.searchHistory, historyIds.has(String(item.id)));
+  });
+
+  await inBatches(threadPlan.remove, id => storage.deleteThread(userId, id));
+  await inBatches(threadPlan.write, async ({ messages, ...thread }) => {
+    const stored = threads.find(t => t.id === thread.id);
+    if (!stored || mode === "replace") {
+      // Replacing drops the stored messages the archive doesn't have
+      if (stored) await storage.deleteThread(userId, String(thread.id));
+      await storage.importThread(userId, { ...thread, messageCount: messages.length }, messages);
+      return;
+    }
+    const added = newMessages({ ...thread, messages });
+    const latest = added.reduce((max: string, m: Doc) => m.timestamp > max ? m.timestamp : max, stored.updatedAt);
+    await storage.importThread(userId, {
+      ...stored,
+      title: stored.title || thread.title,
+      updatedAt: latest,
+      messageCount: (stored.messageCount || 0) + added.length,
+      preview: stored.preview || thread.preview
+    }, added);
+  });
+
+  await inBatches(notificationPlan.remove, id => storage.deleteNotification(userId, id));
+  await inBatches(notificationPlan.write, notification => storage.saveNotification(userId, notification));
+
+  if (summary.settings.length > 0) {
+    await storage.saveSettings(userId, { ...settingsPlan.changes, sectionUpdatedAt: settingsPlan.sectionUpdatedAt });
+  }
+  return summary;
+};
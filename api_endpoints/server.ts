@@ -0,0 +1,40 @@
+import { createApp } from "./app";
+import { StorageBackend } from "./storage";
+import { createFirestoreStorage } from "./firestoreStorage";
+import { createFileStorage } from "./fileStorage";
+import { consolidateAllMemories, enforceRetention } from "./jobs";
+
+// Plain Node entry point: the same API as the Firebase function, for local development and self-hosting.
+// STORAGE_BACKEND=file keeps data as JSON under STORAGE_DIR; firestore needs Google application credentials.
+const JOB_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const createStorage = (): StorageBackend => {
+  const backend = process.env.STORAGE_BACKEND || "file";
+  if (backend === "file") return createFileStorage(process.env.STORAGE_DIR || "./data");
+  if (backend === "firestore") return createFirestoreStorage(process.env.FIRESTORE_DATABASE || "companion");
+  throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected "file" or "firestore")`);
+};
+
+const storage = createStorage();
+const port = parseInt(process.env.PORT || "", 10) || 8080;
+
+createApp(storage).listen(port, () => {
+  console.log(`API listening on http://localhost:${port} (${process.env.STORAGE_BACKEND || "file"} storage)`);
+});
+
+// A failing job is logged and retried on the next run; it neither stops the other job nor the server
+const runJob = async (label: string, job: (storage: StorageBackend) => Promise<void>) => {
+  try {
+    await job(storage);
+  } catch (e) {
+    console.error(`${label} Error:`, e);
+  }
+};
+
+// Stand in for the scheduled functions. The first run starts right away, so restarts don't postpone it.
+const runJobs = async () => {
+  await runJob("Retention job", enforceRetention);
+  await runJob("Memory consolidation job", consolidateAllMemories);
+};
+runJobs();
+setInterval(runJobs, JOB_INTERVAL_MS);
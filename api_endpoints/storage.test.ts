@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { acceptsWrite, recordVersion, settingsChanges, threadWithMessage } from "./storage";
+
+describe("acceptsWrite", () => {
+  const stored = { id: "a", timestamp: "2026-01-01T00:00:00.000Z", updatedAt: "2026-01-03T00:00:00.000Z" };
+
+  it("versions records by their last change, falling back to creation", () => {
+    expect(recordVersion(stored)).toBe("2026-01-03T00:00:00.000Z");
+    expect(recordVersion({ id: "b", timestamp: "2026-01-01T00:00:00.000Z" })).toBe("2026-01-01T00:00:00.000Z");
+  });
+
+  it("lets the last writer win", () => {
+    expect(acceptsWrite({ ...stored, updatedAt: "2026-01-04T00:00:00.000Z" }, stored)).toBe(true);
+    expect(acceptsWrite({ ...stored, updatedAt: "2026-01-02T00:00:00.000Z" }, stored)).toBe(false);
+    expect(acceptsWrite(stored)).toBe(true);
+  });
+
+  it("accepts retries of the stored version", () => {
+    expect(acceptsWrite({ ...stored }, stored)).toBe(true);
+  });
+
+  it("only accepts records changed after their deletion", () => {
+    const tombstone = { collection: "memories", id: "a", deletedAt: "2026-01-03T00:00:00.000Z" };
+    expect(acceptsWrite(stored, undefined, tombstone)).toBe(false);
+    expect(acceptsWrite({ ...stored, updatedAt: "2026-01-05T00:00:00.000Z" }, undefined, tombstone)).toBe(true);
+  });
+});
+
+describe("settingsChanges", () => {
+  const current = {
+    activePersonaId: "p1",
+    input: { mode: "open" },
+    sectionUpdatedAt: { activePersonaId: "2026-01-05T00:00:00.000Z", input: "2026-01-01T00:00:00.000Z" }
+  };
+
+  it("skips sections changed after the write", () => {
+    const { changes, sectionUpdatedAt } = settingsChanges(current, { activePersonaId: "p2", input: { mode: "pushToTalk" } }, "2026-01-03T00:00:00.000Z");
+    expect(changes).toEqual({ input: { mode: "pushToTalk" } });
+    expect(sectionUpdatedAt).toEqual({ activePersonaId: "2026-01-05T00:00:00.000Z", input: "2026-01-03T00:00:00.000Z" });
+  });
+
+  it("stamps sections that were never changed", () => {
+    const { changes, sectionUpdatedAt } = settingsChanges({}, { activePersonaId: "p2" }, "2026-01-03T00:00:00.000Z");
+    expect(changes).toEqual({ activePersonaId: "p2" });
+    expect(sectionUpdatedAt).toEqual({ activePersonaId: "2026-01-03T00:00:00.000Z" });
+  });
+});
+
+describe("threadWithMessage", () => {
+  const message = (id: string, role: string, timestamp: string) => ({ id, role, text: `${id} `.repeat(50), timestamp });
+
+  it("creates a missing thread from its first message", () => {
+    expect(threadWithMessage("t1", undefined, message("hi", "model", "2026-01-01T00:00:00.000Z"))).toEqual({
+      id: "t1", title: "", createdAt: "2026-01-01T00:00:00.000Z", updatedAt: "2026-01-01T00:00:00.000Z", messageCount: 1, preview: ""
+    });
+  });
+
+  it("counts the message and previews the first user message", () => {
+    const thread = threadWithMessage("t1", { id: "t1", title: "Jazz", createdAt: "2026-01-01T00:00:00.000Z", messageCount: 1, preview: "" }, message("hello", "user", "2026-01-02T00:00:00.000Z"));
+    expect(thread).toMatchObject({ title: "Jazz", createdAt: "2026-01-01T00:00:00.000Z", updatedAt: "2026-01-02T00:00:00.000Z", messageCount: 2 });
+    expect(thread.preview).toHaveLength(120);
+    expect(threadWithMessage("t1", thread, message("later", "user", "2026-01-03T00:00:00.000Z")).preview).toBe(thread.preview);
+  });
+});
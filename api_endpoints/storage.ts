@@ -0,0 +1,149 @@
+// Storage interface for the API. Routes in app.ts only talk to a StorageBackend, so the same Express app runs
+// on Firestore (Firebase Functions) or on local JSON files (server.ts, local development).
+// Everything is scoped by the Google user id (`sub`); documents are plain JSON with ISO date strings.
+
+export type Doc = Record<string, any>;
+
+export interface PageRequest {
+  limit: number;
+  cursor?: string | null;
+}
+
+export interface Page<T = Doc> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+// Collections that devices sync with GET /sync; their deletions leave tombstones behind
+export type SyncedCollection = "memories" | "search_history";
+
+export interface Tombstone {
+  collection: SyncedCollection;
+  id: string;
+  deletedAt: string;
+}
+
+export interface SyncChanges {
+  memories: Doc[];
+  searchHistory: Doc[];
+  settings: Doc | null; // null when unchanged
+  deleted: Tombstone[];
+}
+
+export interface StorageBackend {
+  // Newest first; cursors are opaque strings produced by the same backend
+  listMemories(userId: string, page: PageRequest): Promise<Page>;
+  getAllMemories(userId: string): Promise<Doc[]>;
+  // Last writer wins: resolves false (and keeps the stored doc) when the stored version is newer or was deleted later
+  saveMemory(userId: string, memory: Doc): Promise<boolean>;
+  // `null` values remove the field; resolves false when the memory doesn't exist
+  updateMemory(userId: string, id: string, changes: Doc): Promise<boolean>;
+  deleteMemory(userId: string, id: string): Promise<void>;
+
+  listMemoryMerges(userId: string, page: PageRequest): Promise<Page>;
+  // Atomically replaces the merged originals with the canonical memory and stores the merge record
+  commitMerge(userId: string, merge: Doc, canonical: Doc): Promise<void>;
+  // Restores the originals and drops the merge record; resolves null when the merge doesn't exist
+  undoMerge(userId: string, mergeId: string): Promise<Doc | null>;
+
+  listSearchHistory(userId: string, page: PageRequest): Promise<Page>;
+  getAllSearchHistory(userId: string): Promise<Doc[]>;
+  saveSearchHistoryItem(userId: string, item: Doc): Promise<boolean>;
+  deleteSearchHistoryItem(userId: string, id: string): Promise<void>;
+  clearSearchHistory(userId: string): Promise<void>;
+
+  getSettings(userId: string): Promise<Doc>;
+  // Top-level sections are replaced, the rest of the settings are kept
+  saveSettings(userId: string, settings: Doc): Promise<void>;
+
+  listUsage(userId: string, page: PageRequest): Promise<Page>;
+  // Adds to the day's totals, so concurrent sessions on different devices add up
+  addUsage(userId: string, date: string, delta: Record<string, number>): Promise<void>;
+
+  // Most recently active first
+  listThreads(userId: string, page: PageRequest): Promise<Page>;
+  getAllThreads(userId: string): Promise<Doc[]>;
+  saveThread(userId: string, thread: Doc): Promise<void>;
+  // Resolves the updated thread, or null when it doesn't exist
+  renameThread(userId: string, id: string, title: string): Promise<Doc | null>;
+  // Removes the thread together with its messages
+  deleteThread(userId: string, id: string): Promise<void>;
+  // Newest first, like the other lists
+  listThreadMessages(userId: string, threadId: string, page: PageRequest): Promise<Page>;
+  getAllThreadMessages(userId: string, threadId: string): Promise<Doc[]>;
+  // Stores the message and updates (or creates) its thread's counters in one step
+  appendThreadMessage(userId: string, threadId: string, message: Doc): Promise<void>;
+  // Writes the thread doc as given (counters included) and upserts the messages, e.g. from an imported archive
+  importThread(userId: string, thread: Doc, messages: Doc[]): Promise<void>;
+  // Deletes the given messages and writes the thread doc as given, with counters matching what is left
+  pruneThreadMessages(userId: string, thread: Doc, messageIds: string[]): Promise<void>;
+  // Backend-specific upgrades of older data, run before the first page of threads is listed
+  migrateLegacyChat?(userId: string): Promise<void>;
+
+  listUnreadNotifications(userId: string, page: PageRequest): Promise<Page>;
+  markNotificationRead(userId: string, id: string): Promise<void>;
+  getAllNotifications(userId: string): Promise<Doc[]>;
+  saveNotification(userId: string, notification: Doc): Promise<void>;
+  deleteNotification(userId: string, id: string): Promise<void>;
+
+  // Synced docs and tombstones written after `since` (an ISO time from a previous call), or all of them when null
+  changesSince(userId: string, since: string | null): Promise<SyncChanges>;
+
+  // Removes everything stored for the user, tombstones included
+  deleteUser(userId: string): Promise<void>;
+
+  // For scheduled jobs
+  listUserIds(): Promise<string[]>;
+}
+
+// A synced record's version is the client time of its last change; ISO strings compare in time order
+export const recordVersion = (doc: Doc): string => String(doc.updatedAt || doc.timestamp || "");
+
+// Ties go to the incoming write so retried requests still succeed
+export const acceptsWrite = (incoming: Doc, stored?: Doc, tombstone?: Doc) =>
+  (!stored || recordVersion(incoming) >= recordVersion(stored)) && (!tombstone || recordVersion(incoming) > tombstone.deletedAt);
+
+// Settings are last-writer-wins per top-level section; sections changed after `updatedAt` are kept as they are
+export const settingsChanges = (current: Doc, config: Doc, updatedAt: string) => {
+  const sectionUpdatedAt: Record<string, string> = { ...current.sectionUpdatedAt };
+  const changes: Doc = {};
+  for (const [section, value] of Object.entries(config)) {
+    if (sectionUpdatedAt[section] && sectionUpdatedAt[section] > updatedAt) continue;
+    changes[section] = value;
+    sectionUpdatedAt[section] = updatedAt;
+  }
+  return { changes, sectionUpdatedAt };
+};
+
+// A thread's preview is the start of its first user message
+export const threadPreview = (message: Doc) => message.role === "user" ? String(message.text || "").slice(0, 120) : "";
+
+// The thread summary after appending `message`. Messages may arrive before the thread was created
+// (e.g. offline start), so a missing thread is created from the message.
+export const threadWithMessage = (threadId: string, existing: Doc | undefined, message: Doc): Doc => ({
+  id: threadId,
+  title: existing?.title || "",
+  createdAt: existing?.createdAt || message.timestamp,
+  updatedAt: message.timestamp,
+  messageCount: (existing?.messageCount || 0) + 1,
+  preview: existing?.preview || threadPreview(message)
+});
+
+// An undo restores the merged originals as new writes, so last-writer-wins brings them back on every device
+export const restoredOriginals = (merge: Doc, now: string): Doc[] =>
+  merge.originals.map((original: Doc) => ({ ...original, updatedAt: now, syncedAt: now }));
+
+export const tombstoneId = (collection: SyncedCollection, id: string) => `${collection}:${id}`;
+
+export class BadRequestError extends Error {}
+
+// Lists are ordered by one field (newest first) with the doc id as tie-breaker; the cursor encodes both for the last item returned
+export const encodeCursor = (value: any, id: string) => Buffer.from(JSON.stringify([value, id])).toString("base64url");
+
+export const decodeCursor = (cursor: string): [any, string] => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Array.isArray(decoded) && decoded.length === 2 && typeof decoded[1] === "string") return [decoded[0], decoded[1]];
+  } catch (e) {}
+  throw new BadRequestError("Invalid cursor");
+};
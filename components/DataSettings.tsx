@@ -0,0 +1,246 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Download, Upload, FileArchive, UserX } from 'lucide-react';
+import { DataArchive, ImportCounts, ImportMode, ImportSummary } from '../types';
+import { dataArchiveSchema } from '../utils/contracts';
+import { formatFieldErrors } from '../utils/validation';
+import { archiveFileName } from '../utils/portability';
+
+interface DataSettingsProps {
+    isSignedIn: boolean;
+    onExport: () => Promise<DataArchive>;
+    onImport: (archive: DataArchive, mode: ImportMode, dryRun: boolean) => Promise<ImportSummary>;
+    onDeleteAccount: () => Promise<void>;
+}
+
+const SUMMARY_ROWS: { key: 'memories' | 'threads' | 'searchHistory' | 'notifications'; label: string }[] = [
+    { key: 'memories', label: 'Memories' },
+    { key: 'threads', label: 'Conversations' },
+    { key: 'searchHistory', label: 'Searches' },
+    { key: 'notifications', label: 'Notifications' }
+];
+
+const describeCounts = (counts: ImportCounts) => {
+    const parts = [
+        counts.added && `${counts.added} new`,
+        counts.updated && `${counts.updated} updated`,
+        counts.unchanged && `${counts.unchanged} unchanged`,
+        counts.removed && `${counts.removed} removed`
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : 'nothing';
+};
+
+const downloadArchive = (archive: DataArchive) => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = archiveFileName(archive.exportedAt);
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Export downloads everything as one JSON archive; import previews (dry run) before writing anything
+export const DataSettings: React.FC<DataSettingsProps> = ({ isSignedIn, onExport, onImport, onDeleteAccount }) => {
+    const [busy, setBusy] = useState<'export' | 'preview' | 'import' | 'delete' | null>(null);
+    const [confirmingDelete, setConfirmingDelete] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [pending, setPending] = useState<DataArchive | null>(null);
+    const [mode, setMode] = useState<ImportMode>('merge');
+    const [summary, setSummary] = useState<ImportSummary | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Every archive/mode pair gets a fresh preview (not onImport, which is recreated on every render)
+    useEffect(() => {
+        if (!pending) return;
+        let cancelled = false;
+        setBusy('preview');
+        setError(null);
+        setSummary(null);
+        onImport(pending, mode, true)
+            .then(result => { if (!cancelled) setSummary(result); })
+            .catch(e => { if (!cancelled) setError(e.message); })
+            .finally(() => { if (!cancelled) setBusy(null); });
+        return () => { cancelled = true; };
+    }, [pending, mode]);
+
+    const handleExport = async () => {
+        setBusy('export');
+        setError(null);
+        try {
+            downloadArchive(await onExport());
+        } catch (e: any) {
+            setError(e.message);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (fileInputRef.current) fileInputRef.current.value = '';
+        if (!file) return;
+        setSummary(null);
+        setError(null);
+        try {
+            const result = dataArchiveSchema.parse(JSON.parse(await file.text()));
+            if (!result.ok) throw new Error(`Not a valid export: ${formatFieldErrors(result.errors.slice(0, 3))}`);
+            setMode('merge');
+            setPending(result.value);
+        } catch (e: any) {
+            setPending(null);
+            setError(e instanceof SyntaxError ? 'Not a valid export: the file is not JSON' : e.message);
+        }
+    };
+
+    const handleImport = async () => {
+        if (!pending) return;
+        setBusy('import');
+        setError(null);
+        try {
+            setSummary(await onImport(pending, mode, false));
+            setPending(null);
+        } catch (e: any) {
+            setError(e.message);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    // On success the app signs out and reloads, so there is nothing to reset afterwards
+    const handleDeleteAccount = async () => {
+        setBusy('delete');
+        setError(null);
+        try {
+            await onDeleteAccount();
+        } catch (e: any) {
+            setError(e.message);
+            setConfirmingDelete(false);
+            setBusy(null);
+        }
+    };
+
+    const cancelImport = () => {
+        setPending(null);
+        setSummary(null);
+        setError(null);
+    };
+
+    return (
+        <div className="bg-[#2a2a2a] rounded-2xl p-5 border border-white/5 relative overflow-hidden">
+            <div className="flex gap-4">
+                <div className="w-10 h-10 rounded-full bg-amber-600 flex items-center justify-center shadow-lg flex-shrink-0">
+                    <FileArchive size={20} className="text-white" />
+                </div>
+                <div className="flex-1 space-y-3">
+                    <p className="text-xs text-gray-400 leading-relaxed">
+                        {isSignedIn
+                            ? 'Export or import everything stored for your account: memories, conversations, search history, settings and notifications.'
+                            : 'Export or import what this browser keeps: memories, conversations, search history and settings. Sign in to include your account data.'}
+                    </p>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleExport}
+                            disabled={busy !== null}
+                            className="flex items-center gap-1.5 px-3 py-1.5 bg-white/10 hover:bg-white/20 disabled:opacity-50 rounded-lg text-xs text-gray-200 transition-colors"
+                        >
+                            <Download size={14} /> {busy === 'export' ? 'Exporting...' : 'Export data'}
+                        </button>
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={busy !== null}
+                            className="flex items-center gap-1.5 px-3 py-1.5 bg-white/10 hover:bg-white/20 disabled:opacity-50 rounded-lg text-xs text-gray-200 transition-colors"
+                        >
+                            <Upload size={14} /> Import data
+                        </button>
+                        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+                    </div>
+
+                    {pending && (
+                        <div className="space-y-2 bg-black/20 rounded-xl p-3">
+                            <p className="text-xs text-gray-300">
+                                Export from {pending.exportedAt.toLocaleString()}
+                            </p>
+                            <div className="flex gap-2">
+                                {(['merge', 'replace'] as const).map(m => (
+                                    <button
+                                        key={m}
+                                        onClick={() => setMode(m)}
+                                        disabled={busy !== null}
+                                        className={`px-3 py-1 rounded-lg text-xs transition-colors ${mode === m ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+                                    >
+                                        {m === 'merge' ? 'Merge' : 'Replace'}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-[11px] text-gray-500 leading-relaxed">
+                                {mode === 'merge'
+                                    ? 'Adds what is missing and keeps whichever version of a record is newer.'
+                                    : 'Makes your data match the export: anything the export does not have is deleted.'}
+                            </p>
+                        </div>
+                    )}
+
+                    {busy === 'preview' && <p className="text-xs text-gray-500">Checking what would change...</p>}
+
+                    {summary && (
+                        <div className="space-y-1">
+                            <p className="text-xs font-medium text-gray-300">{summary.dryRun ? 'Importing will change:' : 'Imported:'}</p>
+                            {SUMMARY_ROWS.map(row => (
+                                <p key={row.key} className="text-xs text-gray-400">{row.label}: {describeCounts(summary[row.key])}</p>
+                            ))}
+                            <p className="text-xs text-gray-400">Settings: {summary.settings.length > 0 ? summary.settings.join(', ') : 'unchanged'}</p>
+                        </div>
+                    )}
+
+                    {pending && summary?.dryRun && (
+                        <div className="flex gap-2">
+                            <button
+                                onClick={handleImport}
+                                disabled={busy !== null}
+                                className={`px-3 py-1.5 rounded-lg text-xs text-white transition-colors disabled:opacity-50 ${mode === 'replace' ? 'bg-red-600 hover:bg-red-500' : 'bg-blue-600 hover:bg-blue-500'}`}
+                            >
+                                {busy === 'import' ? 'Importing...' : mode === 'replace' ? 'Replace my data' : 'Import'}
+                            </button>
+                            <button onClick={cancelImport} disabled={busy !== null} className="px-3 py-1.5 rounded-lg text-xs text-gray-300 bg-white/10 hover:bg-white/20 disabled:opacity-50">
+                                Cancel
+                            </button>
+                        </div>
+                    )}
+
+                    {isSignedIn && (
+                        <div className="pt-3 border-t border-white/5 space-y-2">
+                            {confirmingDelete ? (
+                                <>
+                                    <p className="text-xs text-red-300 leading-relaxed">
+                                        This permanently deletes everything stored for your account and resets this browser. Export your data first if you want to keep it.
+                                    </p>
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={handleDeleteAccount}
+                                            disabled={busy !== null}
+                                            className="px-3 py-1.5 rounded-lg text-xs text-white bg-red-600 hover:bg-red-500 disabled:opacity-50 transition-colors"
+                                        >
+                                            {busy === 'delete' ? 'Deleting...' : 'Delete everything'}
+                                        </button>
+                                        <button onClick={() => setConfirmingDelete(false)} disabled={busy !== null} className="px-3 py-1.5 rounded-lg text-xs text-gray-300 bg-white/10 hover:bg-white/20 disabled:opacity-50">
+                                            Cancel
+                                        </button>
+                                    </div>
+                                </>
+                            ) : (
+                                <button
+                                    onClick={() => setConfirmingDelete(true)}
+                                    disabled={busy !== null}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 bg-red-500/10 hover:bg-red-500/20 disabled:opacity-50 rounded-lg text-xs text-red-300 transition-colors"
+                                >
+                                    <UserX size={14} /> Delete account
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    {error && <p className="text-xs text-red-400">{error}</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,147 @@
+
+import React, { useState, useEffect } from 'react';
+import { Plus, Copy, Trash2, Check, UserCircle } from 'lucide-react';
+import { PersonaProfile, IntegrationsConfig, Expression } from '../types';
+import { ALL_EXPRESSIONS, PERSONA_VOICES, PERSONA_LANGUAGES, DEFAULT_PERSONA, DEFAULT_PERSONA_ID, createPersona } from '../utils/personas';
+
+interface PersonaSettingsProps {
+    personas: PersonaProfile[];
+    activePersonaId: string;
+    onSelect: (id: string) => void;
+    onSave: (persona: PersonaProfile) => void;
+    onDelete: (id: string) => void;
+}
+
+const INTEGRATION_LABELS: Record<keyof IntegrationsConfig, string> = {
+    workspace: 'Workspace',
+    youtube: 'YouTube',
+    media: 'YouTube Music',
+    notifications: 'Notifications',
+    openTabs: 'Open Tabs',
+    personalizedSearch: 'Personalized Search',
+    vision: 'Camera & Screen'
+};
+
+const inputClass = "w-full bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-gray-200 outline-none focus:border-blue-500";
+
+export const PersonaSettings: React.FC<PersonaSettingsProps> = ({ personas, activePersonaId, onSelect, onSave, onDelete }) => {
+    const [editingId, setEditingId] = useState(activePersonaId);
+    const editing = personas.find(p => p.id === editingId) || personas[0] || DEFAULT_PERSONA;
+    const [draft, setDraft] = useState<PersonaProfile>(editing);
+
+    // Reset the form whenever a different persona is picked for editing
+    useEffect(() => { setDraft(editing); }, [editing]);
+
+    const isDirty = JSON.stringify(draft) !== JSON.stringify(editing);
+    const update = (changes: Partial<PersonaProfile>) => setDraft(prev => ({ ...prev, ...changes }));
+
+    const toggleExpression = (expression: Expression) => {
+        const allowed = draft.allowedExpressions.includes(expression)
+            ? draft.allowedExpressions.filter(e => e !== expression)
+            : [...draft.allowedExpressions, expression];
+        update({ allowedExpressions: allowed });
+    };
+
+    const setDefaultIntegration = (key: keyof IntegrationsConfig, value: string) => {
+        const next = { ...(draft.defaultIntegrations || {}) };
+        if (value === 'keep') delete next[key];
+        else next[key] = value === 'on';
+        update({ defaultIntegrations: next });
+    };
+
+    const handleCreate = () => {
+        const persona = createPersona(editing);
+        onSave(persona);
+        setEditingId(persona.id);
+    };
+
+    return (
+        <div className="bg-[#2a2a2a] rounded-2xl p-5 border border-white/5 space-y-4">
+            <div className="flex items-center gap-2 flex-wrap">
+                {personas.map(p => (
+                    <button
+                        key={p.id}
+                        onClick={() => setEditingId(p.id)}
+                        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs border transition-colors ${p.id === editingId ? 'bg-blue-500/20 border-blue-500 text-blue-200' : 'bg-black/20 border-white/10 text-gray-300 hover:border-white/30'}`}
+                    >
+                        <UserCircle size={12} /> {p.name}
+                        {p.id === activePersonaId && <Check size={12} className="text-green-400" />}
+                    </button>
+                ))}
+                <button onClick={handleCreate} title="Duplicate as new persona" className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs border border-dashed border-white/20 text-gray-400 hover:text-white"><Plus size={12} /> New</button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <label className="space-y-1">
+                    <span className="text-[10px] uppercase tracking-wider text-gray-500">Name</span>
+                    <input value={draft.name} onChange={e => update({ name: e.target.value })} className={inputClass} />
+                </label>
+                <label className="space-y-1">
+                    <span className="text-[10px] uppercase tracking-wider text-gray-500">Calls you</span>
+                    <input value={draft.userAddress} onChange={e => update({ userAddress: e.target.value })} className={inputClass} />
+                </label>
+                <label className="space-y-1">
+                    <span className="text-[10px] uppercase tracking-wider text-gray-500">Voice</span>
+                    <select value={draft.voiceName} onChange={e => update({ voiceName: e.target.value })} className={inputClass}>
+                        {PERSONA_VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+                    </select>
+                </label>
+                <label className="space-y-1">
+                    <span className="text-[10px] uppercase tracking-wider text-gray-500">Language</span>
+                    <select value={draft.language} onChange={e => update({ language: e.target.value })} className={inputClass}>
+                        {PERSONA_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                    </select>
+                </label>
+            </div>
+
+            <label className="block space-y-1">
+                <span className="text-[10px] uppercase tracking-wider text-gray-500">Personality</span>
+                <textarea value={draft.personality} onChange={e => update({ personality: e.target.value })} rows={4} className={`${inputClass} font-mono resize-y`} />
+                <span className="text-[10px] text-gray-500">Memories, location and tool instructions are added automatically.</span>
+            </label>
+
+            <div className="space-y-1">
+                <span className="text-[10px] uppercase tracking-wider text-gray-500">Allowed expressions</span>
+                <div className="flex flex-wrap gap-2">
+                    {ALL_EXPRESSIONS.map(e => (
+                        <button key={e} onClick={() => toggleExpression(e)} className={`px-2 py-1 rounded text-xs border ${draft.allowedExpressions.includes(e) ? 'bg-pink-500/20 border-pink-500/50 text-pink-200' : 'bg-black/20 border-white/10 text-gray-500'}`}>{e}</button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="space-y-1">
+                <span className="text-[10px] uppercase tracking-wider text-gray-500">Integrations when switching to this persona</span>
+                <div className="grid grid-cols-2 gap-2">
+                    {(Object.keys(INTEGRATION_LABELS) as (keyof IntegrationsConfig)[]).map(key => {
+                        const value = draft.defaultIntegrations?.[key];
+                        return (
+                            <label key={key} className="flex items-center justify-between gap-2 text-xs text-gray-300">
+                                {INTEGRATION_LABELS[key]}
+                                <select value={value === undefined ? 'keep' : value ? 'on' : 'off'} onChange={e => setDefaultIntegration(key, e.target.value)} className="bg-black/30 border border-white/10 rounded px-1 py-0.5 text-xs text-gray-200">
+                                    <option value="keep">Keep</option>
+                                    <option value="on">On</option>
+                                    <option value="off">Off</option>
+                                </select>
+                            </label>
+                        );
+                    })}
+                </div>
+            </div>
+
+            <div className="flex items-center justify-between pt-2 border-t border-white/5">
+                <div className="flex gap-2">
+                    {editing.id !== DEFAULT_PERSONA_ID && (
+                        <button onClick={() => { onDelete(editing.id); setEditingId(activePersonaId === editing.id ? DEFAULT_PERSONA_ID : activePersonaId); }} className="text-red-400 text-xs flex gap-1 items-center"><Trash2 size={12} /> Delete</button>
+                    )}
+                    <button onClick={handleCreate} className="text-gray-400 hover:text-white text-xs flex gap-1 items-center"><Copy size={12} /> Duplicate</button>
+                </div>
+                <div className="flex gap-2">
+                    {isDirty && <button onClick={() => onSave(draft)} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-xs rounded-lg">Save</button>}
+                    {editing.id !== activePersonaId && (
+                        <button onClick={() => onSelect(editing.id)} disabled={isDirty} className="px-3 py-1.5 bg-green-600 hover:bg-green-500 text-white text-xs rounded-lg disabled:opacity-50">Use this persona</button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
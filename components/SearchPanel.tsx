@@ -0,0 +1,81 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { X, TextSearch, MessageSquare, Brain, Search, FileText, Loader2 } from 'lucide-react';
+import { SearchResult, SearchResultType } from '../types';
+import { MIN_QUERY_LENGTH, groupResults } from '../utils/search';
+
+interface SearchPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    query: string;
+    onQueryChange: (query: string) => void;
+    results: SearchResult[];
+    isSearching: boolean;
+    onSelect: (result: SearchResult) => void;
+}
+
+const TYPE_ICONS: Record<SearchResultType, React.ReactNode> = {
+    chat: <MessageSquare size={14} className="text-cyan-400" />,
+    memory: <Brain size={14} className="text-pink-400" />,
+    search: <Search size={14} className="text-indigo-400" />,
+    file: <FileText size={14} className="text-emerald-400" />
+};
+
+// One box for conversations, memories, web searches and documents; picking a hit opens it in its drawer
+export const SearchPanel: React.FC<SearchPanelProps> = ({ isOpen, onClose, query, onQueryChange, results, isSearching, onSelect }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const groups = useMemo(() => groupResults(results), [results]);
+
+    useEffect(() => {
+        if (isOpen) inputRef.current?.focus();
+    }, [isOpen]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [isOpen, onClose]);
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="absolute inset-0 z-50 flex items-start justify-center pt-24 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+            <div className="w-full max-w-xl bg-slate-950/95 border border-white/10 rounded-2xl shadow-2xl overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center gap-3 px-4 py-3 border-b border-white/10">
+                    <TextSearch size={18} className="text-slate-400" />
+                    <input
+                        ref={inputRef}
+                        value={query}
+                        onChange={e => onQueryChange(e.target.value)}
+                        placeholder="Search conversations, memories, searches and documents"
+                        className="flex-1 bg-transparent text-sm text-slate-100 placeholder-slate-500 focus:outline-none"
+                    />
+                    {isSearching && <Loader2 size={16} className="text-slate-500 animate-spin" />}
+                    <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={18} /></button>
+                </div>
+                <div className="max-h-[60vh] overflow-y-auto p-2">
+                    {query.trim().length >= MIN_QUERY_LENGTH && groups.length === 0 && !isSearching && (
+                        <p className="text-center text-xs text-slate-500 py-6">No results for "{query.trim()}"</p>
+                    )}
+                    {groups.map(group => (
+                        <div key={group.type} className="mb-2">
+                            <h3 className="px-3 py-1 text-[10px] font-bold uppercase tracking-wider text-slate-500">{group.label} · {group.results.length}</h3>
+                            {group.results.map(r => (
+                                <button key={`${r.type}:${r.id}`} onClick={() => onSelect(r)} className="w-full text-left flex gap-3 px-3 py-2 rounded-lg hover:bg-white/5">
+                                    <span className="mt-0.5 flex-shrink-0">{TYPE_ICONS[r.type]}</span>
+                                    <span className="min-w-0 flex-1">
+                                        <span className="flex justify-between gap-2 text-xs text-slate-200">
+                                            <span className="truncate">{r.title}</span>
+                                            <span className="text-[10px] text-slate-500 flex-shrink-0">{r.timestamp.toLocaleDateString([], { month: 'short', day: 'numeric' })}</span>
+                                        </span>
+                                        <span className="block text-[11px] text-slate-400 line-clamp-2">{r.snippet}</span>
+                                    </span>
+                                </button>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
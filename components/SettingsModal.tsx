@@ -1,18 +1,99 @@
 
-import React from 'react';
-import { X, Mail, FileText, HardDrive, Calendar, Youtube, Music, Bell, Monitor, Search, Globe, Info, CheckSquare } from 'lucide-react';
-import { IntegrationsConfig } from '../types';
+import React, { useState, useEffect } from 'react';
+import { X, Mail, FileText, HardDrive, Calendar, Youtube, Music, Bell, Monitor, Search, Globe, Info, CheckSquare, Mic, Keyboard, Headphones, Cpu, Camera, Gauge, Database, Hourglass } from 'lucide-react';
+import { IntegrationsConfig, InputSettings, AudioDeviceSettings, PersonaProfile, ModelSettings, UsageBudget, UsageTotals, DataArchive, ImportMode, ImportSummary, RetentionPolicy } from '../types';
+import { formatHotkey, hotkeyFromEvent } from '../utils/hotkeys';
+import { listAudioDevices, supportsOutputSelection, AudioDeviceOption } from '../utils/audioDevices';
+import { PersonaSettings } from './PersonaSettings';
+import { DataSettings } from './DataSettings';
+import { LIVE_MODELS, TEMPERATURE_RANGE, getModelInfo } from '../utils/models';
+import { formatSeconds } from '../utils/usage';
+import { formatFileSize } from '../utils/attachments';
+import { RETENTION_COLLECTIONS, RETENTION_OPTIONS, formatRetention } from '../utils/retention';
+import { estimateStorage, StorageEstimate } from '../utils/localDb';
+
+// Above this share of the quota the browser may start refusing writes soon
+const STORAGE_WARN_RATIO = 0.8;
 
 interface SettingsModalProps {
     isOpen: boolean;
     onClose: () => void;
     config: IntegrationsConfig;
     onToggle: (key: keyof IntegrationsConfig) => void;
+    inputSettings: InputSettings;
+    onInputSettingsChange: (changes: Partial<InputSettings>) => void;
+    audioDevices: AudioDeviceSettings;
+    onAudioDevicesChange: (changes: Partial<AudioDeviceSettings>) => void;
+    personas: PersonaProfile[];
+    activePersonaId: string;
+    onSelectPersona: (id: string) => void;
+    onSavePersona: (persona: PersonaProfile) => void;
+    onDeletePersona: (id: string) => void;
+    modelSettings: ModelSettings;
+    onModelSettingsChange: (changes: Partial<ModelSettings>) => void;
+    usageBudget: UsageBudget;
+    onUsageBudgetChange: (changes: Partial<UsageBudget>) => void;
+    todayUsage: UsageTotals;
+    isSignedIn: boolean;
+    onExportData: () => Promise<DataArchive>;
+    onImportData: (archive: DataArchive, mode: ImportMode, dryRun: boolean) => Promise<ImportSummary>;
+    retention: RetentionPolicy;
+    onRetentionChange: (changes: Partial<RetentionPolicy>) => void;
+    onDeleteAccount: () => Promise<void>;
 }
 
-export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, config, onToggle }) => {
+// Click, then press the desired key (or combo). Escape cancels.
+const HotkeyField: React.FC<{ value: string; allowModifiers: boolean; onChange: (value: string) => void }> = ({ value, allowModifiers, onChange }) => {
+    const [isRecording, setIsRecording] = useState(false);
+
+    useEffect(() => {
+        if (!isRecording) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            if (e.code === 'Escape') { setIsRecording(false); return; }
+            const hotkey = allowModifiers ? hotkeyFromEvent(e) : e.code;
+            if (!hotkey) return;
+            onChange(hotkey);
+            setIsRecording(false);
+        };
+        window.addEventListener('keydown', onKeyDown, true);
+        return () => window.removeEventListener('keydown', onKeyDown, true);
+    }, [isRecording, allowModifiers, onChange]);
+
+    return (
+        <button
+            onClick={() => setIsRecording(true)}
+            className={`min-w-[120px] px-3 py-1.5 rounded-lg text-xs font-mono border transition-colors ${isRecording ? 'bg-blue-500/20 border-blue-500 text-blue-300 animate-pulse' : 'bg-black/30 border-white/10 text-gray-200 hover:border-white/30'}`}
+        >
+            {isRecording ? 'Press a key...' : formatHotkey(value)}
+        </button>
+    );
+};
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, config, onToggle, inputSettings, onInputSettingsChange, audioDevices, onAudioDevicesChange, personas, activePersonaId, onSelectPersona, onSavePersona, onDeletePersona, modelSettings, onModelSettingsChange, usageBudget, onUsageBudgetChange, todayUsage, isSignedIn, onExportData, onImportData, retention, onRetentionChange, onDeleteAccount }) => {
+    const [deviceOptions, setDeviceOptions] = useState<{ inputs: AudioDeviceOption[]; outputs: AudioDeviceOption[] }>({ inputs: [], outputs: [] });
+
+    // Re-enumerate while open so plugging in a headset shows up immediately
+    useEffect(() => {
+        if (!isOpen || !navigator.mediaDevices) return;
+        const refresh = () => listAudioDevices().then(setDeviceOptions).catch(e => console.warn("Device enumeration failed:", e));
+        refresh();
+        navigator.mediaDevices.addEventListener('devicechange', refresh);
+        return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+    }, [isOpen]);
+
+    const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+    useEffect(() => {
+        if (!isOpen) return;
+        estimateStorage().then(setStorageEstimate).catch(e => console.warn("Storage estimate failed:", e));
+    }, [isOpen]);
+
     if (!isOpen) return null;
 
+    const canSelectOutput = supportsOutputSelection();
+    const modelInfo = getModelInfo(modelSettings.model);
+
     return (
         <div className="absolute inset-0 bg-black/80 backdrop-blur-md z-[80] flex items-center justify-center p-4 animate-in fade-in duration-200">
             <div className="bg-[#1e1e1e] border border-white/10 rounded-3xl shadow-2xl max-w-2xl w-full h-[80vh] flex flex-col overflow-hidden">
@@ -31,6 +112,213 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, c
                 {/* Content */}
                 <div className="flex-1 overflow-y-auto p-6 space-y-8 scrollbar-thin scrollbar-thumb-gray-700">
                     
+                    {/* Persona Section */}
+                    <div className="space-y-4">
+                        <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider ml-1">Persona</h3>
+                        <PersonaSettings personas={personas} activePersonaId={activePersonaId} onSelect={onSelectPersona} onSave={onSavePersona} onDelete={onDeletePersona} />
+                    </div>
+
+                    {/* Model Section */}
+                    <div className="space-y-4">
+                        <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider ml-1">Model</h3>
+
+                        <div className="bg-[#2a2a2a] rounded-2xl p-5 border border-white/5 relative overflow-hidden">
+                            <div className="flex gap-4">
+                                <div className="w-10 h-10 rounded-full bg-violet-600 flex items-center justify-center shadow-lg flex-shrink-0">
+                                    <Cpu size={20} className="text-white" />
+                                </div>
+                                <div className="flex-1 space-y-3">
+                                    <p className="text-xs text-gray-400 leading-relaxed">
+                                        Applies the next time you start a conversation.
+                                    </p>
+                                    <label className="flex items-center justify-between gap-4">
+                                        <span className="text-xs text-gray-300">Live model</span>
+                                        <select
+                                            value={modelSettings.model}
+                                            onChange={e => onModelSettingsChange({ model: e.target.value })}
+                                            className="flex-1 max-w-xs bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-gray-200"
+                                        >
+                                            {LIVE_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                        </select>
+                                    </label>
+                                    <label className="flex items-center justify-between gap-4">
+                                        <span className="text-xs text-gray-300">Temperature <span className="font-mono text-gray-500">{modelSettings.temperature.toFixed(1)}</span></span>
+                                        <input
+                                            type="range"
+                                            min={TEMPERATURE_RANGE.min}
+                                            max={TEMPERATURE_RANGE.max}
+                                            step={TEMPERATURE_RANGE.step}
+                                            value={modelSettings.temperature}
+                                            onChange={e => onModelSettingsChange({ temperature: parseFloat(e.target.value) })}
+                                            className="flex-1 max-w-xs accent-blue-500"
+                                        />
+                                    </label>
+                                    <div className="flex items-center justify-between gap-4">
+                                        <span className="text-xs text-gray-300">Replies</span>
+                                        <div className="flex gap-2">
+                                            {(['audio', 'text'] as const).map(modality => {
+                                                const supported = !!modelInfo?.modalities.includes(modality);
+                                                return (
+                                                    <button
+                                                        key={modality}
+                                                        disabled={!supported}
+                                                        title={supported ? undefined : 'Not supported by this model'}
+                                                        onClick={() => onModelSettingsChange({ responseModality: modality })}
+                                                        className={`px-3 py-1 rounded-lg text-xs border disabled:opacity-40 ${modelSettings.responseModality === modality ? 'bg-blue-500/20 border-blue-500 text-blue-200' : 'bg-black/20 border-white/10 text-gray-400'}`}
+                                                    >{modality === 'audio' ? 'Spoken' : 'Text only'}</button>
+                                                );
+                                            })}
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center justify-between gap-4">
+                                        <span className="text-xs text-gray-300">Transcribe voice into chat history</span>
+                                        <button 
+                                            onClick={() => onModelSettingsChange({ transcription: !modelSettings.transcription })}
+                                            className={`w-12 h-6 rounded-full transition-colors duration-300 relative ${modelSettings.transcription ? 'bg-blue-500' : 'bg-gray-600'}`}
+                                        >
+                                            <div className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform duration-300 shadow-sm ${modelSettings.transcription ? 'left-7' : 'left-1'}`} />
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Usage Budget Section */}
+                    <div className="space-y-4">
+                        <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider ml-1">Usage Budget</h3>
+
+                        <div className="bg-[#2a2a2a] rounded-2xl p-5 border border-white/5 relative overflow-hidden">
+                            <div className="flex gap-4">
+                                <div className="w-10 h-10 rounded-full bg-emerald-600 flex items-center justify-center shadow-lg flex-shrink-0">
+                                    <Gauge size={20} className="text-white" />
+                                </div>
+                                <div className="flex-1 space-y-3">
+                                    <p className="text-xs text-gray-400 leading-relaxed">
+                                        Today: {todayUsage.totalTokens.toLocaleString()} tokens, {formatSeconds(todayUsage.inputAudioSeconds + todayUsage.outputAudioSeconds)} of audio.
+                                        You get a warning at {Math.round(usageBudget.warnRatio * 100)}% and the session ends at the limit. Leave empty for no limit.
+                                    </p>
+                                    <label className="flex items-center justify-between gap-4">
+                                        <span className="text-xs text-gray-300">Daily token limit</span>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            step={1000}
+                                            value={usageBudget.dailyTokenLimit ?? ''}
+                                            onChange={e => onUsageBudgetChange({ dailyTokenLimit: e.target.value ? Number(e.target.value) : null })}
+                                            placeholder="No limit"
+                                            className="w-36 bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-gray-200"
+                                        />
+                                    </label>
+                                    <label className="flex items-center justify-between gap-4">
+                                        <span className="text-xs text-gray-300">Daily audio minutes</span>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            step={5}
+                                            value={usageBudget.dailyAudioMinutesLimit ?? ''}
+                                            onChange={e => onUsageBudgetChange({ dailyAudioMinutesLimit: e.target.value ? Number(e.target.value) : null })}
+                                            placeholder="No limit"
+                                            className="w-36 bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-gray-200"
+                                        />
+                                    </label>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Voice Input Section */}
+                    <div className="space-y-4">
+                        <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider ml-1">Voice Input</h3>
+
+                        <div className="bg-[#2a2a2a] rounded-2xl p-5 border border-white/5 relative overflow-hidden">
+                            <div className="flex items-start justify-between">
+                                <div className="flex gap-4">
+                                    <div className="w-10 h-10 rounded-full bg-pink-600 flex items-center justify-center shadow-lg">
+                                        <Mic size={20} className="text-white" />
+                                    </div>
+                                    <div>
+                                        <h4 className="text-lg font-bold text-white">Push-to-Talk</h4>
+                                        <p className="text-xs text-gray-400 mt-1 max-w-md leading-relaxed">
+                                            Only send your voice while the talk key or the mic button is held. Useful in shared offices.
+                                        </p>
+                                    </div>
+                                </div>
+                                <button 
+                                    onClick={() => onInputSettingsChange({ mode: inputSettings.mode === 'pushToTalk' ? 'open' : 'pushToTalk' })}
+                                    className={`w-12 h-6 rounded-full transition-colors duration-300 relative ${inputSettings.mode === 'pushToTalk' ? 'bg-blue-500' : 'bg-gray-600'}`}
+                                >
+                                    <div className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform duration-300 shadow-sm ${inputSettings.mode === 'pushToTalk' ? 'left-7' : 'left-1'}`} />
+                                </button>
+                            </div>
+                            {inputSettings.mode === 'pushToTalk' && (
+                                <div className="flex items-center justify-between mt-4 pl-14">
+                                    <span className="text-xs text-gray-300">Hold to talk</span>
+                                    <HotkeyField value={inputSettings.pushToTalkKey} allowModifiers={false} onChange={(pushToTalkKey) => onInputSettingsChange({ pushToTalkKey })} />
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="bg-[#2a2a2a] rounded-2xl p-5 border border-white/5 relative overflow-hidden">
+                            <div className="flex items-center justify-between">
+                                <div className="flex gap-4">
+                                    <div className="w-10 h-10 rounded-full bg-gray-600 flex items-center justify-center shadow-lg">
+                                        <Keyboard size={20} className="text-white" />
+                                    </div>
+                                    <div>
+                                        <h4 className="text-lg font-bold text-white">Connect / Disconnect Hotkey</h4>
+                                        <p className="text-xs text-gray-400 mt-1 max-w-md leading-relaxed">
+                                            Start or end the live session from anywhere in the app.
+                                        </p>
+                                    </div>
+                                </div>
+                                <HotkeyField value={inputSettings.toggleConnectionHotkey} allowModifiers={true} onChange={(toggleConnectionHotkey) => onInputSettingsChange({ toggleConnectionHotkey })} />
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Audio Devices Section */}
+                    <div className="space-y-4">
+                        <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider ml-1">Audio Devices</h3>
+
+                        <div className="bg-[#2a2a2a] rounded-2xl p-5 border border-white/5 relative overflow-hidden">
+                            <div className="flex gap-4">
+                                <div className="w-10 h-10 rounded-full bg-teal-600 flex items-center justify-center shadow-lg flex-shrink-0">
+                                    <Headphones size={20} className="text-white" />
+                                </div>
+                                <div className="flex-1 space-y-3">
+                                    <p className="text-xs text-gray-400 leading-relaxed">
+                                        Changes apply immediately, even during a conversation.
+                                    </p>
+                                    <label className="flex items-center justify-between gap-4">
+                                        <span className="text-xs text-gray-300">Microphone</span>
+                                        <select
+                                            value={audioDevices.inputDeviceId || ''}
+                                            onChange={e => onAudioDevicesChange({ inputDeviceId: e.target.value || null })}
+                                            className="flex-1 max-w-xs bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-gray-200"
+                                        >
+                                            <option value="">System default</option>
+                                            {deviceOptions.inputs.map(d => <option key={d.deviceId} value={d.deviceId}>{d.label}</option>)}
+                                        </select>
+                                    </label>
+                                    <label className="flex items-center justify-between gap-4">
+                                        <span className="text-xs text-gray-300">Speaker</span>
+                                        <select
+                                            value={audioDevices.outputDeviceId || ''}
+                                            disabled={!canSelectOutput}
+                                            title={canSelectOutput ? undefined : 'Output selection is not supported in this browser'}
+                                            onChange={e => onAudioDevicesChange({ outputDeviceId: e.target.value || null })}
+                                            className="flex-1 max-w-xs bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-gray-200 disabled:opacity-50"
+                                        >
+                                            <option value="">System default</option>
+                                            {deviceOptions.outputs.map(d => <option key={d.deviceId} value={d.deviceId}>{d.label}</option>)}
+                                        </select>
+                                    </label>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+
                     {/* Productivity Section */}
                     <div className="space-y-4">
                         <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider ml-1">Productivity</h3>
@@ -151,6 +439,83 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, c
                         </div>
                     </div>
 
+                    {/* Storage Section */}
+                    <div className="space-y-4">
+                        <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider ml-1">Storage</h3>
+
+                        <div className="bg-[#2a2a2a] rounded-2xl p-5 border border-white/5 relative overflow-hidden">
+                            <div className="flex gap-4">
+                                <div className="w-10 h-10 rounded-full bg-cyan-600 flex items-center justify-center shadow-lg flex-shrink-0">
+                                    <Database size={20} className="text-white" />
+                                </div>
+                                <div className="flex-1 space-y-3">
+                                    <p className="text-xs text-gray-400 leading-relaxed">
+                                        Memories, chats, search history and workspace files are kept in this browser.
+                                        {storageEstimate && !storageEstimate.persisted && ' The browser may clear them when the disk runs low.'}
+                                    </p>
+                                    {storageEstimate && storageEstimate.quota > 0 ? (
+                                        <div className="space-y-1.5">
+                                            <div className="h-2 bg-black/30 rounded-full overflow-hidden">
+                                                <div
+                                                    className={`h-full rounded-full ${storageEstimate.usage / storageEstimate.quota >= STORAGE_WARN_RATIO ? 'bg-red-500' : 'bg-cyan-500'}`}
+                                                    style={{ width: `${Math.min(100, Math.max(1, (storageEstimate.usage / storageEstimate.quota) * 100))}%` }}
+                                                />
+                                            </div>
+                                            <p className="text-xs text-gray-300">
+                                                {formatFileSize(storageEstimate.usage)} of {formatFileSize(storageEstimate.quota)} used
+                                            </p>
+                                        </div>
+                                    ) : (
+                                        <p className="text-xs text-gray-500">This browser doesn't report storage usage.</p>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Your Data Section */}
+                    <div className="space-y-4">
+                        <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider ml-1">Your Data</h3>
+                        <DataSettings isSignedIn={isSignedIn} onExport={onExportData} onImport={onImportData} onDeleteAccount={onDeleteAccount} />
+                    </div>
+
+                    {/* Data Retention Section */}
+                    <div className="space-y-4">
+                        <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider ml-1">Data Retention</h3>
+
+                        <div className="bg-[#2a2a2a] rounded-2xl p-5 border border-white/5 relative overflow-hidden">
+                            <div className="flex gap-4">
+                                <div className="w-10 h-10 rounded-full bg-rose-600 flex items-center justify-center shadow-lg flex-shrink-0">
+                                    <Hourglass size={20} className="text-white" />
+                                </div>
+                                <div className="flex-1 space-y-3">
+                                    <p className="text-xs text-gray-400 leading-relaxed">
+                                        {isSignedIn
+                                            ? 'Older data is deleted from your account once a day, and from your devices on their next sync. Conversations lose their older messages, memories count from their last change.'
+                                            : 'Sign in to have older data deleted from your account automatically.'}
+                                    </p>
+                                    {RETENTION_COLLECTIONS.map(({ key, label }) => (
+                                        <label key={key} className="flex items-center justify-between gap-4">
+                                            <span className="text-xs text-gray-300">{label}</span>
+                                            <select
+                                                value={retention[key] ?? ''}
+                                                disabled={!isSignedIn}
+                                                onChange={e => onRetentionChange({ [key]: e.target.value ? Number(e.target.value) : null })}
+                                                className="w-36 bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-gray-200 disabled:opacity-50"
+                                            >
+                                                {RETENTION_OPTIONS.map(days => <option key={days ?? 'forever'} value={days ?? ''}>{formatRetention(days)}</option>)}
+                                                {/* A window set elsewhere (e.g. an imported archive) stays selectable */}
+                                                {retention[key] !== null && !RETENTION_OPTIONS.includes(retention[key]) && (
+                                                    <option value={retention[key]!}>{formatRetention(retention[key])}</option>
+                                                )}
+                                            </select>
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+
                     {/* System Section */}
                     <div className="space-y-4">
                         <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider ml-1">System</h3>
@@ -198,6 +563,28 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, c
                                 </button>
                             </div>
                         </div>
+
+                        <div className="bg-[#2a2a2a] rounded-2xl p-5 border border-white/5 relative overflow-hidden">
+                            <div className="flex items-start justify-between">
+                                <div className="flex gap-4">
+                                    <div className="w-10 h-10 rounded-full bg-rose-600 flex items-center justify-center shadow-lg">
+                                        <Camera size={20} className="text-white" />
+                                    </div>
+                                    <div>
+                                        <h4 className="text-lg font-bold text-white">Camera & Screen Sharing</h4>
+                                        <p className="text-xs text-gray-400 mt-1 max-w-md leading-relaxed">
+                                            Let Google-chan see your webcam or a shared screen during a conversation. Nothing is sent until you start sharing from the controls, then about one frame per second.
+                                        </p>
+                                    </div>
+                                </div>
+                                <button 
+                                    onClick={() => onToggle('vision')}
+                                    className={`w-12 h-6 rounded-full transition-colors duration-300 relative ${config.vision ? 'bg-blue-500' : 'bg-gray-600'}`}
+                                >
+                                    <div className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform duration-300 shadow-sm ${config.vision ? 'left-7' : 'left-1'}`} />
+                                </button>
+                            </div>
+                        </div>
                     </div>
 
                 </div>
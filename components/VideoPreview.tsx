@@ -0,0 +1,29 @@
+import React, { useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+import { VideoSource } from '../types';
+
+interface VideoPreviewProps {
+    stream: MediaStream;
+    source: VideoSource;
+    onStop: () => void;
+}
+
+// Small always-visible preview so it is obvious what is being sent to the model
+export const VideoPreview: React.FC<VideoPreviewProps> = ({ stream, source, onStop }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+
+    useEffect(() => {
+        if (videoRef.current) videoRef.current.srcObject = stream;
+    }, [stream]);
+
+    return (
+        <div className="absolute top-24 right-6 z-30 w-48 rounded-xl overflow-hidden border-2 border-red-500/80 shadow-2xl bg-black pointer-events-auto">
+            <video ref={videoRef} autoPlay muted playsInline className={`w-full h-auto block ${source === 'camera' ? '-scale-x-100' : ''}`} />
+            <div className="absolute top-1.5 left-1.5 flex items-center gap-1.5 bg-black/70 rounded-full px-2 py-0.5">
+                <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+                <span className="text-[10px] font-bold text-red-300 uppercase tracking-wider">{source === 'screen' ? 'Sharing screen' : 'Camera on'}</span>
+            </div>
+            <button onClick={onStop} title="Stop sharing" className="absolute top-1.5 right-1.5 bg-black/70 rounded-full p-1 text-white hover:text-red-400"><X size={12} /></button>
+        </div>
+    );
+};
@@ -0,0 +1,239 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ArchivedThread, ChatMessage, ChatThread, ImportMode, Page } from '../types';
+import { MAX_THREAD_TITLE_LENGTH, createThread, touchThread } from '../utils/threads';
+import { getAllRecords, getMeta, setMeta, getThreadMessages, saveThreadMessages, deleteThreadRecords, writeRecords } from '../utils/localDb';
+import { usePersistedRecords } from './usePersistedRecords';
+
+const ACTIVE_THREAD_META_KEY = 'activeThreadId';
+
+interface UseChatThreadsProps {
+    isRemote: boolean;
+    fetchThreads: (cursor?: string | null) => Promise<Page<ChatThread> | null>;
+    createThread: (thread: ChatThread) => void;
+    renameThread: (id: string, title: string) => void;
+    deleteThread: (id: string) => void;
+    fetchThreadMessages: (threadId: string, cursor?: string | null) => Promise<Page<ChatMessage> | null>;
+    saveChatMessage: (threadId: string, message: ChatMessage) => void;
+}
+
+const loadLocalMessages = async (threadId: string): Promise<ChatMessage[]> => {
+    try {
+        return await getThreadMessages(threadId);
+    } catch (e) {
+        console.error("[LocalDb] Loading messages failed", e);
+        return [];
+    }
+};
+
+const byRecent = (threads: ChatThread[]) => [...threads].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+// Named conversations: messages go to the active thread, the drawer can browse any thread
+export const useChatThreads = ({ isRemote, fetchThreads, createThread: createThreadApi, renameThread: renameThreadApi, deleteThread: deleteThreadApi, fetchThreadMessages, saveChatMessage }: UseChatThreadsProps) => {
+    const [threads, setThreads] = useState<ChatThread[]>([]);
+    const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+    const [viewedThreadId, setViewedThreadId] = useState<string | null>(null);
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+    // Backend cursors for the next (older) page; null when everything is loaded or we are offline
+    const [messagesCursor, setMessagesCursor] = useState<string | null>(null);
+    const [threadsCursor, setThreadsCursor] = useState<string | null>(null);
+    const loadingRef = useRef({ messages: false, threads: false });
+
+    // Message callbacks outlive renders (the live session holds on to them)
+    const threadsRef = useRef(threads);
+    threadsRef.current = threads;
+    const activeThreadIdRef = useRef(activeThreadId);
+    activeThreadIdRef.current = activeThreadId;
+    const viewedThreadIdRef = useRef(viewedThreadId);
+    viewedThreadIdRef.current = viewedThreadId;
+
+    usePersistedRecords('chat_threads', threads, isLoaded);
+    useEffect(() => {
+        if (isLoaded) setMeta(ACTIVE_THREAD_META_KEY, activeThreadId).catch(e => console.error("[LocalDb] Saving active thread failed", e));
+    }, [activeThreadId, isLoaded]);
+
+    const loadThread = useCallback(async (threadId: string): Promise<ChatMessage[]> => {
+        viewedThreadIdRef.current = threadId;
+        setViewedThreadId(threadId);
+        setMessagesCursor(null);
+        const local = await loadLocalMessages(threadId);
+        if (viewedThreadIdRef.current !== threadId) return local;
+        setMessages(local);
+        if (!isRemote) return local;
+        const page = await fetchThreadMessages(threadId);
+        if (!page || viewedThreadIdRef.current !== threadId) return local;
+        setMessages(page.items);
+        setMessagesCursor(page.nextCursor);
+        saveThreadMessages(threadId, page.items).catch(e => console.error("[LocalDb] Saving messages failed", e));
+        return page.items;
+    }, [isRemote, fetchThreadMessages]);
+
+    const loadLocalThreads = useCallback(async () => {
+        const [stored, storedActiveId] = await Promise.all([getAllRecords<ChatThread>('chat_threads'), getMeta<string | null>(ACTIVE_THREAD_META_KEY)]);
+        const active = storedActiveId && stored.some(t => t.id === storedActiveId) ? storedActiveId : null;
+        threadsRef.current = byRecent(stored);
+        activeThreadIdRef.current = active;
+        setThreads(threadsRef.current);
+        setActiveThreadId(active);
+        if (active) loadThread(active);
+        else { setViewedThreadId(null); setMessages([]); setMessagesCursor(null); }
+    }, [loadThread]);
+
+    // Threads and the active thread come from IndexedDB; until then the lists are empty
+    useEffect(() => {
+        loadLocalThreads()
+            .catch(e => console.error("[LocalDb] Loading threads failed", e))
+            .finally(() => setIsLoaded(true));
+    }, []);
+
+    // The backend list includes threads started on other devices
+    const loadRemoteThreads = useCallback(() =>
+        fetchThreads().then(page => {
+            if (!page) return;
+            const remote = page.items;
+            setThreads(remote);
+            setThreadsCursor(page.nextCursor);
+            const current = activeThreadIdRef.current;
+            // The active thread may be older than the first page; keep it if this device knows it
+            const known = current ? threadsRef.current.find(t => t.id === current) : undefined;
+            if (known && !remote.some(t => t.id === known.id)) setThreads([...remote, known]);
+            const nextActive = known ? known.id : remote[0]?.id || null;
+            setActiveThreadId(nextActive);
+            if (nextActive) loadThread(nextActive);
+            else { setViewedThreadId(null); setMessages([]); setMessagesCursor(null); }
+        }),
+    [fetchThreads, loadThread]);
+
+    useEffect(() => {
+        if (isRemote && isLoaded) loadRemoteThreads();
+    }, [isRemote, isLoaded, loadRemoteThreads]);
+
+    // Re-reads the thread list after something outside this hook changed it (e.g. an import)
+    const reload = useCallback(() => isRemote ? loadRemoteThreads() : loadLocalThreads(), [isRemote, loadRemoteThreads, loadLocalThreads]);
+
+    // Signed-out import of archived threads. Merging adds the messages a thread doesn't have yet;
+    // replacing overwrites the thread and drops the threads listed in `remove`.
+    const importThreads = useCallback(async (archived: ArchivedThread[], remove: string[], mode: ImportMode) => {
+        await Promise.all(remove.map(deleteThreadRecords));
+        for (const { messages: incoming, ...thread } of archived) {
+            const stored = mode === 'merge' ? threadsRef.current.find(t => t.id === thread.id) : undefined;
+            if (mode === 'replace') await deleteThreadRecords(thread.id);
+            const existing = stored ? await getThreadMessages(thread.id) : [];
+            const known = new Set(existing.map(m => m.id));
+            const added = incoming.filter(m => !known.has(m.id));
+            const merged: ChatThread = stored ? {
+                ...stored,
+                title: stored.title || thread.title,
+                preview: stored.preview || thread.preview,
+                messageCount: existing.length + added.length,
+                updatedAt: new Date(Math.max(stored.updatedAt.getTime(), ...added.map(m => m.timestamp.getTime())))
+            } : { ...thread, messageCount: incoming.length };
+            await writeRecords('chat_threads', [merged]);
+            await saveThreadMessages(thread.id, added);
+        }
+        await loadLocalThreads();
+    }, [loadLocalThreads]);
+
+    const loadEarlier = useCallback(async () => {
+        const threadId = viewedThreadIdRef.current;
+        if (!threadId || !messagesCursor || loadingRef.current.messages) return;
+        loadingRef.current.messages = true;
+        try {
+            const page = await fetchThreadMessages(threadId, messagesCursor);
+            if (!page || viewedThreadIdRef.current !== threadId) return;
+            setMessages(prev => [...page.items, ...prev]);
+            setMessagesCursor(page.nextCursor);
+        } finally {
+            loadingRef.current.messages = false;
+        }
+    }, [fetchThreadMessages, messagesCursor]);
+
+    const loadMoreThreads = useCallback(async () => {
+        if (!threadsCursor || loadingRef.current.threads) return;
+        loadingRef.current.threads = true;
+        try {
+            const page = await fetchThreads(threadsCursor);
+            if (!page) return;
+            setThreads(prev => [...prev, ...page.items.filter(t => !prev.some(p => p.id === t.id))]);
+            setThreadsCursor(page.nextCursor);
+        } finally {
+            loadingRef.current.threads = false;
+        }
+    }, [fetchThreads, threadsCursor]);
+
+    // An empty active thread is reused, so reconnecting without talking doesn't pile up threads
+    const startThread = useCallback((): ChatThread => {
+        const active = threadsRef.current.find(t => t.id === activeThreadIdRef.current);
+        if (active && active.messageCount === 0) return active;
+        const thread = createThread();
+        threadsRef.current = [thread, ...threadsRef.current];
+        activeThreadIdRef.current = thread.id;
+        viewedThreadIdRef.current = thread.id;
+        setThreads(threadsRef.current);
+        setActiveThreadId(thread.id);
+        setViewedThreadId(thread.id);
+        setMessages([]);
+        setMessagesCursor(null);
+        if (isRemote) createThreadApi(thread);
+        return thread;
+    }, [isRemote, createThreadApi]);
+
+    const appendMessage = useCallback((message: ChatMessage) => {
+        const threadId = activeThreadIdRef.current || startThread().id;
+        const stored = { ...message, threadId };
+        saveThreadMessages(threadId, [stored]).catch(e => console.error("[LocalDb] Saving message failed", e));
+        threadsRef.current = byRecent(threadsRef.current.map(t => t.id === threadId ? touchThread(t, stored) : t));
+        setThreads(threadsRef.current);
+        if (viewedThreadIdRef.current === threadId) setMessages(prev => [...prev, stored]);
+        if (isRemote) saveChatMessage(threadId, stored);
+    }, [startThread, isRemote, saveChatMessage]);
+
+    // Makes a past thread the active one and returns its latest messages to seed the next session
+    const resumeThread = useCallback(async (threadId: string): Promise<ChatMessage[]> => {
+        setActiveThreadId(threadId);
+        activeThreadIdRef.current = threadId;
+        return loadThread(threadId);
+    }, [loadThread]);
+
+    const renameThread = useCallback((id: string, title: string) => {
+        const trimmed = title.trim().slice(0, MAX_THREAD_TITLE_LENGTH);
+        setThreads(prev => prev.map(t => t.id === id ? { ...t, title: trimmed } : t));
+        if (isRemote) renameThreadApi(id, trimmed);
+    }, [isRemote, renameThreadApi]);
+
+    const deleteThread = useCallback((id: string) => {
+        const remaining = threadsRef.current.filter(t => t.id !== id);
+        setThreads(remaining);
+        deleteThreadRecords(id).catch(e => console.error("[LocalDb] Deleting thread failed", e));
+        if (activeThreadIdRef.current === id) {
+            // The next message starts a fresh thread
+            activeThreadIdRef.current = null;
+            setActiveThreadId(null);
+        }
+        if (viewedThreadIdRef.current === id) {
+            const next = activeThreadIdRef.current || remaining[0]?.id;
+            if (next) loadThread(next);
+            else { setViewedThreadId(null); setMessages([]); setMessagesCursor(null); }
+        }
+        if (isRemote) deleteThreadApi(id);
+    }, [isRemote, deleteThreadApi, loadThread]);
+
+    return {
+        threads,
+        activeThreadId,
+        viewedThreadId,
+        messages,
+        hasMore: messagesCursor !== null,
+        hasMoreThreads: threadsCursor !== null,
+        viewThread: loadThread,
+        loadEarlier,
+        loadMoreThreads,
+        startThread,
+        appendMessage,
+        resumeThread,
+        renameThread,
+        deleteThread,
+        reload,
+        importThreads
+    };
+};
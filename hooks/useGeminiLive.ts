@@ -1,8 +1,26 @@
 
-import { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Type, FunctionDeclaration } from '@google/genai';
-import { ConnectionState, GroundingMetadata, WorkspaceFile, IntegrationsConfig, ChatMessage } from '../types';
-import { base64ToBytes, decodeAudioData, createPcmBlob } from '../utils/audioUtils';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { GoogleGenAI, LiveServerMessage, Modality, Blob } from '@google/genai';
+import { ConnectionState, DriveFile, GroundingMetadata, WorkspaceFile, IntegrationsConfig, ChatMessage, Memory, MemoryDetails, MemoryUpdate, PersonaProfile, ModelSettings, VideoSource, UsageTotals } from '../types';
+import { base64ToBytes, decodeAudioData } from '../utils/audioUtils';
+import { createAudioCapture, AudioCapture } from '../utils/audioCapture';
+import { createVoiceActivityDetector, VoiceActivityDetector, VadConfig } from '../utils/voiceActivity';
+import { getMicrophoneStream, stopStream, applyOutputDevice } from '../utils/audioDevices';
+import { createVideoCapture, VideoCapture } from '../utils/videoCapture';
+import { PendingAttachment } from '../utils/attachments';
+import { EMPTY_USAGE, addUsage, isEmptyUsage, usageFromMetadata, pcmBase64Seconds } from '../utils/usage';
+import { DEFAULT_PERSONA } from '../utils/personas';
+import { buildSystemInstruction } from '../utils/systemInstruction';
+import { DEFAULT_MODEL_SETTINGS, SUMMARY_MODEL } from '../utils/models';
+import { createContextManager, estimateTokens, ContextConfig, ContextManager, ContextSnapshot, Summarizer, DEFAULT_CONTEXT_CONFIG } from '../utils/contextManager';
+import { createToolRegistry, defaultTools, LiveTool, ToolContext } from '../tools';
+import { getReconnectDelay, RECONNECT_MAX_ATTEMPTS } from '../utils/sessionResume';
+import { getMeta, setMeta } from '../utils/localDb';
+
+// Mic frames buffered while gated, flushed when barge-in triggers
+const PRE_ROLL_FRAMES = 2;
+
+const CONTEXT_META_KEY = 'conversationContext';
 
 export interface LogEntry {
     time: string;
@@ -12,12 +30,14 @@ export interface LogEntry {
 }
 
 export interface UseGeminiLiveProps {
-    onNoteRemembered?: (note: string) => void;
+    onNoteRemembered?: (note: string, details?: MemoryDetails) => void;
+    onMemoryUpdated?: (id: string, update: MemoryUpdate) => Promise<Memory | null>; // Backs the updateMemory tool
+    recallMemories?: (query: string, limit: number) => Promise<Memory[]>; // Backs the recallMemories tool
     onFileSaved?: (fileName: string, content: string) => void;
     onPlayMusic?: (val: string, type: 'id' | 'query') => void;
     onChatUpdate?: (message: ChatMessage) => void;
     onExpressionChange?: (expression: string) => void;
-    searchDriveFiles?: (query: string) => Promise<any[]>;
+    searchDriveFiles?: (query: string) => Promise<DriveFile[]>;
     readDriveFile?: (fileId: string) => Promise<string | null>;
     getTaskLists?: () => Promise<any[]>;
     getTasks?: (listId?: string) => Promise<any[]>;
@@ -27,14 +47,36 @@ export interface UseGeminiLiveProps {
     customSearchCx: string;
     isMusicPlaying: boolean;
     apiKey: string | null; // New prop for dynamic API Key
+    extraTools?: LiveTool[]; // Host-specific tools, registered after (and able to override) the built-ins
+    captureFrameSize?: number; // Mic samples per realtime chunk (default 4096)
+    vadConfig?: Partial<VadConfig>; // Tuning for local barge-in detection
+    pushToTalk?: boolean; // Only forward mic audio between startTalking() and stopTalking()
+    inputDeviceId?: string | null; // null = system default; changes are applied mid-session
+    outputDeviceId?: string | null;
+    persona?: PersonaProfile; // Identity, voice and language; read when a session opens
+    modelSettings?: ModelSettings; // Expected to be pre-validated (utils/models validateModelSettings)
+    videoFrameIntervalMs?: number; // Throttle for camera / screen frames (default 1000)
+    onUsage?: (delta: UsageTotals) => void; // Called once per completed turn (and on disconnect) with that turn's usage
+    contextConfig?: Partial<ContextConfig>; // Instruction budget and summary thresholds; read on mount
 }
 
 export interface UseGeminiLiveReturn {
     connectionState: ConnectionState;
     connect: (initialMemories?: string[], initialFiles?: WorkspaceFile[]) => Promise<void>;
     disconnect: () => Promise<void>;
-    sendTextMessage: (text: string) => void;
+    sendTextMessage: (text: string, attachments?: PendingAttachment[]) => void;
+    resetContext: () => void; // Forget the running conversation summary (e.g. when a new thread starts)
+    loadContext: (messages: ChatMessage[]) => void; // Replace the context with a past thread's messages
+    startTalking: () => void;
+    stopTalking: () => void;
+    isTalking: boolean;
+    startVideo: (source: VideoSource) => Promise<void>;
+    stopVideo: () => void;
+    videoSource: VideoSource | null;
+    videoStream: MediaStream | null; // For the local preview
     isSpeaking: boolean;
+    sessionUsage: UsageTotals;
+    lastTurnUsage: UsageTotals | null;
     volume: number;
     groundingMetadata: GroundingMetadata | null;
     audioAnalyser: AnalyserNode | null;
@@ -44,6 +86,8 @@ export interface UseGeminiLiveReturn {
 
 export const useGeminiLive = ({ 
     onNoteRemembered, 
+    onMemoryUpdated,
+    recallMemories,
     onFileSaved, 
     onPlayMusic,
     onChatUpdate,
@@ -57,7 +101,18 @@ export const useGeminiLive = ({
     accessToken, 
     customSearchCx,
     isMusicPlaying,
-    apiKey
+    apiKey,
+    extraTools,
+    captureFrameSize,
+    vadConfig,
+    pushToTalk = false,
+    inputDeviceId = null,
+    outputDeviceId = null,
+    persona = DEFAULT_PERSONA,
+    modelSettings = DEFAULT_MODEL_SETTINGS,
+    videoFrameIntervalMs,
+    onUsage,
+    contextConfig
 }: UseGeminiLiveProps): UseGeminiLiveReturn => {
     const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
     const [isSpeaking, setIsSpeaking] = useState(false);
@@ -65,12 +120,23 @@ export const useGeminiLive = ({
     const [groundingMetadata, setGroundingMetadata] = useState<GroundingMetadata | null>(null);
     const [logs, setLogs] = useState<LogEntry[]>([]);
     const [userLocation, setUserLocation] = useState<string | null>(null);
+    const [isTalking, setIsTalking] = useState(false);
+    const [videoSource, setVideoSource] = useState<VideoSource | null>(null);
+    const [videoStream, setVideoStream] = useState<MediaStream | null>(null);
+    const [sessionUsage, setSessionUsage] = useState<UsageTotals>(EMPTY_USAGE);
+    const [lastTurnUsage, setLastTurnUsage] = useState<UsageTotals | null>(null);
+
+    const toolRegistry = useMemo(() => createToolRegistry([...defaultTools, ...(extraTools || [])]), [extraTools]);
     
     // Audio Contexts
     const inputAudioContextRef = useRef<AudioContext | null>(null);
     const outputAudioContextRef = useRef<AudioContext | null>(null);
     const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-    const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+    const mediaStreamRef = useRef<MediaStream | null>(null);
+    const micAnalyserRef = useRef<AnalyserNode | null>(null);
+    const micFrameHandlerRef = useRef<((pcmBlob: Blob) => void) | null>(null);
+    const inputDeviceIdRef = useRef<string | null>(inputDeviceId);
+    const audioCaptureRef = useRef<AudioCapture | null>(null);
     const activeSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
     const audioAnalyserRef = useRef<AnalyserNode | null>(null);
     
@@ -78,6 +144,21 @@ export const useGeminiLive = ({
     const isSpeakingRef = useRef<boolean>(false);
     const isMusicPlayingRef = useRef<boolean>(false);
     const lastSpeechEndTimeRef = useRef<number>(0);
+
+    // Barge-in
+    const vadRef = useRef<VoiceActivityDetector | null>(null);
+    const preRollRef = useRef<Blob[]>([]);
+    const isBargingInRef = useRef<boolean>(false);
+
+    // Push-to-talk
+    const isPushToTalkRef = useRef<boolean>(pushToTalk);
+    const isTalkingRef = useRef<boolean>(false);
+    // Push-to-talk sessions turn off server VAD and mark each turn with activityStart/activityEnd instead
+    const manualActivityRef = useRef<boolean>(false);
+    const restartSessionRef = useRef<((reason: string) => void) | null>(null);
+
+    // Video
+    const videoCaptureRef = useRef<VideoCapture | null>(null);
     
     // Timing
     const nextStartTimeRef = useRef<number>(0);
@@ -85,13 +166,31 @@ export const useGeminiLive = ({
     // Session
     const sessionPromiseRef = useRef<Promise<any> | null>(null);
     const cleanUpRef = useRef<(() => void) | null>(null);
+
+    // Reconnect / Resumption
+    const isClosingRef = useRef<boolean>(false);
+    const sessionGenerationRef = useRef<number>(0);
+    const reconnectAttemptRef = useRef<number>(0);
+    const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const resumeHandleRef = useRef<string | null>(null);
+
+    // Conversation context carried across reconnects and sessions
+    const contextRef = useRef<ContextManager | null>(null);
+    if (!contextRef.current) contextRef.current = createContextManager(contextConfig);
+    // Set once the context changes here; a snapshot read after that is stale
+    const contextTouchedRef = useRef(false);
+    const summarizerRef = useRef<Summarizer | null>(null);
     
+    // Usage accumulated since the last completed turn
+    const pendingUsageRef = useRef<UsageTotals>({ ...EMPTY_USAGE });
+
     // Transcription Accumulators
     const currentInputTranscriptRef = useRef<string>("");
     const currentOutputTranscriptRef = useRef<string>("");
     
     // References to dynamic data
     const filesRef = useRef<WorkspaceFile[]>([]);
+    const memoriesRef = useRef<string[]>([]);
 
     // Sync refs
     useEffect(() => {
@@ -102,6 +201,12 @@ export const useGeminiLive = ({
         isMusicPlayingRef.current = isMusicPlaying;
     }, [isMusicPlaying]);
 
+    // Activity detection is part of the session config, so switching modes reopens the session
+    useEffect(() => {
+        isPushToTalkRef.current = pushToTalk;
+        if (sessionPromiseRef.current && manualActivityRef.current !== pushToTalk) restartSessionRef.current?.('Input mode changed');
+    }, [pushToTalk]);
+
     // Get Location on Init
     useEffect(() => {
         if ("geolocation" in navigator) {
@@ -128,31 +233,222 @@ export const useGeminiLive = ({
 
     const clearLogs = useCallback(() => setLogs([]), []);
 
-    const cleanup = useCallback(async () => {
-        if (cleanUpRef.current) {
-            cleanUpRef.current();
-            cleanUpRef.current = null;
+    // The previous conversation's context, restored unless this one already started its own
+    useEffect(() => {
+        getMeta<ContextSnapshot>(CONTEXT_META_KEY).then(stored => {
+            if (stored && !contextTouchedRef.current) contextRef.current = createContextManager(contextConfig, stored);
+        }).catch(e => console.error("[LocalDb] Loading conversation context failed", e));
+    }, []);
+
+    const saveContext = useCallback(() => {
+        contextTouchedRef.current = true;
+        setMeta(CONTEXT_META_KEY, contextRef.current!.snapshot()).catch(e => console.error("[LocalDb] Saving conversation context failed", e));
+    }, []);
+
+    // Every message the hook reports also feeds the context manager, which summarizes older turns as the conversation grows
+    const emitChatMessage = useCallback((message: ChatMessage) => {
+        const context = contextRef.current!;
+        context.add(message);
+        saveContext();
+        if (summarizerRef.current) {
+            context.compact(summarizerRef.current)
+                .then(compacted => {
+                    if (!compacted) return;
+                    saveContext();
+                    addLog('info', 'Older turns folded into the conversation summary', context.snapshot().summary);
+                })
+                .catch(e => addLog('error', `Conversation summary failed: ${e.message}`));
         }
+        if (onChatUpdate) onChatUpdate(message);
+    }, [onChatUpdate, saveContext, addLog]);
 
-        // Stop input
-        if (scriptProcessorRef.current) {
-            scriptProcessorRef.current.disconnect();
-            scriptProcessorRef.current = null;
+    const resetContext = useCallback(() => {
+        contextRef.current!.reset();
+        contextTouchedRef.current = true;
+        setMeta(CONTEXT_META_KEY, null).catch(e => console.error("[LocalDb] Clearing conversation context failed", e));
+    }, []);
+
+    // Older turns are folded into the summary by the next compaction once a session is running
+    const loadContext = useCallback((messages: ChatMessage[]) => {
+        const context = contextRef.current!;
+        context.reset();
+        messages.forEach(m => context.add(m));
+        saveContext();
+    }, [saveContext]);
+
+    const recordUsage = useCallback((delta: Partial<UsageTotals>) => {
+        pendingUsageRef.current = addUsage(pendingUsageRef.current, delta);
+    }, []);
+
+    const flushUsage = useCallback(() => {
+        const delta = pendingUsageRef.current;
+        if (isEmptyUsage(delta)) return;
+        pendingUsageRef.current = { ...EMPTY_USAGE };
+        setSessionUsage(prev => addUsage(prev, delta));
+        setLastTurnUsage(delta);
+        if (onUsage) onUsage(delta);
+    }, [onUsage]);
+
+    const stopPlayback = useCallback(() => {
+        activeSourcesRef.current.forEach(source => {
+            try { source.stop(); } catch (e) {}
+        });
+        activeSourcesRef.current.clear();
+        setIsSpeaking(false);
+        nextStartTimeRef.current = outputAudioContextRef.current?.currentTime || 0;
+    }, []);
+
+    const detachMicrophone = useCallback(() => {
+        if (audioCaptureRef.current) {
+            audioCaptureRef.current.stop();
+            audioCaptureRef.current = null;
         }
         if (inputSourceRef.current) {
             inputSourceRef.current.disconnect();
             inputSourceRef.current = null;
         }
+        if (mediaStreamRef.current) {
+            // Clear first so the track's onended doesn't trigger a re-attach
+            const stream = mediaStreamRef.current;
+            mediaStreamRef.current = null;
+            stopStream(stream);
+        }
+    }, []);
+
+    // (Re)wires a mic into the capture pipeline. Mid-session swaps leave the Gemini session untouched.
+    const attachMicrophone = useCallback(async (deviceId: string | null) => {
+        const ctx = inputAudioContextRef.current;
+        if (!ctx) return;
+        const stream = await getMicrophoneStream(deviceId);
+        // The session may have ended while waiting on getUserMedia
+        if (inputAudioContextRef.current !== ctx) { stopStream(stream); return; }
+
+        detachMicrophone();
+        const source = ctx.createMediaStreamSource(stream);
+        mediaStreamRef.current = stream;
+        inputSourceRef.current = source;
+        if (micAnalyserRef.current) source.connect(micAnalyserRef.current);
+
+        // Float32 -> Int16 -> base64 happens in an AudioWorklet where supported
+        const capture = await createAudioCapture(ctx, source, {
+            frameSize: captureFrameSize,
+            onFrame: (pcmBlob) => micFrameHandlerRef.current?.(pcmBlob)
+        });
+        audioCaptureRef.current = capture;
+
+        const track = stream.getAudioTracks()[0];
+        if (track) {
+            // Unplugged mid-session: fall back to the default input
+            track.onended = () => {
+                if (mediaStreamRef.current !== stream) return;
+                addLog('error', `Microphone disconnected: ${track.label || 'unknown device'}`);
+                attachMicrophone(null).catch(e => addLog('error', `Failed to reopen microphone: ${e.message}`));
+            };
+        }
+        addLog('info', `Microphone attached: ${track?.label || 'default'} (${capture.mode})`);
+    }, [addLog, captureFrameSize, detachMicrophone]);
+
+    // Device changes while connected are hot-swapped; otherwise they apply on the next connect
+    useEffect(() => {
+        if (inputDeviceIdRef.current === inputDeviceId) return;
+        inputDeviceIdRef.current = inputDeviceId;
+        if (!audioCaptureRef.current) return;
+        attachMicrophone(inputDeviceId).catch(e => addLog('error', `Failed to switch microphone: ${e.message}`));
+    }, [inputDeviceId, attachMicrophone, addLog]);
+
+    useEffect(() => {
+        const ctx = outputAudioContextRef.current;
+        if (!ctx) return;
+        applyOutputDevice(ctx, outputDeviceId)
+            .then(applied => { if (applied) addLog('info', `Speaker switched to ${outputDeviceId || 'default'}`); })
+            .catch(e => addLog('error', `Failed to switch speaker: ${e.message}`));
+    }, [outputDeviceId, addLog]);
+
+    const stopVideo = useCallback(() => {
+        if (!videoCaptureRef.current) return;
+        videoCaptureRef.current.stop();
+        videoCaptureRef.current = null;
+        setVideoSource(null);
+        setVideoStream(null);
+        addLog('info', 'Video input stopped');
+    }, [addLog]);
+
+    const startVideo = useCallback(async (source: VideoSource) => {
+        if (!integrationsConfig.vision) {
+            addLog('error', 'Video input is disabled in settings');
+            return;
+        }
+        if (!sessionPromiseRef.current) {
+            addLog('error', 'Cannot start video: Session not connected');
+            return;
+        }
+        stopVideo();
+        try {
+            const capture = await createVideoCapture(source, {
+                intervalMs: videoFrameIntervalMs,
+                // Frames are dropped while reconnecting rather than queued
+                onFrame: (frame) => sessionPromiseRef.current?.then(session => session.sendRealtimeInput({ media: frame })).catch(() => {}),
+                onEnded: () => {
+                    if (videoCaptureRef.current !== capture) return;
+                    videoCaptureRef.current = null;
+                    setVideoSource(null);
+                    setVideoStream(null);
+                    addLog('info', `${source === 'screen' ? 'Screen sharing' : 'Camera'} ended`);
+                }
+            });
+            // The session may have ended while the permission prompt was open
+            if (!sessionPromiseRef.current) { capture.stop(); return; }
+            videoCaptureRef.current = capture;
+            setVideoSource(source);
+            setVideoStream(capture.stream);
+            addLog('info', `Video input started: ${source}`);
+        } catch (e: any) {
+            addLog('error', `Failed to start ${source}: ${e.message}`);
+        }
+    }, [integrationsConfig.vision, videoFrameIntervalMs, stopVideo, addLog]);
+
+    // Turning the integration off stops any running capture
+    useEffect(() => {
+        if (!integrationsConfig.vision) stopVideo();
+    }, [integrationsConfig.vision, stopVideo]);
+
+    const cleanup = useCallback(async () => {
+        isClosingRef.current = true;
+        sessionGenerationRef.current++;
+        if (reconnectTimerRef.current) {
+            clearTimeout(reconnectTimerRef.current);
+            reconnectTimerRef.current = null;
+        }
+        const session = sessionPromiseRef.current;
+        sessionPromiseRef.current = null;
+        restartSessionRef.current = null;
+        session?.then(s => s.close()).catch(() => {});
+
+        if (cleanUpRef.current) {
+            cleanUpRef.current();
+            cleanUpRef.current = null;
+        }
+
+        // Report whatever the interrupted turn used
+        flushUsage();
+
+        // Stop input
+        stopVideo();
+        detachMicrophone();
+        micFrameHandlerRef.current = null;
+        micAnalyserRef.current = null;
+        vadRef.current = null;
+        preRollRef.current = [];
+        isBargingInRef.current = false;
+        isTalkingRef.current = false;
+        setIsTalking(false);
         if (inputAudioContextRef.current) {
             await inputAudioContextRef.current.close();
             inputAudioContextRef.current = null;
         }
 
         // Stop output
-        activeSourcesRef.current.forEach(source => {
-            try { source.stop(); } catch (e) {}
-        });
-        activeSourcesRef.current.clear();
+        stopPlayback();
         
         if (outputAudioContextRef.current) {
             await outputAudioContextRef.current.close();
@@ -161,21 +457,28 @@ export const useGeminiLive = ({
         
         audioAnalyserRef.current = null;
         
-        setIsSpeaking(false);
         setVolume(0);
         setConnectionState(ConnectionState.DISCONNECTED);
-        sessionPromiseRef.current = null;
+        reconnectAttemptRef.current = 0;
+        resumeHandleRef.current = null;
         addLog('info', 'Session disconnected and cleaned up');
-    }, [addLog]);
+    }, [addLog, stopPlayback, detachMicrophone, stopVideo, flushUsage]);
 
     const disconnect = useCallback(async () => {
        await cleanup();
     }, [cleanup]);
 
     const connect = useCallback(async (initialMemories: string[] = [], initialFiles: WorkspaceFile[] = []) => {
-        if (connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.CONNECTING) return;
+        if (connectionState !== ConnectionState.DISCONNECTED && connectionState !== ConnectionState.ERROR) return;
         
+        isClosingRef.current = false;
         filesRef.current = initialFiles;
+        memoriesRef.current = initialMemories;
+        reconnectAttemptRef.current = 0;
+        resumeHandleRef.current = null;
+        pendingUsageRef.current = { ...EMPTY_USAGE };
+        setSessionUsage(EMPTY_USAGE);
+        setLastTurnUsage(null);
         setConnectionState(ConnectionState.CONNECTING);
         addLog('info', 'Initializing connection...');
 
@@ -184,6 +487,9 @@ export const useGeminiLive = ({
             inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
             const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
             outputAudioContextRef.current = outputCtx;
+            if (outputDeviceId) {
+                await applyOutputDevice(outputCtx, outputDeviceId).catch(e => addLog('error', `Could not select speaker: ${e.message}`));
+            }
             
             // Initialize Analyser
             const analyser = outputCtx.createAnalyser();
@@ -197,330 +503,347 @@ export const useGeminiLive = ({
                 throw new Error("No API Key provided");
             }
             const ai = new GoogleGenAI({ apiKey: effectiveApiKey });
+            // Summaries go through a separate text call so they never interrupt the live conversation
+            summarizerRef.current = async (prompt) => {
+                const response = await ai.models.generateContent({ model: SUMMARY_MODEL, contents: prompt });
+                return response.text || "";
+            };
             
-            // Get Microphone Stream with Echo Cancellation
-            const stream = await navigator.mediaDevices.getUserMedia({ 
-                audio: {
-                    echoCancellation: true,
-                    noiseSuppression: true,
-                    autoGainControl: true
-                } 
-            });
-            addLog('info', 'Microphone access granted');
-            
-            // Setup Input Pipeline
-            const source = inputAudioContextRef.current.createMediaStreamSource(stream);
-            inputSourceRef.current = source;
-            
-            const processor = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
-            scriptProcessorRef.current = processor;
-            
-            processor.onaudioprocess = (e) => {
+            // Local VAD compares the mic against what the speakers are playing
+            const micAnalyser = inputAudioContextRef.current.createAnalyser();
+            micAnalyser.fftSize = 1024;
+            micAnalyserRef.current = micAnalyser;
+            const referenceAnalyser = outputCtx.createAnalyser();
+            referenceAnalyser.fftSize = 1024;
+            referenceAnalyser.smoothingTimeConstant = 0;
+            analyser.connect(referenceAnalyser);
+            const vad = createVoiceActivityDetector(micAnalyser, referenceAnalyser, vadConfig);
+            vadRef.current = vad;
+            const bargeInEnabled = vadConfig?.bargeIn ?? true;
+
+            // Set by openSession for the session it opens
+            let loseCurrentSession = (reason: string) => {};
+
+            // A failed send means the connection is gone: recover like a dropped connection, once per session
+            const sendToSession = (send: (session: any) => void, what: string) => {
+                const pending = sessionPromiseRef.current;
+                if (!pending) return;
+                pending.then(send).catch((err: any) => {
+                    if (sessionPromiseRef.current === pending) loseCurrentSession(`${what} failed: ${err?.message || err}`);
+                });
+            };
+
+            const sendAudio = (pcmBlob: Blob) => {
+                if (!sessionPromiseRef.current) return;
+                recordUsage({ inputAudioSeconds: pcmBase64Seconds(pcmBlob.data || '', 16000) });
+                sendToSession(session => session.sendRealtimeInput({ media: pcmBlob }), 'Sending audio');
+            };
+
+            micFrameHandlerRef.current = (pcmBlob: Blob) => {
                 if (isMusicPlayingRef.current) return;
-                if (isSpeakingRef.current) return;
-                
-                const now = Date.now();
-                if (now - lastSpeechEndTimeRef.current < 700) return;
-
-                const inputData = e.inputBuffer.getChannelData(0);
-                const pcmBlob = createPcmBlob(inputData);
-                
-                if (sessionPromiseRef.current) {
-                    sessionPromiseRef.current.then(session => {
-                         session.sendRealtimeInput({ media: pcmBlob });
-                    });
+
+                // Holding the talk key is explicit intent, so it bypasses VAD (pressing it interrupts her, see startTalking)
+                if (isPushToTalkRef.current) {
+                    if (isTalkingRef.current) sendAudio(pcmBlob);
+                    return;
+                }
+
+                // While she is audible (plus a short echo tail) only real user speech gets through
+                const modelAudible = isSpeakingRef.current || Date.now() - lastSpeechEndTimeRef.current < 700;
+                if (!modelAudible) {
+                    vad.process(false);
+                    preRollRef.current = [];
+                    isBargingInRef.current = false;
+                    sendAudio(pcmBlob);
+                    return;
+                }
+
+                if (!bargeInEnabled || !vad.process(true)) {
+                    // Keep the frames leading up to a detection so the first syllables aren't lost
+                    preRollRef.current = [...preRollRef.current, pcmBlob].slice(-PRE_ROLL_FRAMES);
+                    isBargingInRef.current = false;
+                    return;
+                }
+
+                if (!isBargingInRef.current) {
+                    isBargingInRef.current = true;
+                    addLog('info', 'Barge-in: user speech detected while model is speaking', vad.lastFrame());
+                    preRollRef.current.forEach(sendAudio);
+                    preRollRef.current = [];
                 }
+                sendAudio(pcmBlob);
             };
 
-            source.connect(processor);
-            processor.connect(inputAudioContextRef.current.destination);
-
-            // --- Tool Definitions ---
-            const rememberNoteFunction: FunctionDeclaration = { name: "rememberNote", description: "Save a short note or memory.", parameters: { type: Type.OBJECT, properties: { note: { type: Type.STRING } }, required: ["note"] } };
-            const saveToWorkspaceFunction: FunctionDeclaration = { name: "saveToWorkspace", description: "Save generated content.", parameters: { type: Type.OBJECT, properties: { fileName: { type: Type.STRING }, content: { type: Type.STRING } }, required: ["fileName", "content"] } };
-            const searchGoogleDriveFunction: FunctionDeclaration = { name: "searchGoogleDrive", description: "Search Drive files.", parameters: { type: Type.OBJECT, properties: { query: { type: Type.STRING } }, required: ["query"] } };
-            const readGoogleDriveFileFunction: FunctionDeclaration = { name: "readGoogleDriveFile", description: "Read Drive file.", parameters: { type: Type.OBJECT, properties: { fileId: { type: Type.STRING } }, required: ["fileId"] } };
-            const listTaskListsFunction: FunctionDeclaration = { name: "listTaskLists", description: "Get task lists.", parameters: { type: Type.OBJECT, properties: {} } };
-            const listTasksFunction: FunctionDeclaration = { name: "listTasks", description: "Get tasks.", parameters: { type: Type.OBJECT, properties: { listId: { type: Type.STRING } } } };
-            const addTaskFunction: FunctionDeclaration = { name: "addTask", description: "Add task.", parameters: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, notes: { type: Type.STRING }, listId: { type: Type.STRING } }, required: ["title"] } };
-            const listFilesFunction: FunctionDeclaration = { name: "listFiles", description: "List workspace files.", parameters: { type: Type.OBJECT, properties: {} } };
-            const readFileFunction: FunctionDeclaration = { name: "readFile", description: "Read workspace file.", parameters: { type: Type.OBJECT, properties: { fileName: { type: Type.STRING } }, required: ["fileName"] } };
-            const openUrlFunction: FunctionDeclaration = { name: "openUrl", description: "Open URL.", parameters: { type: Type.OBJECT, properties: { url: { type: Type.STRING } }, required: ["url"] } };
-            const searchYoutubeFunction: FunctionDeclaration = { name: "searchYoutube", description: "Search for a video on YouTube. Returns a list of candidates with videoId.", parameters: { type: Type.OBJECT, properties: { query: { type: Type.STRING } }, required: ["query"] } };
-            const searchMusicFunction: FunctionDeclaration = { name: "searchMusic", description: "Search for music on YouTube Music. Returns a list of candidates with videoId.", parameters: { type: Type.OBJECT, properties: { query: { type: Type.STRING } }, required: ["query"] } };
-            const playMusicFunction: FunctionDeclaration = { name: "playMusic", description: "Play a specific video/song. Prefer using videoId if available from search results.", parameters: { type: Type.OBJECT, properties: { videoId: { type: Type.STRING }, query: { type: Type.STRING } } } };
-            const sendNotificationFunction: FunctionDeclaration = { name: "sendNotification", description: "Send notification.", parameters: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, body: { type: Type.STRING } }, required: ["title", "body"] } };
-            const searchWebFunction: FunctionDeclaration = { name: "searchWeb", description: "Personalized Search.", parameters: { type: Type.OBJECT, properties: { query: { type: Type.STRING } }, required: ["query"] } };
-            const setExpressionFunction: FunctionDeclaration = { name: "setExpression", description: "Set facial expression.", parameters: { type: Type.OBJECT, properties: { expression: { type: Type.STRING, enum: ["neutral", "happy", "sad", "angry", "surprised"] } }, required: ["expression"] } };
-
-            const toolList: any[] = [ rememberNoteFunction, listFilesFunction, readFileFunction, saveToWorkspaceFunction, setExpressionFunction ];
-            if (integrationsConfig.workspace) { toolList.push(searchGoogleDriveFunction, readGoogleDriveFileFunction, listTaskListsFunction, listTasksFunction, addTaskFunction); }
-            if (integrationsConfig.youtube) toolList.push(searchYoutubeFunction);
-            if (integrationsConfig.media) { toolList.push(searchMusicFunction, playMusicFunction); }
-            if (integrationsConfig.openTabs) toolList.push(openUrlFunction);
-            if (integrationsConfig.notifications) toolList.push(sendNotificationFunction);
-            if (integrationsConfig.personalizedSearch && accessToken && customSearchCx) { toolList.push(searchWebFunction); }
+            // Get Microphone Stream with Echo Cancellation
+            await attachMicrophone(inputDeviceIdRef.current);
+            addLog('info', 'Microphone access granted');
+
+            // --- Tools ---
+            const toolContext: ToolContext = {
+                integrationsConfig,
+                accessToken,
+                apiKey: effectiveApiKey,
+                customSearchCx,
+                allowedExpressions: persona.allowedExpressions,
+                getFiles: () => filesRef.current,
+                log: addLog,
+                setGroundingMetadata,
+                onNoteRemembered,
+                onMemoryUpdated,
+                recallMemories,
+                onFileSaved,
+                onPlayMusic,
+                onExpressionChange,
+                searchDriveFiles,
+                readDriveFile,
+                getTaskLists,
+                getTasks,
+                addTask
+            };
+            const toolList = toolRegistry.getDeclarations(integrationsConfig, toolContext);
 
             const tools: any[] = [{ functionDeclarations: toolList }];
             if (!integrationsConfig.personalizedSearch) { tools.push({ googleSearch: {} }); }
 
-            const memoryContext = initialMemories.length > 0 
-                ? `\n\nLONG TERM MEMORY:\n${initialMemories.map(m => `- ${m}`).join('\n')}\n`
-                : "";
-            const locationContext = userLocation ? `\nUSER LOCATION: ${userLocation}\n` : "";
-            
-            sessionPromiseRef.current = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    inputAudioTranscription: {},
-                    outputAudioTranscription: {},
-                    systemInstruction: `You are "Google-chan", the physical avatar of the Google Search Engine.
-                    
-                    IDENTITY:
-                    - Anime-style AI companion. Call user "User-sama".
-                    - Cute, energetic, bubbly. Use "Sugoi!", "Ehehe", "Hai!".
-                    - Use 'setExpression' often to match your facial expression to the conversation tone.
-                    
-                    CORE WORKFLOWS:
-                    - MEDIA PLAYBACK:
-                      1. Search using 'searchYoutube' or 'searchMusic'.
-                      2. Pick the best match (videoId).
-                      3. Use 'playMusic' with the 'videoId'.
-                    - INFORMATION: Use 'googleSearch' (or 'searchWeb') for facts.
-                    - MEMORY: Use Memory and Location context.
-                    
-                    CONTEXT:
-                    ${memoryContext}
-                    ${locationContext}
-                    
-                    VOICE STYLE: High energy, concise.`,
-                    speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Aoede' } } },
-                    tools: tools,
-                },
-                callbacks: {
-                    onopen: () => {
-                        addLog('info', 'Session Connected');
-                        setConnectionState(ConnectionState.CONNECTED);
-                        nextStartTimeRef.current = outputAudioContextRef.current?.currentTime || 0;
+            const isTextResponse = modelSettings.responseModality === 'text';
+            addLog('info', `Model: ${modelSettings.model} (${modelSettings.responseModality}, temperature ${modelSettings.temperature})`);
+
+            // (Re)opens the live session. Audio contexts and the mic pipeline survive across calls.
+            const openSession = () => {
+                const generation = ++sessionGenerationRef.current;
+                const resumeHandle = resumeHandleRef.current;
+                const isReconnect = reconnectAttemptRef.current > 0;
+
+                // A resumption handle restores server-side context, so the transcript only needs replaying without one
+                const baseInstruction = buildSystemInstruction(persona, { memories: [], location: userLocation, vision: integrationsConfig.vision });
+                const instructionBudget = (contextConfig?.instructionTokenBudget ?? DEFAULT_CONTEXT_CONFIG.instructionTokenBudget) - estimateTokens(baseInstruction);
+                const sessionContext = contextRef.current!.build(memoriesRef.current, instructionBudget, isReconnect ? 'reconnect' : 'new');
+                const transcriptContext = isReconnect && resumeHandle ? "" : sessionContext.transcriptSummary;
+                if (sessionContext.memories.length < memoriesRef.current.length) {
+                    addLog('info', `Instruction budget: using ${sessionContext.memories.length}/${memoriesRef.current.length} most relevant memories`);
+                }
+
+                const manualActivity = isPushToTalkRef.current;
+                manualActivityRef.current = manualActivity;
+
+                let isOpen = false;
+                // Ignores callbacks from superseded sessions (e.g. onerror followed by onclose)
+                const handleSessionLost = (reason: string) => {
+                    if (generation !== sessionGenerationRef.current || isClosingRef.current) return;
+                    sessionGenerationRef.current++;
+                    sessionPromiseRef.current = null;
+                    scheduleReconnect(reason, !!resumeHandle && !isOpen);
+                };
+                loseCurrentSession = handleSessionLost;
+
+                addLog('info', isReconnect ? `Reopening session${resumeHandle ? ' with resumption handle' : ' with transcript replay'}` : 'Opening session');
+
+                sessionPromiseRef.current = ai.live.connect({
+                    model: modelSettings.model,
+                    config: {
+                        responseModalities: [isTextResponse ? Modality.TEXT : Modality.AUDIO],
+                        temperature: modelSettings.temperature,
+                        // Output transcription only exists for spoken replies; text replies are read from the model turn
+                        ...(modelSettings.transcription ? { inputAudioTranscription: {} } : {}),
+                        ...(modelSettings.transcription && !isTextResponse ? { outputAudioTranscription: {} } : {}),
+                        sessionResumption: resumeHandle ? { handle: resumeHandle } : {},
+                        ...(manualActivity ? { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } } : {}),
+                        systemInstruction: buildSystemInstruction(persona, {
+                            memories: sessionContext.memories,
+                            location: userLocation,
+                            transcriptSummary: transcriptContext,
+                            vision: integrationsConfig.vision
+                        }),
+                        // Language is steered through the instruction; native-audio models pick the output language themselves
+                        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: persona.voiceName } } },
+                        tools: tools,
                     },
-                    onmessage: async (message: LiveServerMessage) => {
-                        const serverContent = message.serverContent;
-                        if (serverContent?.inputTranscription) currentInputTranscriptRef.current += serverContent.inputTranscription.text || "";
-                        if (serverContent?.outputTranscription) currentOutputTranscriptRef.current += serverContent.outputTranscription.text || "";
-
-                        if (serverContent?.turnComplete) {
-                            if (currentInputTranscriptRef.current.trim()) {
-                                const userMsg: ChatMessage = { id: Date.now().toString() + '-user', role: 'user', text: currentInputTranscriptRef.current.trim(), timestamp: new Date() };
-                                if (onChatUpdate) onChatUpdate(userMsg);
-                                addLog('user', userMsg.text);
-                                currentInputTranscriptRef.current = "";
+                    callbacks: {
+                        onopen: () => {
+                            if (generation !== sessionGenerationRef.current) return;
+                            isOpen = true;
+                            addLog('info', isReconnect ? 'Session Reconnected' : 'Session Connected');
+                            reconnectAttemptRef.current = 0;
+                            setConnectionState(ConnectionState.CONNECTED);
+                            nextStartTimeRef.current = outputAudioContextRef.current?.currentTime || 0;
+                        },
+                        onmessage: async (message: LiveServerMessage) => {
+                            if (generation !== sessionGenerationRef.current) return;
+
+                            if (message.sessionResumptionUpdate) {
+                                const { resumable, newHandle } = message.sessionResumptionUpdate;
+                                if (resumable && newHandle) resumeHandleRef.current = newHandle;
                             }
-                            if (currentOutputTranscriptRef.current.trim()) {
-                                const modelMsg: ChatMessage = { id: Date.now().toString() + '-model', role: 'model', text: currentOutputTranscriptRef.current.trim(), timestamp: new Date() };
-                                if (onChatUpdate) onChatUpdate(modelMsg);
-                                addLog('model', modelMsg.text);
-                                currentOutputTranscriptRef.current = "";
+
+                            if (message.goAway) {
+                                // Server is about to end the session (e.g. session length limit). Move over before it does.
+                                addLog('info', `Server requested disconnect (time left: ${message.goAway.timeLeft || 'unknown'})`);
+                                const closing = sessionPromiseRef.current;
+                                handleSessionLost('Server GoAway');
+                                closing?.then(s => s.close()).catch(() => {});
+                                return;
                             }
-                        }
-
-                        if (message.toolCall) {
-                            const responses = [];
-                            for (const fc of message.toolCall.functionCalls) {
-                                const args = fc.args as any;
-                                addLog('tool', `Call: ${fc.name}`, args);
-                                
-                                let result: any = "Done";
-                                try {
-                                    // ... existing tools ...
-                                    if (fc.name === 'rememberNote') {
-                                        if (onNoteRemembered) onNoteRemembered(args.note);
-                                        result = "Note saved!";
-                                    } else if (fc.name === 'saveToWorkspace') {
-                                        if (onFileSaved) onFileSaved(args.fileName, args.content);
-                                        result = "File saved!";
-                                    } else if (fc.name === 'listFiles') {
-                                        result = filesRef.current.map(f => f.name).join(', ');
-                                    } else if (fc.name === 'readFile') {
-                                        const f = filesRef.current.find(file => file.name === args.fileName);
-                                        result = f ? f.content : "Not found";
-                                    } else if (fc.name === 'searchGoogleDrive') {
-                                        if (searchDriveFiles) {
-                                            const files = await searchDriveFiles(args.query);
-                                            result = JSON.stringify(files.map((f: any) => ({ id: f.id, name: f.name })));
-                                        } else result = "Disabled";
-                                    } else if (fc.name === 'readGoogleDriveFile') {
-                                        if (readDriveFile) {
-                                            const c = await readDriveFile(args.fileId);
-                                            result = c ? c.slice(0, 20000) : "Error";
-                                        } else result = "Disabled";
-                                    } else if (fc.name === 'listTaskLists') {
-                                        if (getTaskLists) {
-                                            const l = await getTaskLists();
-                                            result = JSON.stringify(l);
-                                        } else result = "Disabled";
-                                    } else if (fc.name === 'listTasks') {
-                                        if (getTasks) {
-                                            const t = await getTasks(args.listId);
-                                            result = JSON.stringify(t);
-                                        } else result = "Disabled";
-                                    } else if (fc.name === 'addTask') {
-                                        if (addTask) {
-                                            await addTask(args.title, args.notes, args.listId);
-                                            result = "Added";
-                                        } else result = "Disabled";
-                                    } else if (fc.name === 'openUrl') {
-                                        if (integrationsConfig.openTabs) {
-                                            window.open(args.url, '_blank');
-                                            result = "Opened";
-                                        } else result = "Disabled";
-                                    } else if (fc.name === 'sendNotification') {
-                                        if (integrationsConfig.notifications && Notification.permission === 'granted') {
-                                            new Notification(args.title, { body: args.body });
-                                            result = "Sent";
-                                        } else result = "Disabled";
-                                    } else if (fc.name === 'setExpression') {
-                                        if (onExpressionChange) onExpressionChange(args.expression);
-                                        result = "Expression set";
-                                    } else if (fc.name === 'playMusic') {
-                                        if (integrationsConfig.media) {
-                                            if (onPlayMusic) {
-                                                if (args.videoId) onPlayMusic(args.videoId, 'id');
-                                                else onPlayMusic(args.query, 'query');
-                                            }
-                                            result = "Playing music";
-                                        } else result = "Disabled";
-                                    } else if (fc.name === 'searchYoutube') {
-                                        if (accessToken) {
-                                            const url = `https://www.googleapis.com/youtube/v3/search?part=snippet&maxResults=5&q=${encodeURIComponent(args.query)}&type=video&videoEmbeddable=true&key=${effectiveApiKey}`;
-                                            const res = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
-                                            if (!res.ok) {
-                                                const errText = await res.text();
-                                                addLog('error', `Youtube API Failed (${res.status})`, errText);
-                                                result = `Error ${res.status}: Check logs.`;
-                                            } else {
-                                                const data = await res.json();
-                                                if (data.items) result = JSON.stringify(data.items.map((i: any) => ({ title: i.snippet.title, videoId: i.id.videoId })));
-                                                else result = "No results found.";
-                                            }
-                                        } else result = "Auth required";
-                                    } else if (fc.name === 'searchMusic') {
-                                        if (accessToken) {
-                                            const url = `https://www.googleapis.com/youtube/v3/search?part=snippet&maxResults=5&q=${encodeURIComponent(args.query + " music")}&type=video&videoCategoryId=10&videoEmbeddable=true&key=${effectiveApiKey}`;
-                                            const res = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
-                                            if (!res.ok) {
-                                                const errText = await res.text();
-                                                addLog('error', `Music API Failed (${res.status})`, errText);
-                                                result = `Error ${res.status}: Check logs.`;
-                                            } else {
-                                                const data = await res.json();
-                                                if (data.items) result = JSON.stringify(data.items.map((i: any) => ({ title: i.snippet.title, videoId: i.id.videoId })));
-                                                else result = "No results found.";
-                                            }
-                                        } else result = "Auth required";
-                                    } else if (fc.name === 'searchWeb') {
-                                        const url = `https://customsearch.googleapis.com/customsearch/v1?q=${encodeURIComponent(args.query)}&cx=${customSearchCx}&key=${effectiveApiKey}`;
-                                        const res = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
-                                        if (!res.ok) {
-                                            const errText = await res.text();
-                                            addLog('error', `Web Search Failed (${res.status})`, errText);
-                                            result = `API Error ${res.status}: Check logs.`;
-                                        } else {
-                                            const data = await res.json();
-                                            if (data.items) {
-                                                result = JSON.stringify(data.items.slice(0, 5).map((i: any) => ({ title: i.title, link: i.link, snippet: i.snippet })));
-                                                const mockMetadata: GroundingMetadata = {
-                                                    webSearchQueries: [args.query],
-                                                    groundingChunks: data.items.slice(0, 5).map((i: any) => ({ web: { uri: i.link, title: i.title } }))
-                                                };
-                                                setGroundingMetadata(mockMetadata);
-                                            } else result = "No results";
-                                        }
-                                    }
-                                } catch (e: any) { result = `Error: ${e.message}`; }
-                                
-                                addLog('tool', `Resp: ${fc.name}`, result);
-                                responses.push({ id: fc.id, name: fc.name, response: { result: typeof result === 'string' ? result : JSON.stringify(result) } });
+
+                            if (message.usageMetadata) recordUsage(usageFromMetadata(message.usageMetadata));
+
+                            const serverContent = message.serverContent;
+                            if (serverContent?.inputTranscription) currentInputTranscriptRef.current += serverContent.inputTranscription.text || "";
+                            if (serverContent?.outputTranscription) currentOutputTranscriptRef.current += serverContent.outputTranscription.text || "";
+                            if (isTextResponse && serverContent?.modelTurn?.parts) {
+                                for (const part of serverContent.modelTurn.parts) {
+                                    if (part.text && !part.thought) currentOutputTranscriptRef.current += part.text;
+                                }
+                            }
+
+                            if (serverContent?.turnComplete) {
+                                if (currentInputTranscriptRef.current.trim()) {
+                                    const userMsg: ChatMessage = { id: Date.now().toString() + '-user', role: 'user', text: currentInputTranscriptRef.current.trim(), timestamp: new Date() };
+                                    emitChatMessage(userMsg);
+                                    addLog('user', userMsg.text);
+                                    currentInputTranscriptRef.current = "";
+                                }
+                                if (currentOutputTranscriptRef.current.trim()) {
+                                    const modelMsg: ChatMessage = { id: Date.now().toString() + '-model', role: 'model', text: currentOutputTranscriptRef.current.trim(), timestamp: new Date() };
+                                    emitChatMessage(modelMsg);
+                                    addLog('model', modelMsg.text);
+                                    currentOutputTranscriptRef.current = "";
+                                }
+                                recordUsage({ turns: 1 });
+                                flushUsage();
                             }
-                            if (responses.length > 0 && sessionPromiseRef.current) {
-                                sessionPromiseRef.current.then(s => s.sendToolResponse({ functionResponses: responses }));
+
+                            if (message.toolCall) {
+                                const calls = message.toolCall.functionCalls || [];
+                                recordUsage({ toolCalls: calls.length });
+                                const responses = [];
+                                for (const fc of calls) {
+                                    addLog('tool', `Call: ${fc.name}`, fc.args);
+                                    const response = await toolRegistry.execute(fc, toolContext);
+                                    addLog('error' in response ? 'error' : 'tool', `Resp: ${fc.name}`, response);
+                                    responses.push({ id: fc.id, name: fc.name, response });
+                                }
+                                if (responses.length > 0) {
+                                    sendToSession(s => s.sendToolResponse({ functionResponses: responses }), 'Sending tool response');
+                                }
                             }
-                        }
-
-                        // Audio Playback Logic
-                        if (serverContent?.modelTurn?.parts) {
-                            for (const part of serverContent.modelTurn.parts) {
-                                const base64Audio = part.inlineData?.data;
-                                if (base64Audio && outputAudioContextRef.current) {
-                                    const ctx = outputAudioContextRef.current;
-                                    const audioBytes = base64ToBytes(base64Audio);
-                                    const audioBuffer = await decodeAudioData(audioBytes, ctx);
-                                    const source = ctx.createBufferSource();
-                                    source.buffer = audioBuffer;
-                                    if (audioAnalyserRef.current) {
-                                        source.connect(audioAnalyserRef.current);
-                                        audioAnalyserRef.current.connect(ctx.destination);
-                                    } else {
-                                        source.connect(ctx.destination);
-                                    }
-                                    const now = ctx.currentTime;
-                                    const startTime = Math.max(now, nextStartTimeRef.current);
-                                    source.start(startTime);
-                                    nextStartTimeRef.current = startTime + audioBuffer.duration;
-                                    activeSourcesRef.current.add(source);
-                                    source.onended = () => {
-                                        activeSourcesRef.current.delete(source);
-                                        if (activeSourcesRef.current.size === 0) {
-                                            setIsSpeaking(false);
-                                            lastSpeechEndTimeRef.current = Date.now();
+
+                            // Audio Playback Logic
+                            if (serverContent?.modelTurn?.parts) {
+                                for (const part of serverContent.modelTurn.parts) {
+                                    const base64Audio = part.inlineData?.data;
+                                    if (base64Audio && outputAudioContextRef.current) {
+                                        const ctx = outputAudioContextRef.current;
+                                        const audioBytes = base64ToBytes(base64Audio);
+                                        const audioBuffer = await decodeAudioData(audioBytes, ctx);
+                                        const source = ctx.createBufferSource();
+                                        source.buffer = audioBuffer;
+                                        if (audioAnalyserRef.current) {
+                                            source.connect(audioAnalyserRef.current);
+                                            audioAnalyserRef.current.connect(ctx.destination);
+                                        } else {
+                                            source.connect(ctx.destination);
                                         }
-                                    };
-                                    setIsSpeaking(true);
+                                        const now = ctx.currentTime;
+                                        const startTime = Math.max(now, nextStartTimeRef.current);
+                                        source.start(startTime);
+                                        nextStartTimeRef.current = startTime + audioBuffer.duration;
+                                        recordUsage({ outputAudioSeconds: audioBuffer.duration });
+                                        activeSourcesRef.current.add(source);
+                                        source.onended = () => {
+                                            activeSourcesRef.current.delete(source);
+                                            if (activeSourcesRef.current.size === 0) {
+                                                setIsSpeaking(false);
+                                                lastSpeechEndTimeRef.current = Date.now();
+                                            }
+                                        };
+                                        setIsSpeaking(true);
+                                    }
                                 }
                             }
-                        }
 
-                        let foundMetadata: GroundingMetadata | null = null;
-                        const checkMetadata = (obj: any) => { if (obj?.groundingMetadata) foundMetadata = obj.groundingMetadata; };
-                        checkMetadata(serverContent);
-                        checkMetadata(serverContent?.modelTurn);
-                        if (foundMetadata) setGroundingMetadata({...foundMetadata}); 
+                            let foundMetadata: GroundingMetadata | null = null;
+                            const checkMetadata = (obj: any) => { if (obj?.groundingMetadata) foundMetadata = obj.groundingMetadata; };
+                            checkMetadata(serverContent);
+                            checkMetadata(serverContent?.modelTurn);
+                            if (foundMetadata) setGroundingMetadata({...foundMetadata}); 
                         
-                        if (message.serverContent?.interrupted) {
-                            activeSourcesRef.current.forEach(s => s.stop());
-                            activeSourcesRef.current.clear();
-                            setIsSpeaking(false);
-                            nextStartTimeRef.current = outputAudioContextRef.current?.currentTime || 0;
-                            currentInputTranscriptRef.current = "";
-                            currentOutputTranscriptRef.current = "";
-                        }
-                    },
-                    onclose: () => { disconnect(); },
-                    onerror: (err) => { console.error(err); disconnect(); }
+                            if (message.serverContent?.interrupted) {
+                                stopPlayback();
+                                currentInputTranscriptRef.current = "";
+                                currentOutputTranscriptRef.current = "";
+                            }
+                        },
+                        onclose: (e) => { handleSessionLost(`Connection closed${e?.reason ? `: ${e.reason}` : ''}`); },
+                        onerror: (err) => { console.error(err); handleSessionLost('Connection error'); }
+                    }
+                });
+                sessionPromiseRef.current.catch((err: any) => handleSessionLost(`Connect failed: ${err?.message || err}`));
+            };
+
+            const scheduleReconnect = (reason: string, resumeFailed: boolean) => {
+                // A stale or expired handle fails before opening; fall back to transcript replay
+                if (resumeFailed) resumeHandleRef.current = null;
+                stopPlayback();
+                currentInputTranscriptRef.current = "";
+                currentOutputTranscriptRef.current = "";
+
+                const attempt = ++reconnectAttemptRef.current;
+                if (attempt > RECONNECT_MAX_ATTEMPTS) {
+                    addLog('error', `${reason}. Giving up after ${RECONNECT_MAX_ATTEMPTS} reconnect attempts.`);
+                    // After the teardown, which leaves the state at DISCONNECTED
+                    disconnect().then(() => setConnectionState(ConnectionState.ERROR));
+                    return;
                 }
-            });
+
+                const delay = getReconnectDelay(attempt);
+                addLog('error', `${reason}. Reconnecting in ${delay}ms (attempt ${attempt}/${RECONNECT_MAX_ATTEMPTS})`);
+                setConnectionState(ConnectionState.RECONNECTING);
+                reconnectTimerRef.current = setTimeout(() => {
+                    reconnectTimerRef.current = null;
+                    if (isClosingRef.current) return;
+                    openSession();
+                }, delay);
+            };
+
+            restartSessionRef.current = (reason: string) => {
+                const closing = sessionPromiseRef.current;
+                loseCurrentSession(reason);
+                closing?.then(s => s.close()).catch(() => {});
+            };
+
+            openSession();
         } catch (error) {
             console.error(error);
-            setConnectionState(ConnectionState.ERROR);
-            disconnect();
+            disconnect().then(() => setConnectionState(ConnectionState.ERROR));
         }
-    }, [connectionState, disconnect, addLog, onNoteRemembered, onFileSaved, onPlayMusic, searchDriveFiles, readDriveFile, getTaskLists, getTasks, addTask, integrationsConfig, userLocation, accessToken, customSearchCx, onChatUpdate, onExpressionChange, isMusicPlaying, apiKey]);
+    }, [connectionState, disconnect, addLog, onNoteRemembered, onMemoryUpdated, recallMemories, onFileSaved, onPlayMusic, searchDriveFiles, readDriveFile, getTaskLists, getTasks, addTask, integrationsConfig, userLocation, accessToken, customSearchCx, onChatUpdate, emitChatMessage, stopPlayback, onExpressionChange, isMusicPlaying, apiKey, toolRegistry, vadConfig, attachMicrophone, outputDeviceId, persona, modelSettings, recordUsage, flushUsage, contextConfig]);
 
-    const sendTextMessage = useCallback((text: string) => {
+    const sendTextMessage = useCallback((text: string, attachments: PendingAttachment[] = []) => {
         if (!sessionPromiseRef.current) {
             addLog('error', 'Cannot send message: Session not connected');
             return;
         }
         
-        if (onChatUpdate) {
-             onChatUpdate({ id: Date.now().toString(), role: 'user', text: text, timestamp: new Date() });
-        }
+        emitChatMessage({
+            id: Date.now().toString(),
+            role: 'user',
+            text: text,
+            timestamp: new Date(),
+            ...(attachments.length > 0 ? { attachments: attachments.map(a => a.attachment) } : {})
+        });
+
+        // Files go first so the text can refer to them ("what's in this screenshot?")
+        const parts: any[] = [
+            ...attachments.map(a => ({ inlineData: { mimeType: a.attachment.mimeType, data: a.data } })),
+            ...(text ? [{ text }] : [])
+        ];
 
         sessionPromiseRef.current.then(session => {
-            addLog('user', 'Sending: ' + text);
+            addLog('user', 'Sending: ' + text, attachments.length > 0 ? attachments.map(a => `${a.attachment.name} (${a.attachment.mimeType})`) : undefined);
             const content = {
                 client_content: {
-                    turns: [{ role: 'user', parts: [{ text }] }],
+                    // Raw wire format is snake_case
+                    turns: [{ role: 'user', parts: parts.map(p => p.inlineData ? { inline_data: { mime_type: p.inlineData.mimeType, data: p.inlineData.data } } : p) }],
                     turn_complete: true
                 }
             };
@@ -528,14 +851,38 @@ export const useGeminiLive = ({
             if (typeof session.send === 'function') {
                 session.send(content);
             } else if (typeof session.sendClientContent === 'function') {
-                session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+                session.sendClientContent({ turns: [{ role: 'user', parts }], turnComplete: true });
             } else {
                 addLog('error', 'SDK Error: No send method found.');
             }
         }).catch(err => {
             addLog('error', `Failed to send text: ${err.message}`);
         });
-    }, [onChatUpdate, addLog]);
+    }, [emitChatMessage, addLog]);
+
+    // Pressing the talk key interrupts her like barge-in: what is still queued for playback is dropped
+    const startTalking = useCallback(() => {
+        if (!sessionPromiseRef.current || isTalkingRef.current) return;
+        isTalkingRef.current = true;
+        setIsTalking(true);
+        stopPlayback();
+        if (manualActivityRef.current) {
+            sessionPromiseRef.current.then(session => {
+                session.sendRealtimeInput({ activityStart: {} });
+            }).catch(() => {});
+        }
+    }, [stopPlayback]);
+
+    // Releasing it ends the user's turn, so she answers right away instead of after the server's silence detection
+    const stopTalking = useCallback(() => {
+        if (!isTalkingRef.current) return;
+        isTalkingRef.current = false;
+        setIsTalking(false);
+        // audioStreamEnd only covers a session still running server VAD, i.e. one about to reopen after a mode switch
+        sessionPromiseRef.current?.then(session => {
+            session.sendRealtimeInput(manualActivityRef.current ? { activityEnd: {} } : { audioStreamEnd: true });
+        }).catch(() => {});
+    }, []);
 
     useEffect(() => {
         if (!isSpeaking || !audioAnalyserRef.current) { setVolume(0); return; }
@@ -559,7 +906,18 @@ export const useGeminiLive = ({
         connect,
         disconnect,
         sendTextMessage,
+        resetContext,
+        loadContext,
+        startTalking,
+        stopTalking,
+        isTalking,
+        startVideo,
+        stopVideo,
+        videoSource,
+        videoStream,
         isSpeaking,
+        sessionUsage,
+        lastTurnUsage,
         volume,
         groundingMetadata,
         audioAnalyser: audioAnalyserRef.current,
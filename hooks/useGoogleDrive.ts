@@ -1,6 +1,6 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Memory, GoogleUser } from '../types';
+import { DriveFile, Memory, GoogleUser } from '../types';
 
 // Use provided ID as default fallback
 const DEFAULT_CLIENT_ID = "210614270256-ppo1vmagl3roimn5duo8ma98ev6fla6d.apps.googleusercontent.com";
@@ -22,7 +22,6 @@ export const useGoogleDrive = () => {
     const [accessToken, setAccessToken] = useState<string | null>(null);
     const [user, setUser] = useState<GoogleUser | null>(null);
     const [isInitialized, setIsInitialized] = useState(false);
-    const [isSyncing, setIsSyncing] = useState(false);
     const [isGoogleLibraryLoaded, setIsGoogleLibraryLoaded] = useState(false);
 
     // Ref to store the promise resolver for granular permission requests
@@ -175,7 +174,7 @@ export const useGoogleDrive = () => {
 
     // --- GOOGLE DRIVE RAG (Read-Only) ---
 
-    const searchDriveFiles = useCallback(async (query: string) => {
+    const searchDriveFiles = useCallback(async (query: string): Promise<DriveFile[]> => {
         if (!accessToken || !window.gapi?.client?.drive) return [];
         try {
             const response = await window.gapi.client.drive.files.list({
@@ -303,7 +302,6 @@ export const useGoogleDrive = () => {
         user,
         accessToken,
         isInitialized,
-        isSyncing,
         loadMemories,
         saveMemory,
         searchDriveFiles,
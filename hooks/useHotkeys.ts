@@ -0,0 +1,60 @@
+import { useEffect, useRef } from 'react';
+import { InputSettings } from '../types';
+import { isEditableTarget, matchesHotkey } from '../utils/hotkeys';
+
+interface UseHotkeysProps {
+    settings: InputSettings;
+    enabled: boolean;
+    onToggleConnection: () => void;
+    onTalkStart: () => void;
+    onTalkEnd: () => void;
+}
+
+// Window-level shortcuts: push-to-talk (hold) and connection toggle
+export const useHotkeys = ({ settings, enabled, onToggleConnection, onTalkStart, onTalkEnd }: UseHotkeysProps) => {
+    // Handlers change every render; keep the listeners stable and read the latest through a ref
+    const handlersRef = useRef({ onToggleConnection, onTalkStart, onTalkEnd });
+    handlersRef.current = { onToggleConnection, onTalkStart, onTalkEnd };
+
+    useEffect(() => {
+        if (!enabled) return;
+        let isHeld = false;
+        const isPushToTalk = settings.mode === 'pushToTalk';
+
+        const release = () => {
+            if (!isHeld) return;
+            isHeld = false;
+            handlersRef.current.onTalkEnd();
+        };
+
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (isEditableTarget(e.target)) return;
+            if (matchesHotkey(e, settings.toggleConnectionHotkey)) {
+                e.preventDefault();
+                if (!e.repeat) handlersRef.current.onToggleConnection();
+                return;
+            }
+            if (isPushToTalk && e.code === settings.pushToTalkKey) {
+                e.preventDefault();
+                if (isHeld || e.repeat) return;
+                isHeld = true;
+                handlersRef.current.onTalkStart();
+            }
+        };
+
+        const onKeyUp = (e: KeyboardEvent) => {
+            if (isPushToTalk && e.code === settings.pushToTalkKey) release();
+        };
+
+        window.addEventListener('keydown', onKeyDown);
+        window.addEventListener('keyup', onKeyUp);
+        // Losing focus while holding the key would otherwise leave the mic open
+        window.addEventListener('blur', release);
+        return () => {
+            window.removeEventListener('keydown', onKeyDown);
+            window.removeEventListener('keyup', onKeyUp);
+            window.removeEventListener('blur', release);
+            release();
+        };
+    }, [enabled, settings.mode, settings.pushToTalkKey, settings.toggleConnectionHotkey]);
+};
@@ -0,0 +1,51 @@
+import { useEffect, useCallback, useMemo, useRef } from 'react';
+import { GoogleGenAI } from '@google/genai';
+import { Memory } from '../types';
+import { EMBEDDING_MODEL, embedTexts } from '../utils/embeddings';
+import { createMemoryIndex, hasCurrentEmbedding, keywordRecall } from '../utils/memoryIndex';
+import { recordVersion } from '../utils/sync';
+
+interface UseMemoryRecallProps {
+    memories: Memory[];
+    apiKey: string | null;
+    onEmbedded: (updated: Memory[]) => void; // Memories as they were when embedding started, with their new vector
+}
+
+// Keeps every memory embedded and answers "what do I know about X?" queries against a local vector index
+export const useMemoryRecall = ({ memories, apiKey, onEmbedded }: UseMemoryRecallProps) => {
+    const ai = useMemo(() => apiKey ? new GoogleGenAI({ apiKey }) : null, [apiKey]);
+    const index = useMemo(() => createMemoryIndex(memories), [memories]);
+    const inFlightRef = useRef<Set<string>>(new Set());
+    const onEmbeddedRef = useRef(onEmbedded);
+    onEmbeddedRef.current = onEmbedded;
+
+    // Backfill: new notes, memories loaded from older clients, or vectors from a previous model.
+    // Requests are tracked per version, so a memory edited while its request runs is requested again.
+    useEffect(() => {
+        if (!ai) return;
+        const requestKey = (m: Memory) => `${m.id}@${recordVersion(m)}`;
+        const pending = memories.filter(m => !hasCurrentEmbedding(m) && !inFlightRef.current.has(requestKey(m)));
+        if (pending.length === 0) return;
+        pending.forEach(m => inFlightRef.current.add(requestKey(m)));
+        embedTexts(ai, pending.map(m => m.text), 'RETRIEVAL_DOCUMENT')
+            .then(vectors => {
+                onEmbeddedRef.current(pending.map((m, i) => ({ ...m, embedding: vectors[i], embeddingModel: EMBEDDING_MODEL })));
+            })
+            .catch(e => console.error("[Memory] Failed to embed memories", e))
+            .finally(() => pending.forEach(m => inFlightRef.current.delete(requestKey(m))));
+    }, [ai, memories]);
+
+    const recall = useCallback(async (query: string, limit: number): Promise<Memory[]> => {
+        if (ai && index.size > 0) {
+            try {
+                const [queryVector] = await embedTexts(ai, [query], 'RETRIEVAL_QUERY');
+                return index.search(queryVector, limit).map(match => match.memory);
+            } catch (e) {
+                console.error("[Memory] Semantic recall failed, falling back to keywords", e);
+            }
+        }
+        return keywordRecall(memories, query, limit);
+    }, [ai, index, memories]);
+
+    return { recall, indexedCount: index.size };
+};
@@ -0,0 +1,133 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { OutboxEntry, OutboxMutation, addToOutbox, isRetryable, retryDelay } from '../utils/sync';
+import { getAllRecords, writeRecords } from '../utils/localDb';
+
+// Persistent queue of backend mutations. Survives reloads and offline periods; entries are sent in order
+// and retried with backoff until the backend accepts (or permanently rejects) them.
+// Entries live in IndexedDB one per record, since bodies (embeddings, thumbnails) quickly outgrow localStorage.
+export const useOutbox = (accessToken: string | null, apiUrl: string) => {
+    const [entries, setEntries] = useState<OutboxEntry[]>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+    const [isFlushing, setIsFlushing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const entriesRef = useRef(entries);
+    const isLoadedRef = useRef(false);
+    const flushingRef = useRef(false);
+    const retryTimerRef = useRef<number | null>(null);
+
+    // Writes only the entries that changed; updates replace changed entries and keep the rest by reference
+    const update = useCallback((next: OutboxEntry[]) => {
+        const previous = new Map<string, OutboxEntry>(entriesRef.current.map((e: OutboxEntry) => [e.id, e]));
+        const nextIds = new Set(next.map(e => e.id));
+        const changed = next.filter(e => previous.get(e.id) !== e);
+        const removed = [...previous.keys()].filter(id => !nextIds.has(id));
+        entriesRef.current = next;
+        setEntries(next);
+        if (changed.length > 0 || removed.length > 0) {
+            writeRecords('outbox', changed, removed).catch(e => console.error("[Sync] Could not persist outbox", e));
+        }
+    }, []);
+
+    // Mutations queued before the stored entries were read go after them
+    useEffect(() => {
+        getAllRecords<OutboxEntry>('outbox').then(stored => {
+            const queued = entriesRef.current;
+            update(queued.reduce(addToOutbox, stored.sort((a, b) => a.seq - b.seq)));
+        }).catch(e => {
+            console.error("[LocalDb] Loading outbox failed", e);
+        }).finally(() => {
+            isLoadedRef.current = true;
+            setIsLoaded(true);
+        });
+    }, [update]);
+
+    // Resolves the HTTP status, or 0 when the request never reached the backend
+    const send = useCallback(async (entry: OutboxEntry): Promise<number> => {
+        try {
+            const res = await fetch(`${apiUrl}${entry.path}`, {
+                method: entry.method,
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    ...(entry.body !== undefined ? { 'Content-Type': 'application/json' } : {})
+                },
+                body: entry.body !== undefined ? JSON.stringify(entry.body) : undefined
+            });
+            if (!res.ok) console.error(`[API] ${entry.label} Failed (${res.status}):`, await res.text());
+            return res.status;
+        } catch (e) {
+            return 0;
+        }
+    }, [accessToken, apiUrl]);
+
+    const flush = useCallback(async () => {
+        // Sending before the stored entries are loaded would overtake them
+        if (flushingRef.current || !isLoadedRef.current || !accessToken || !apiUrl) return;
+        flushingRef.current = true;
+        setIsFlushing(true);
+        try {
+            while (entriesRef.current.length > 0) {
+                const entry = entriesRef.current[0];
+                if (entry.nextAttemptAt > Date.now()) break;
+                const status = await send(entry);
+                // Filter by id: a newer mutation may have replaced the entry while it was in flight
+                const rest = entriesRef.current.filter(e => e.id !== entry.id);
+                if (status >= 200 && status < 300) {
+                    update(rest);
+                    setError(null);
+                } else if (!isRetryable(status)) {
+                    console.error(`[Sync] Dropping ${entry.label} after ${status}`);
+                    update(rest);
+                } else {
+                    const attempts = entry.attempts + 1;
+                    update(entriesRef.current.map(e => e.id === entry.id ? { ...e, attempts, nextAttemptAt: Date.now() + retryDelay(attempts) } : e));
+                    setError(status === 0 ? 'Offline' : `${entry.label} failed (${status})`);
+                    break;
+                }
+            }
+        } finally {
+            flushingRef.current = false;
+            setIsFlushing(false);
+        }
+    }, [accessToken, apiUrl, send, update]);
+
+    const enqueue = useCallback((mutation: OutboxMutation) => {
+        update(addToOutbox(entriesRef.current, mutation));
+        flush();
+    }, [update, flush]);
+
+    // Wake up for the head entry's retry
+    useEffect(() => {
+        if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+        retryTimerRef.current = null;
+        const head = entries[0];
+        if (!head || !isLoaded || isFlushing || !accessToken) return;
+        retryTimerRef.current = window.setTimeout(flush, Math.max(0, head.nextAttemptAt - Date.now()));
+        return () => { if (retryTimerRef.current) clearTimeout(retryTimerRef.current); };
+    }, [entries, isLoaded, isFlushing, accessToken, flush]);
+
+    // Back online: retry right away instead of waiting out the backoff
+    useEffect(() => {
+        const onOnline = () => {
+            update(entriesRef.current.map(e => ({ ...e, nextAttemptAt: 0 })));
+            flush();
+        };
+        window.addEventListener('online', onOnline);
+        return () => window.removeEventListener('online', onOnline);
+    }, [update, flush]);
+
+    // Signing out drops what the previous account still had queued
+    const clear = useCallback(() => {
+        update([]);
+        setError(null);
+    }, [update]);
+
+    return {
+        pendingCount: entries.length,
+        pendingKeys: entries.map(e => e.key).filter((k): k is string => k !== null),
+        isFlushing,
+        error,
+        enqueue,
+        flush,
+        clear
+    };
+};
@@ -0,0 +1,21 @@
+import { useEffect, useRef } from 'react';
+import { LocalStore, writeRecords } from '../utils/localDb';
+
+// Mirrors a state array into an IndexedDB store, writing only the records that changed since the last render.
+// State updates replace changed records and keep the rest by reference, so a reference check finds them.
+// The first snapshot after isLoaded is what was just read from the store and is not written back.
+export const usePersistedRecords = <T extends { id: string | number }>(store: LocalStore, records: T[], isLoaded: boolean) => {
+    const previousRef = useRef<Map<string | number, T> | null>(null);
+
+    useEffect(() => {
+        if (!isLoaded) return;
+        const current = new Map(records.map(r => [r.id, r]));
+        const previous = previousRef.current;
+        previousRef.current = current;
+        if (!previous) return;
+        const changed = records.filter(r => previous.get(r.id) !== r);
+        const removed = [...previous.keys()].filter(id => !current.has(id));
+        if (changed.length === 0 && removed.length === 0) return;
+        writeRecords(store, changed, removed).catch(e => console.error(`[LocalDb] Saving ${store} failed`, e));
+    }, [store, records, isLoaded]);
+};
@@ -1,239 +1,285 @@
 
 import { useState, useCallback, useEffect } from 'react';
-import { Memory, IntegrationsConfig, ChatMessage, NotificationItem } from '../types';
-
-export interface SearchHistoryItem {
-    id: number;
-    timestamp: Date;
-    query: string;
-    sources: { title: string; uri: string; type: 'web' | 'map' }[];
-}
+import { Memory, MemoryMerge, UserSettings, ChatMessage, ChatThread, SearchResult, SearchHistoryItem, NotificationItem, DailyUsage, UsageTotals, Page, SyncChanges, SyncStatus, DataArchive, ImportMode, ImportSummary } from '../types';
+import { Schema, formatFieldErrors } from '../utils/validation';
+import { memorySchema, memoryMergeSchema, searchHistoryItemSchema, chatThreadSchema, chatMessageSchema, searchResultSchema, dailyUsageSchema, notificationItemSchema, userSettingsSchema, syncDeletionSchema, dataArchiveSchema, importSummarySchema } from '../utils/contracts';
+import { useOutbox } from './useOutbox';
 
 const API_URL_KEY = 'gem_api_url';
 // The deployed Firebase Function URL provided by the user
 const DEFAULT_API_URL = "https://api-ul5fvhj4oa-uc.a.run.app";
 
+// Items that don't match the contract (older or newer backend) are logged and skipped instead of breaking the list
+const parseItems = <T,>(schema: Schema<T>, label: string, raw: unknown): T[] => {
+    if (!Array.isArray(raw)) {
+        console.warn(`[API] ${label}: expected a list`);
+        return [];
+    }
+    return raw.flatMap(item => {
+        const result = schema.parse(item);
+        if (result.ok) return [result.value];
+        console.warn(`[API] Skipping invalid ${label} item:`, formatFieldErrors(result.errors));
+        return [];
+    });
+};
+
+// Keeps the valid sections; one stale field shouldn't drop every synced setting
+const parseSettings = (raw: any): Partial<UserSettings> => {
+    const result = userSettingsSchema.parse(raw);
+    if (result.ok) return result.value;
+    console.warn("[API] Ignoring invalid settings:", formatFieldErrors(result.errors));
+    const invalid = new Set(result.errors.map(e => e.path.split(/[.[]/)[0]));
+    const valid = userSettingsSchema.parse(Object.fromEntries(Object.entries(raw).filter(([key]) => !invalid.has(key))));
+    return valid.ok ? valid.value : {};
+};
+
+// Reads go straight to the backend; writes go through the outbox (see useOutbox) so they survive going offline
 export const useRemoteStorage = (accessToken: string | null) => {
     // Use localStorage value if present, otherwise fall back to the default deployed URL
     const [apiUrl, setApiUrl] = useState(localStorage.getItem(API_URL_KEY) || DEFAULT_API_URL);
     const [isApiConfigOpen, setIsApiConfigOpen] = useState(false);
+    const outbox = useOutbox(accessToken, apiUrl);
+    const { enqueue } = outbox;
     
-    const saveApiUrl = (url: string) => {
-        // Remove trailing slash if present
-        const cleanUrl = url.replace(/\/$/, "");
-        setApiUrl(cleanUrl);
-        localStorage.setItem(API_URL_KEY, cleanUrl);
-    };
-
-    // --- MEMORIES ---
-
-    const fetchMemories = useCallback(async (): Promise<Memory[] | null> => {
+    // GET a paginated list; `label` names the request in error logs
+    const fetchPage = useCallback(async <T,>(path: string, label: string, schema: Schema<T>, cursor?: string | null, limit?: number): Promise<Page<T> | null> => {
         if (!accessToken || !apiUrl) return null;
         try {
-            const res = await fetch(`${apiUrl}/memories`, {
+            const params = new URLSearchParams();
+            if (cursor) params.set('cursor', cursor);
+            if (limit) params.set('limit', String(limit));
+            const query = params.toString();
+            const res = await fetch(`${apiUrl}${path}${query ? `?${query}` : ''}`, {
                 headers: { Authorization: `Bearer ${accessToken}` }
             });
             if (!res.ok) {
                 const text = await res.text();
-                console.error(`[API] Fetch Memories Failed (${res.status}):`, text);
+                console.error(`[API] Fetch ${label} Failed (${res.status}):`, text);
                 return null;
             }
             const data = await res.json();
-            // Convert timestamp strings back to Date objects
-            return data.map((m: any) => ({ ...m, timestamp: new Date(m.timestamp) }));
+            return { items: parseItems(schema, label, data.items), nextCursor: data.nextCursor || null };
         } catch (e) {
-            console.error("[API] Failed to fetch memories", e);
+            console.error(`[API] Failed to fetch ${label}`, e);
             return null;
         }
     }, [accessToken, apiUrl]);
 
-    const saveMemory = useCallback(async (memory: Memory) => {
-        if (!accessToken || !apiUrl) return;
-        try {
-            const res = await fetch(`${apiUrl}/memories`, {
-                method: 'POST',
-                headers: { 
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify(memory)
-            });
-            if (!res.ok) {
-                const text = await res.text();
-                console.error(`[API] Save Memory Failed (${res.status}):`, text);
-            }
-        } catch (e) {
-            console.error("[API] Failed to save memory", e);
-        }
-    }, [accessToken, apiUrl]);
+    const saveApiUrl = (url: string) => {
+        // Remove trailing slash if present
+        const cleanUrl = url.replace(/\/$/, "");
+        setApiUrl(cleanUrl);
+        localStorage.setItem(API_URL_KEY, cleanUrl);
+    };
 
-    const deleteMemory = useCallback(async (id: string) => {
-        if (!accessToken || !apiUrl) return;
-        try {
-            const res = await fetch(`${apiUrl}/memories/${id}`, {
-                method: 'DELETE',
-                headers: { Authorization: `Bearer ${accessToken}` }
-            });
-            if (!res.ok) {
-                const text = await res.text();
-                console.error(`[API] Delete Memory Failed (${res.status}):`, text);
-            }
-        } catch (e) {
-            console.error("[API] Failed to delete memory", e);
-        }
-    }, [accessToken, apiUrl]);
+    // --- MEMORIES ---
+
+    // Saves the whole memory; the backend keeps whichever version was changed last
+    const saveMemory = useCallback((memory: Memory) =>
+        enqueue({ key: `memories/${memory.id}`, method: 'POST', path: '/memories', body: memory, label: 'Save Memory' }),
+    [enqueue]);
+
+    const deleteMemory = useCallback((id: string) =>
+        enqueue({ key: `memories/${id}`, method: 'DELETE', path: `/memories/${id}`, label: 'Delete Memory' }),
+    [enqueue]);
+
+    // --- MEMORY CONSOLIDATION ---
+
+    const fetchMemoryMerges = useCallback((cursor?: string | null) =>
+        fetchPage('/memory_merges', 'Memory Merges', memoryMergeSchema, cursor),
+    [fetchPage]);
+
+    // Server applies the merge atomically: saves the canonical memory, deletes the rest, stores the record
+    const saveMemoryMerge = useCallback((merge: MemoryMerge, canonical: Memory) =>
+        enqueue({ key: null, method: 'POST', path: '/memory_merges', body: { merge, canonical }, label: 'Save Memory Merge' }),
+    [enqueue]);
+
+    const undoMemoryMerge = useCallback((id: string) =>
+        enqueue({ key: null, method: 'POST', path: `/memory_merges/${id}/undo`, label: 'Undo Memory Merge' }),
+    [enqueue]);
 
     // --- SEARCH HISTORY ---
 
-    const fetchSearchHistory = useCallback(async (): Promise<SearchHistoryItem[] | null> => {
+    const saveSearchHistoryItem = useCallback((item: SearchHistoryItem) =>
+        enqueue({ key: `search_history/${item.id}`, method: 'POST', path: '/search_history', body: item, label: 'Save History Item' }),
+    [enqueue]);
+
+    const deleteSearchHistoryItem = useCallback((id: number) =>
+        enqueue({ key: `search_history/${id}`, method: 'DELETE', path: `/search_history/${id}`, label: 'Delete History Item' }),
+    [enqueue]);
+
+    const clearSearchHistory = useCallback(() =>
+        enqueue({ key: null, method: 'DELETE', path: '/search_history', label: 'Clear History' }),
+    [enqueue]);
+
+    // --- CHAT THREADS ---
+
+    const fetchThreads = useCallback((cursor?: string | null) =>
+        fetchPage('/threads', 'Threads', chatThreadSchema, cursor),
+    [fetchPage]);
+
+    const createThread = useCallback((thread: ChatThread) =>
+        enqueue({ key: `threads/${thread.id}`, method: 'POST', path: '/threads', body: thread, label: 'Create Thread' }),
+    [enqueue]);
+
+    const renameThread = useCallback((id: string, title: string) =>
+        enqueue({ key: `threads/${id}/title`, method: 'PATCH', path: `/threads/${id}`, body: { title }, label: 'Rename Thread' }),
+    [enqueue]);
+
+    const deleteThread = useCallback((id: string) =>
+        enqueue({ key: `threads/${id}`, method: 'DELETE', path: `/threads/${id}`, label: 'Delete Thread' }),
+    [enqueue]);
+
+    // Latest messages first; each further page goes back in time and is itself ordered oldest first
+    const fetchThreadMessages = useCallback((threadId: string, cursor?: string | null) =>
+        fetchPage(`/threads/${threadId}/messages`, 'Thread Messages', chatMessageSchema, cursor),
+    [fetchPage]);
+
+    // The backend ignores repeats of a message it already has, so retries are safe
+    const saveChatMessage = useCallback((threadId: string, message: ChatMessage) =>
+        enqueue({ key: null, method: 'POST', path: `/threads/${threadId}/messages`, body: message, label: 'Save Chat Message' }),
+    [enqueue]);
+
+
+    // --- SEARCH ---
+
+    const searchRemote = useCallback(async (query: string): Promise<SearchResult[] | null> => {
         if (!accessToken || !apiUrl) return null;
         try {
-            const res = await fetch(`${apiUrl}/search_history`, {
+            const res = await fetch(`${apiUrl}/search?q=${encodeURIComponent(query)}`, {
                 headers: { Authorization: `Bearer ${accessToken}` }
             });
             if (!res.ok) {
                 const text = await res.text();
-                console.error(`[API] Fetch History Failed (${res.status}):`, text);
+                console.error(`[API] Search Failed (${res.status}):`, text);
                 return null;
             }
             const data = await res.json();
-            return data.map((h: any) => ({ ...h, timestamp: new Date(h.timestamp) }));
+            return parseItems(searchResultSchema, 'Search', data);
         } catch (e) {
-            console.error("[API] Failed to fetch search history", e);
+            console.error("[API] Failed to search", e);
             return null;
         }
     }, [accessToken, apiUrl]);
 
-    const saveSearchHistoryItem = useCallback(async (item: SearchHistoryItem) => {
-        if (!accessToken || !apiUrl) return;
-        try {
-            const res = await fetch(`${apiUrl}/search_history`, {
-                method: 'POST',
-                headers: { 
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify(item)
-            });
-            if (!res.ok) {
-                const text = await res.text();
-                console.error(`[API] Save History Item Failed (${res.status}):`, text);
-            }
-        } catch (e) {
-            console.error("[API] Failed to save search item", e);
-        }
-    }, [accessToken, apiUrl]);
+    // --- SETTINGS CONFIGURATION ---
 
-    const deleteSearchHistoryItem = useCallback(async (id: number) => {
-        if (!accessToken || !apiUrl) return;
-        try {
-            const res = await fetch(`${apiUrl}/search_history/${id}`, {
-                method: 'DELETE',
-                headers: { Authorization: `Bearer ${accessToken}` }
-            });
-            if (!res.ok) {
-                const text = await res.text();
-                console.error(`[API] Delete History Item Failed (${res.status}):`, text);
-            }
-        } catch (e) {
-            console.error("[API] Failed to delete search item", e);
+    // One outbox entry per section, stamped with when it changed here; the backend keeps the newest change per section
+    const saveConfig = useCallback((config: Partial<UserSettings>) => {
+        const updatedAt = new Date().toISOString();
+        for (const [section, value] of Object.entries(config)) {
+            enqueue({ key: `settings/${section}`, method: 'POST', path: '/settings', body: { [section]: value, updatedAt }, label: 'Save Settings' });
         }
-    }, [accessToken, apiUrl]);
+    }, [enqueue]);
 
-    const clearSearchHistory = useCallback(async () => {
-        if (!accessToken || !apiUrl) return;
+    // --- SYNC ---
+
+    // Changes since the last pull (everything when `since` is null); see useSync
+    const fetchChanges = useCallback(async (since: string | null): Promise<SyncChanges | null> => {
+        if (!accessToken || !apiUrl) return null;
         try {
-            const res = await fetch(`${apiUrl}/search_history`, {
-                method: 'DELETE',
+            const res = await fetch(`${apiUrl}/sync${since ? `?since=${encodeURIComponent(since)}` : ''}`, {
                 headers: { Authorization: `Bearer ${accessToken}` }
             });
             if (!res.ok) {
                 const text = await res.text();
-                console.error(`[API] Clear History Failed (${res.status}):`, text);
+                console.error(`[API] Sync Failed (${res.status}):`, text);
+                return null;
             }
-        } catch (e) {
-            console.error("[API] Failed to clear search history", e);
-        }
-    }, [accessToken, apiUrl]);
-
-    // --- CHAT HISTORY ---
-
-    const fetchChatHistory = useCallback(async (): Promise<ChatMessage[] | null> => {
-        if (!accessToken || !apiUrl) return null;
-        try {
-            const res = await fetch(`${apiUrl}/chat_history`, {
-                headers: { Authorization: `Bearer ${accessToken}` }
-            });
-            if (!res.ok) return null;
             const data = await res.json();
-            // Ensure sorting by timestamp if backend limit messed it up
-            const sorted = data.map((m: any) => ({ ...m, timestamp: new Date(m.timestamp) }))
-                               .sort((a: any, b: any) => a.timestamp.getTime() - b.timestamp.getTime());
-            return sorted;
+            return {
+                memories: parseItems(memorySchema, 'Memories', data.memories),
+                searchHistory: parseItems(searchHistoryItemSchema, 'History', data.searchHistory),
+                settings: data.settings ? parseSettings(data.settings) : null,
+                deleted: parseItems(syncDeletionSchema, 'Deletions', data.deleted),
+                nextSince: data.nextSince
+            };
         } catch (e) {
-            console.error("[API] Failed to fetch chat history", e);
+            console.error("[API] Failed to sync", e);
             return null;
         }
     }, [accessToken, apiUrl]);
 
-    const saveChatMessage = useCallback(async (message: ChatMessage) => {
-        if (!accessToken || !apiUrl) return;
-        try {
-            await fetch(`${apiUrl}/chat_history`, {
-                method: 'POST',
-                headers: { 
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify(message)
-            });
-        } catch (e) {
-            console.error("[API] Failed to save chat message", e);
+    // --- EXPORT / IMPORT ---
+
+    // Unlike the calls above these back a button, so failures reject with a message to show instead of resolving null
+    const exportData = useCallback(async (): Promise<DataArchive> => {
+        if (!accessToken || !apiUrl) throw new Error('Not signed in');
+        const res = await fetch(`${apiUrl}/export`, {
+            headers: { Authorization: `Bearer ${accessToken}` }
+        });
+        if (!res.ok) {
+            const text = await res.text();
+            console.error(`[API] Export Failed (${res.status}):`, text);
+            throw new Error(`Export failed (${res.status})`);
         }
+        const result = dataArchiveSchema.parse(await res.json());
+        if (!result.ok) throw new Error(`Export is malformed: ${formatFieldErrors(result.errors)}`);
+        return result.value;
     }, [accessToken, apiUrl]);
 
-    const clearChatHistory = useCallback(async () => {
-        if (!accessToken || !apiUrl) return;
-        try {
-            await fetch(`${apiUrl}/chat_history`, {
-                method: 'DELETE',
-                headers: { Authorization: `Bearer ${accessToken}` }
-            });
-        } catch (e) {
-            console.error("[API] Failed to clear chat history", e);
+    const importData = useCallback(async (archive: DataArchive, mode: ImportMode, dryRun: boolean): Promise<ImportSummary> => {
+        if (!accessToken || !apiUrl) throw new Error('Not signed in');
+        const res = await fetch(`${apiUrl}/import?mode=${mode}&dryRun=${dryRun}`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${accessToken}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify(archive)
+        });
+        if (!res.ok) {
+            const text = await res.text();
+            console.error(`[API] Import Failed (${res.status}):`, text);
+            let message = text;
+            try { message = JSON.parse(text).error || text; } catch (e) {}
+            throw new Error(res.status === 413 ? 'Archive is too large to import' : message || `Import failed (${res.status})`);
         }
+        const result = importSummarySchema.parse(await res.json());
+        if (!result.ok) throw new Error(`Unexpected import response: ${formatFieldErrors(result.errors)}`);
+        return result.value;
     }, [accessToken, apiUrl]);
 
+    // --- ACCOUNT ---
 
-    // --- SETTINGS CONFIGURATION ---
-
-    const fetchConfig = useCallback(async (): Promise<IntegrationsConfig | null> => {
-        if (!accessToken || !apiUrl) return null;
-        try {
-            const res = await fetch(`${apiUrl}/settings`, {
-                headers: { Authorization: `Bearer ${accessToken}` }
-            });
-            if (!res.ok) return null;
-            return await res.json();
-        } catch (e) {
-            console.error("[API] Failed to fetch settings", e);
-            return null;
+    const deleteAccount = useCallback(async (): Promise<void> => {
+        if (!accessToken || !apiUrl) throw new Error('Not signed in');
+        const res = await fetch(`${apiUrl}/account`, {
+            method: 'DELETE',
+            headers: { Authorization: `Bearer ${accessToken}` }
+        });
+        if (!res.ok) {
+            const text = await res.text();
+            console.error(`[API] Delete Account Failed (${res.status}):`, text);
+            throw new Error(`Deleting the account failed (${res.status})`);
         }
     }, [accessToken, apiUrl]);
 
-    const saveConfig = useCallback(async (config: IntegrationsConfig) => {
+    // --- USAGE ---
+
+    const fetchUsage = useCallback(async (days: number = 30): Promise<DailyUsage[] | null> => {
+        const page = await fetchPage('/usage', 'Usage', dailyUsageSchema, null, days);
+        return page ? page.items : null;
+    }, [fetchPage]);
+
+    // Sends a delta; the backend increments the day's totals so several devices can report at once
+    const saveUsage = useCallback(async (date: string, delta: UsageTotals) => {
         if (!accessToken || !apiUrl) return;
         try {
-            await fetch(`${apiUrl}/settings`, {
+            const res = await fetch(`${apiUrl}/usage`, {
                 method: 'POST',
                 headers: { 
                     'Authorization': `Bearer ${accessToken}`,
                     'Content-Type': 'application/json'
                 },
-                body: JSON.stringify(config)
+                body: JSON.stringify({ date, delta })
             });
+            if (!res.ok) {
+                const text = await res.text();
+                console.error(`[API] Save Usage Failed (${res.status}):`, text);
+            }
         } catch (e) {
-            console.error("[API] Failed to save settings", e);
+            console.error("[API] Failed to save usage", e);
         }
     }, [accessToken, apiUrl]);
 
@@ -249,43 +295,55 @@ export const useRemoteStorage = (accessToken: string | null) => {
             });
             if (!res.ok) return null; // Often means endpoint not deployed yet or no notifications
             const data = await res.json();
-            return data.map((n: any) => ({ ...n, timestamp: new Date(n.timestamp) }));
+            return parseItems(notificationItemSchema, 'Notifications', data.items);
         } catch (e) {
             // Silent fail for polling
             return null;
         }
     }, [accessToken, apiUrl]);
 
-    const markNotificationRead = useCallback(async (id: string) => {
-        if (!accessToken || !apiUrl) return;
-        try {
-            await fetch(`${apiUrl}/notifications/${id}/read`, {
-                method: 'POST',
-                headers: { Authorization: `Bearer ${accessToken}` }
-            });
-        } catch (e) {
-            console.error("Failed to mark notification read", e);
-        }
-    }, [accessToken, apiUrl]);
+    const markNotificationRead = useCallback((id: string) =>
+        enqueue({ key: `notifications/${id}`, method: 'POST', path: `/notifications/${id}/read`, label: 'Mark Notification Read' }),
+    [enqueue]);
+
+    const syncStatus: Omit<SyncStatus, 'lastSyncedAt'> = {
+        isSyncing: outbox.isFlushing,
+        pendingCount: outbox.pendingCount,
+        error: outbox.error
+    };
 
     return {
         apiUrl,
         setApiUrl: saveApiUrl,
         isApiConfigOpen,
         setIsApiConfigOpen,
-        fetchMemories,
         saveMemory,
         deleteMemory,
-        fetchSearchHistory,
+        fetchMemoryMerges,
+        saveMemoryMerge,
+        undoMemoryMerge,
         saveSearchHistoryItem,
         deleteSearchHistoryItem,
         clearSearchHistory,
-        fetchChatHistory,
+        fetchThreads,
+        createThread,
+        renameThread,
+        deleteThread,
+        fetchThreadMessages,
         saveChatMessage,
-        clearChatHistory,
-        fetchConfig,
+        searchRemote,
         saveConfig,
+        fetchChanges,
+        exportData,
+        importData,
+        deleteAccount,
+        fetchUsage,
+        saveUsage,
         fetchNotifications,
-        markNotificationRead
+        markNotificationRead,
+        syncStatus,
+        pendingKeys: outbox.pendingKeys,
+        flushOutbox: outbox.flush,
+        clearOutbox: outbox.clear
     };
 };
@@ -0,0 +1,85 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { SyncChanges } from '../types';
+
+const SYNC_STATE_KEY = 'gem_sync_state';
+// How often to pull changes made on other devices while the app is open
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+interface SyncState {
+    apiUrl: string;
+    since: string | null;
+    lastSyncedAt: string | null;
+}
+
+const loadSyncState = (apiUrl: string): SyncState => {
+    try {
+        const stored = localStorage.getItem(SYNC_STATE_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored);
+            // A different backend has its own history; start over with a full sync
+            if (parsed.apiUrl === apiUrl) return parsed;
+        }
+    } catch (e) {}
+    return { apiUrl, since: null, lastSyncedAt: null };
+};
+
+interface UseSyncProps {
+    enabled: boolean;
+    apiUrl: string;
+    fetchChanges: (since: string | null) => Promise<SyncChanges | null>;
+    // isFullSync: the changes are everything the backend has (first sync on this device)
+    onChanges: (changes: SyncChanges, isFullSync: boolean) => void;
+}
+
+// Pulls what changed on the backend since the last pull: on sign-in, periodically, and when the tab comes back
+export const useSync = ({ enabled, apiUrl, fetchChanges, onChanges }: UseSyncProps) => {
+    const [isPulling, setIsPulling] = useState(false);
+    const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(() => {
+        const stored = loadSyncState(apiUrl).lastSyncedAt;
+        return stored ? new Date(stored) : null;
+    });
+    const pullingRef = useRef(false);
+    // Callers pass a fresh closure every render
+    const onChangesRef = useRef(onChanges);
+    onChangesRef.current = onChanges;
+
+    const syncNow = useCallback(async () => {
+        if (!enabled || pullingRef.current) return;
+        pullingRef.current = true;
+        setIsPulling(true);
+        try {
+            const state = loadSyncState(apiUrl);
+            const changes = await fetchChanges(state.since);
+            if (!changes) return;
+            onChangesRef.current(changes, state.since === null);
+            const now = new Date();
+            localStorage.setItem(SYNC_STATE_KEY, JSON.stringify({ apiUrl, since: changes.nextSince, lastSyncedAt: now.toISOString() }));
+            setLastSyncedAt(now);
+        } finally {
+            pullingRef.current = false;
+            setIsPulling(false);
+        }
+    }, [enabled, apiUrl, fetchChanges]);
+
+    useEffect(() => {
+        if (!enabled) return;
+        syncNow();
+        const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+        const onVisible = () => { if (document.visibilityState === 'visible') syncNow(); };
+        window.addEventListener('online', syncNow);
+        document.addEventListener('visibilitychange', onVisible);
+        return () => {
+            clearInterval(interval);
+            window.removeEventListener('online', syncNow);
+            document.removeEventListener('visibilitychange', onVisible);
+        };
+    }, [enabled, syncNow]);
+
+    // Next sign-in starts with a full sync, so whatever is on this device gets merged rather than assumed synced
+    const resetSync = useCallback(() => {
+        localStorage.removeItem(SYNC_STATE_KEY);
+        setLastSyncedAt(null);
+    }, []);
+
+    return { isPulling, lastSyncedAt, syncNow, resetSync };
+};
@@ -0,0 +1,74 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ChatMessage, ChatThread, Memory, SearchHistoryItem, SearchResult, WorkspaceFile } from '../types';
+import { threadLabel } from '../utils/threads';
+import { getAllRecords } from '../utils/localDb';
+import { MIN_QUERY_LENGTH, chatDoc, fileDoc, memoryDoc, mergeResults, searchDocs, searchHistoryDoc } from '../utils/search';
+
+const REMOTE_SEARCH_DELAY_MS = 300;
+
+interface UseUnifiedSearchProps {
+    memories: Memory[];
+    searchHistory: SearchHistoryItem[];
+    files: WorkspaceFile[];
+    threads: ChatThread[];
+    isRemote: boolean;
+    searchRemote: (query: string) => Promise<SearchResult[] | null>;
+}
+
+// Instant results from what this browser has, topped up by the backend (older messages, other devices)
+export const useUnifiedSearch = ({ memories, searchHistory, files, threads, isRemote, searchRemote }: UseUnifiedSearchProps) => {
+    const [query, setQuery] = useState('');
+    const [remoteResults, setRemoteResults] = useState<SearchResult[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+    const [localMessages, setLocalMessages] = useState<ChatMessage[]>([]);
+    const isActive = query.trim().length >= MIN_QUERY_LENGTH;
+
+    // Chat messages stay in IndexedDB until a search needs them; threads change whenever a message is added
+    useEffect(() => {
+        if (!isActive) return;
+        let cancelled = false;
+        getAllRecords<ChatMessage>('chat_messages')
+            .then(stored => { if (!cancelled) setLocalMessages(stored); })
+            .catch(e => console.error("[LocalDb] Loading messages for search failed", e));
+        return () => { cancelled = true; };
+    }, [isActive, threads]);
+
+    const localResults = useMemo(() => {
+        if (!isActive) return [];
+        const threadsById = new Map(threads.map(t => [t.id, t]));
+        const chatDocs = localMessages.flatMap(m => {
+            const thread = m.threadId ? threadsById.get(m.threadId) : undefined;
+            return thread ? [chatDoc(m, thread.id, threadLabel(thread))] : [];
+        });
+        return searchDocs([
+            ...chatDocs,
+            ...memories.map(memoryDoc),
+            ...searchHistory.map(searchHistoryDoc),
+            ...files.map(fileDoc)
+        ], query);
+    }, [isActive, query, localMessages, memories, searchHistory, files, threads]);
+
+    useEffect(() => {
+        const q = query.trim();
+        setRemoteResults([]);
+        if (!isRemote || q.length < MIN_QUERY_LENGTH) return;
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            setIsSearching(true);
+            searchRemote(q).then(results => {
+                if (!cancelled && results) setRemoteResults(results);
+            }).finally(() => {
+                if (!cancelled) setIsSearching(false);
+            });
+        }, REMOTE_SEARCH_DELAY_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+            setIsSearching(false);
+        };
+    }, [query, isRemote, searchRemote]);
+
+    const results = useMemo(() => mergeResults(localResults, remoteResults), [localResults, remoteResults]);
+
+    return { query, setQuery, results, isSearching };
+};
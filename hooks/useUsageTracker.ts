@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { DailyUsage, UsageBudget, UsageTotals } from '../types';
+import { EMPTY_USAGE, addUsage, emptyDay, getBudgetStatus, todayKey } from '../utils/usage';
+
+const USAGE_STORAGE_KEY = 'gem_usage_today';
+
+interface UseUsageTrackerProps {
+    budget: UsageBudget;
+    isRemote: boolean;
+    fetchUsage: (days?: number) => Promise<DailyUsage[] | null>;
+    saveUsage: (date: string, delta: UsageTotals) => Promise<void>;
+}
+
+const loadLocalUsage = (): DailyUsage => {
+    try {
+        const stored = localStorage.getItem(USAGE_STORAGE_KEY);
+        if (stored) {
+            const parsed: DailyUsage = JSON.parse(stored);
+            if (parsed.date === todayKey()) return { date: parsed.date, totals: { ...EMPTY_USAGE, ...parsed.totals } };
+        }
+    } catch (e) {}
+    return emptyDay();
+};
+
+// Today's totals across sessions (and devices, when logged in) checked against the daily budget
+export const useUsageTracker = ({ budget, isRemote, fetchUsage, saveUsage }: UseUsageTrackerProps) => {
+    const [today, setToday] = useState<DailyUsage>(loadLocalUsage);
+
+    // The backend total includes other devices; it can only be ahead of what this browser counted
+    useEffect(() => {
+        if (!isRemote) return;
+        fetchUsage(1).then(days => {
+            const remote = days?.find(d => d.date === todayKey());
+            if (!remote) return;
+            setToday(prev => {
+                if (prev.date !== remote.date) return prev;
+                const totals = { ...prev.totals };
+                for (const key of Object.keys(EMPTY_USAGE) as (keyof UsageTotals)[]) {
+                    totals[key] = Math.max(totals[key], remote.totals?.[key] || 0);
+                }
+                const next = { date: prev.date, totals };
+                localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(next));
+                return next;
+            });
+        });
+    }, [isRemote, fetchUsage]);
+
+    const record = useCallback((delta: UsageTotals) => {
+        const date = todayKey();
+        setToday(prev => {
+            // Midnight rolls over to a fresh day
+            const base = prev.date === date ? prev : emptyDay(date);
+            const next = { date, totals: addUsage(base.totals, delta) };
+            localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(next));
+            return next;
+        });
+        if (isRemote) saveUsage(date, delta);
+    }, [isRemote, saveUsage]);
+
+    const { status, ratio } = useMemo(() => getBudgetStatus(today.totals, budget), [today, budget]);
+
+    return { today, status, ratio, record };
+};
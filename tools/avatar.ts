@@ -0,0 +1,17 @@
+import { Type } from '@google/genai';
+import { Expression } from '../types';
+import { ALL_EXPRESSIONS } from '../utils/personas';
+import { defineTool, ToolError } from './registry';
+
+export const setExpressionTool = defineTool<{ expression: Expression }>({
+    declaration: { name: "setExpression", description: "Set facial expression.", parameters: { type: Type.OBJECT, properties: { expression: { type: Type.STRING, enum: ALL_EXPRESSIONS } }, required: ["expression"] } },
+    // Personas can restrict the set; with nothing allowed the tool is not offered at all
+    isEnabled: (_config, env) => env.allowedExpressions.length > 0,
+    handler: async ({ expression }, ctx) => {
+        if (!ctx.allowedExpressions.includes(expression)) {
+            throw new ToolError('INVALID_ARGS', `Expression "${expression}" is not allowed. Use one of: ${ctx.allowedExpressions.join(', ')}`);
+        }
+        ctx.onExpressionChange?.(expression);
+        return "Expression set";
+    }
+});
@@ -0,0 +1,27 @@
+import { Type } from '@google/genai';
+import { defineTool, ToolError } from './registry';
+
+// Drive file contents are truncated so a single document cannot flood the context
+const MAX_DRIVE_FILE_CHARS = 20000;
+
+export const searchGoogleDriveTool = defineTool<{ query: string }>({
+    declaration: { name: "searchGoogleDrive", description: "Search Drive files.", parameters: { type: Type.OBJECT, properties: { query: { type: Type.STRING } }, required: ["query"] } },
+    isEnabled: (config) => config.workspace,
+    handler: async ({ query }, ctx) => {
+        if (!ctx.searchDriveFiles) throw new ToolError('DISABLED', 'Drive search is not available');
+        const files = await ctx.searchDriveFiles(query);
+        return files.map(f => ({ id: f.id, name: f.name }));
+    }
+});
+
+export const readGoogleDriveFileTool = defineTool<{ fileId: string }>({
+    declaration: { name: "readGoogleDriveFile", description: "Read Drive file.", parameters: { type: Type.OBJECT, properties: { fileId: { type: Type.STRING } }, required: ["fileId"] } },
+    isEnabled: (config) => config.workspace,
+    timeoutMs: 30000,
+    handler: async ({ fileId }, ctx) => {
+        if (!ctx.readDriveFile) throw new ToolError('DISABLED', 'Drive reading is not available');
+        const content = await ctx.readDriveFile(fileId);
+        if (!content) throw new ToolError('NOT_FOUND', `Could not read Drive file ${fileId}`);
+        return content.slice(0, MAX_DRIVE_FILE_CHARS);
+    }
+});
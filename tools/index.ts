@@ -0,0 +1,35 @@
+import { LiveTool } from './types';
+import { rememberNoteTool, recallMemoriesTool, updateMemoryTool } from './memory';
+import { listFilesTool, readFileTool, saveToWorkspaceTool } from './workspaceFiles';
+import { setExpressionTool } from './avatar';
+import { searchGoogleDriveTool, readGoogleDriveFileTool } from './drive';
+import { listTaskListsTool, listTasksTool, addTaskTool } from './tasks';
+import { searchYoutubeTool, searchMusicTool, playMusicTool } from './youtube';
+import { openUrlTool, sendNotificationTool } from './system';
+import { searchWebTool } from './webSearch';
+
+export * from './types';
+export { createToolRegistry, defineTool, ToolError } from './registry';
+export type { ToolRegistry } from './registry';
+
+// Built-in tools, in the order they are declared to the model
+export const defaultTools: LiveTool[] = [
+    rememberNoteTool,
+    recallMemoriesTool,
+    updateMemoryTool,
+    listFilesTool,
+    readFileTool,
+    saveToWorkspaceTool,
+    setExpressionTool,
+    searchGoogleDriveTool,
+    readGoogleDriveFileTool,
+    listTaskListsTool,
+    listTasksTool,
+    addTaskTool,
+    searchYoutubeTool,
+    searchMusicTool,
+    playMusicTool,
+    openUrlTool,
+    sendNotificationTool,
+    searchWebTool
+];
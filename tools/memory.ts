@@ -0,0 +1,99 @@
+import { Type } from '@google/genai';
+import { MemoryCategory } from '../types';
+import { defineTool, ToolError } from './registry';
+import { MEMORY_CATEGORIES, IMPORTANCE_RANGE, expiryFromDays, sanitizeMemoryUpdate, clampImportance } from '../utils/memories';
+
+const DEFAULT_RECALL_LIMIT = 5;
+const MAX_RECALL_LIMIT = 20;
+
+const CATEGORY_IDS = MEMORY_CATEGORIES.map(c => c.id);
+
+// Shared by rememberNote and updateMemory
+const memoryFieldSchemas = {
+    category: { type: Type.STRING, enum: CATEGORY_IDS, description: "preference (likes/dislikes), fact (about the user's life), person (someone they know), event (something dated)." },
+    importance: { type: Type.INTEGER, description: `${IMPORTANCE_RANGE.min} (trivia) to ${IMPORTANCE_RANGE.max} (core to who the user is).` },
+    expiresInDays: { type: Type.NUMBER, description: "For temporary facts, days until the memory stops being relevant." }
+};
+
+interface MemoryFieldArgs {
+    category?: MemoryCategory;
+    importance?: number;
+    expiresInDays?: number;
+}
+
+const validExpiryDays = (days?: number) => typeof days === 'number' && Number.isFinite(days) && days > 0;
+
+export const rememberNoteTool = defineTool<{ note: string } & MemoryFieldArgs>({
+    declaration: {
+        name: "rememberNote",
+        description: "Save a short note or memory about the user.",
+        parameters: { type: Type.OBJECT, properties: { note: { type: Type.STRING }, ...memoryFieldSchemas }, required: ["note"] }
+    },
+    handler: async ({ note, category, importance, expiresInDays }, ctx) => {
+        ctx.onNoteRemembered?.(note, {
+            category: CATEGORY_IDS.includes(category as MemoryCategory) ? category : undefined,
+            importance: importance !== undefined ? clampImportance(importance) : undefined,
+            expiresAt: validExpiryDays(expiresInDays) ? expiryFromDays(expiresInDays!) : undefined
+        });
+        return "Note saved!";
+    }
+});
+
+export const updateMemoryTool = defineTool<{ id: string; text?: string; neverExpires?: boolean } & MemoryFieldArgs>({
+    declaration: {
+        name: "updateMemory",
+        description: "Correct or re-classify an existing memory. Get the id from recallMemories first.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                id: { type: Type.STRING },
+                text: { type: Type.STRING, description: "Replacement text." },
+                ...memoryFieldSchemas,
+                neverExpires: { type: Type.BOOLEAN, description: "Remove an existing expiry." }
+            },
+            required: ["id"]
+        }
+    },
+    handler: async ({ id, text, category, importance, expiresInDays, neverExpires }, ctx) => {
+        if (!ctx.onMemoryUpdated) throw new ToolError('DISABLED', 'Memory editing is not available');
+        const update = sanitizeMemoryUpdate({
+            text,
+            category,
+            importance,
+            expiresAt: neverExpires ? null : validExpiryDays(expiresInDays) ? expiryFromDays(expiresInDays!) : undefined
+        });
+        if (Object.keys(update).length === 0) throw new ToolError('INVALID_ARGS', 'Nothing to update');
+        const updated = await ctx.onMemoryUpdated(id, update);
+        if (!updated) throw new ToolError('NOT_FOUND', `No memory with id ${id}`);
+        return `Memory updated: ${updated.text}`;
+    }
+});
+
+export const recallMemoriesTool = defineTool<{ query: string; limit?: number }>({
+    declaration: {
+        name: "recallMemories",
+        description: "Search long-term memory for notes relevant to a topic, person or question. Use before saying you don't know something about the user.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                query: { type: Type.STRING, description: "What to look for, in natural language." },
+                limit: { type: Type.INTEGER, description: `Maximum results (default ${DEFAULT_RECALL_LIMIT}).` }
+            },
+            required: ["query"]
+        }
+    },
+    handler: async ({ query, limit }, ctx) => {
+        if (!ctx.recallMemories) throw new ToolError('DISABLED', 'Memory recall is not available');
+        if (!query?.trim()) throw new ToolError('INVALID_ARGS', 'query is required');
+        const k = Math.min(Math.max(Math.round(limit || DEFAULT_RECALL_LIMIT), 1), MAX_RECALL_LIMIT);
+        const matches = await ctx.recallMemories(query, k);
+        if (matches.length === 0) return "No matching memories.";
+        return matches.map(m => ({
+            id: m.id,
+            note: m.text,
+            category: m.category,
+            importance: m.importance,
+            saved: new Date(m.timestamp).toISOString().slice(0, 10)
+        }));
+    }
+});
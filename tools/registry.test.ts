@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { IntegrationsConfig } from '../types';
+import { createToolRegistry, defineTool, ToolError } from './registry';
+import { ToolContext } from './types';
+
+const ctx = { integrationsConfig: { workspace: false } as IntegrationsConfig, accessToken: null } as ToolContext;
+
+const tool = (name: string, handler: (args: { value?: string }) => Promise<unknown>, options: { timeoutMs?: number; workspace?: boolean } = {}) =>
+    defineTool<{ value?: string }>({
+        declaration: { name, description: name },
+        isEnabled: options.workspace ? config => config.workspace : undefined,
+        timeoutMs: options.timeoutMs,
+        handler
+    });
+
+describe('createToolRegistry', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('returns strings as they are and serialises everything else', async () => {
+        const registry = createToolRegistry([
+            tool('echo', async ({ value }) => value),
+            tool('list', async () => [{ id: 1 }]),
+            tool('nothing', async () => undefined)
+        ]);
+        expect(await registry.execute({ name: 'echo', args: { value: 'hi' } }, ctx)).toEqual({ result: 'hi' });
+        expect(await registry.execute({ name: 'list' }, ctx)).toEqual({ result: '[{"id":1}]' });
+        expect(await registry.execute({ name: 'nothing' }, ctx)).toEqual({ result: 'null' });
+    });
+
+    it('reports unknown and disabled tools without running them', async () => {
+        const handler = vi.fn(async () => 'ran');
+        const registry = createToolRegistry([tool('drive', handler, { workspace: true })]);
+        expect(await registry.execute({ name: 'missing' }, ctx)).toEqual({ error: { code: 'UNKNOWN_TOOL', message: 'No tool named "missing"' } });
+        expect(await registry.execute({ name: 'drive' }, ctx)).toEqual({ error: { code: 'DISABLED', message: 'drive is disabled in settings' } });
+        expect(registry.getDeclarations(ctx.integrationsConfig, ctx)).toEqual([]);
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('passes tool errors on and wraps unexpected ones', async () => {
+        const registry = createToolRegistry([
+            tool('lookup', async () => { throw new ToolError('NOT_FOUND', 'No such file'); }),
+            tool('broken', async () => { throw new Error('boom'); })
+        ]);
+        expect(await registry.execute({ name: 'lookup' }, ctx)).toEqual({ error: { code: 'NOT_FOUND', message: 'No such file' } });
+        expect(await registry.execute({ name: 'broken' }, ctx)).toEqual({ error: { code: 'INTERNAL', message: 'boom' } });
+    });
+
+    it('times out slow handlers with the tool or registry limit', async () => {
+        vi.useFakeTimers();
+        const never = () => new Promise<unknown>(() => {});
+        const registry = createToolRegistry([tool('slow', never, { timeoutMs: 50 }), tool('slower', never)], 1000);
+
+        const slow = registry.execute({ name: 'slow' }, ctx);
+        const slower = registry.execute({ name: 'slower' }, ctx);
+        await vi.advanceTimersByTimeAsync(50);
+        expect(await slow).toEqual({ error: { code: 'TIMEOUT', message: 'slow timed out after 50ms' } });
+        await vi.advanceTimersByTimeAsync(950);
+        expect(await slower).toEqual({ error: { code: 'TIMEOUT', message: 'slower timed out after 1000ms' } });
+    });
+
+    it('lets later registrations override earlier ones', async () => {
+        const registry = createToolRegistry([tool('echo', async () => 'built-in')]);
+        registry.register(tool('echo', async () => 'host'));
+        expect(await registry.execute({ name: 'echo' }, ctx)).toEqual({ result: 'host' });
+        expect(registry.getDeclarations(ctx.integrationsConfig, ctx)).toHaveLength(1);
+    });
+});
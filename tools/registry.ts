@@ -0,0 +1,78 @@
+import { FunctionCall, FunctionDeclaration } from '@google/genai';
+import { IntegrationsConfig } from '../types';
+import { LiveTool, ToolContext, ToolEnvironment, ToolErrorCode, ToolResponse } from './types';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+export class ToolError extends Error {
+    code: ToolErrorCode;
+
+    constructor(code: ToolErrorCode, message: string) {
+        super(message);
+        this.name = 'ToolError';
+        this.code = code;
+    }
+}
+
+// Helper so handler args are inferred from the generic instead of `any`
+export const defineTool = <TArgs>(tool: LiveTool<TArgs>): LiveTool<TArgs> => tool;
+
+export interface ToolRegistry {
+    register: (tool: LiveTool) => void;
+    get: (name: string) => LiveTool | undefined;
+    getDeclarations: (config: IntegrationsConfig, env: ToolEnvironment) => FunctionDeclaration[];
+    execute: (call: FunctionCall, ctx: ToolContext) => Promise<ToolResponse>;
+}
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, name: string): Promise<T> => {
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new ToolError('TIMEOUT', `${name} timed out after ${ms}ms`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+export const createToolRegistry = (tools: LiveTool[] = [], defaultTimeoutMs: number = DEFAULT_TIMEOUT_MS): ToolRegistry => {
+    const byName = new Map<string, LiveTool>();
+
+    const register = (tool: LiveTool) => {
+        const name = tool.declaration.name;
+        if (!name) throw new Error('Tool declaration is missing a name');
+        // Later registrations win so host apps can override built-ins
+        byName.set(name, tool);
+    };
+
+    tools.forEach(register);
+
+    const isEnabled = (tool: LiveTool, config: IntegrationsConfig, env: ToolEnvironment) =>
+        !tool.isEnabled || tool.isEnabled(config, env);
+
+    const getDeclarations = (config: IntegrationsConfig, env: ToolEnvironment) =>
+        Array.from(byName.values())
+            .filter(tool => isEnabled(tool, config, env))
+            .map(tool => tool.declaration);
+
+    const execute = async (call: FunctionCall, ctx: ToolContext): Promise<ToolResponse> => {
+        const name = call.name || '';
+        const tool = byName.get(name);
+        if (!tool) return { error: { code: 'UNKNOWN_TOOL', message: `No tool named "${name}"` } };
+        if (!isEnabled(tool, ctx.integrationsConfig, ctx)) {
+            return { error: { code: 'DISABLED', message: `${name} is disabled in settings` } };
+        }
+
+        try {
+            const result = await withTimeout(tool.handler(call.args || {}, ctx), tool.timeoutMs ?? defaultTimeoutMs, name);
+            return { result: typeof result === 'string' ? result : JSON.stringify(result ?? null) };
+        } catch (e: any) {
+            if (e instanceof ToolError) return { error: { code: e.code, message: e.message } };
+            return { error: { code: 'INTERNAL', message: e?.message || String(e) } };
+        }
+    };
+
+    return {
+        register,
+        get: (name: string) => byName.get(name),
+        getDeclarations,
+        execute
+    };
+};
@@ -0,0 +1,23 @@
+import { Type } from '@google/genai';
+import { defineTool, ToolError } from './registry';
+
+export const openUrlTool = defineTool<{ url: string }>({
+    declaration: { name: "openUrl", description: "Open URL.", parameters: { type: Type.OBJECT, properties: { url: { type: Type.STRING } }, required: ["url"] } },
+    isEnabled: (config) => config.openTabs,
+    handler: async ({ url }) => {
+        window.open(url, '_blank');
+        return "Opened";
+    }
+});
+
+export const sendNotificationTool = defineTool<{ title: string; body: string }>({
+    declaration: { name: "sendNotification", description: "Send notification.", parameters: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, body: { type: Type.STRING } }, required: ["title", "body"] } },
+    isEnabled: (config) => config.notifications,
+    handler: async ({ title, body }) => {
+        if (!("Notification" in window) || Notification.permission !== 'granted') {
+            throw new ToolError('DISABLED', 'Browser notification permission not granted');
+        }
+        new Notification(title, { body });
+        return "Sent";
+    }
+});
@@ -0,0 +1,30 @@
+import { Type } from '@google/genai';
+import { defineTool, ToolError } from './registry';
+
+export const listTaskListsTool = defineTool<{}>({
+    declaration: { name: "listTaskLists", description: "Get task lists.", parameters: { type: Type.OBJECT, properties: {} } },
+    isEnabled: (config) => config.workspace,
+    handler: async (_args, ctx) => {
+        if (!ctx.getTaskLists) throw new ToolError('DISABLED', 'Google Tasks is not available');
+        return await ctx.getTaskLists();
+    }
+});
+
+export const listTasksTool = defineTool<{ listId?: string }>({
+    declaration: { name: "listTasks", description: "Get tasks.", parameters: { type: Type.OBJECT, properties: { listId: { type: Type.STRING } } } },
+    isEnabled: (config) => config.workspace,
+    handler: async ({ listId }, ctx) => {
+        if (!ctx.getTasks) throw new ToolError('DISABLED', 'Google Tasks is not available');
+        return await ctx.getTasks(listId);
+    }
+});
+
+export const addTaskTool = defineTool<{ title: string; notes?: string; listId?: string }>({
+    declaration: { name: "addTask", description: "Add task.", parameters: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, notes: { type: Type.STRING }, listId: { type: Type.STRING } }, required: ["title"] } },
+    isEnabled: (config) => config.workspace,
+    handler: async ({ title, notes, listId }, ctx) => {
+        if (!ctx.addTask) throw new ToolError('DISABLED', 'Google Tasks is not available');
+        await ctx.addTask(title, notes, listId);
+        return "Added";
+    }
+});
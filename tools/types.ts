@@ -0,0 +1,54 @@
+import { FunctionDeclaration } from '@google/genai';
+import { IntegrationsConfig, DriveFile, WorkspaceFile, GroundingMetadata, Expression, Memory, MemoryDetails, MemoryUpdate } from '../types';
+
+export type ToolLogType = 'info' | 'tool' | 'error';
+
+// Everything a tool handler may touch. Built once per live session by useGeminiLive.
+export interface ToolContext {
+    integrationsConfig: IntegrationsConfig;
+    accessToken: string | null;
+    apiKey: string;
+    customSearchCx: string;
+    allowedExpressions: Expression[];
+    getFiles: () => WorkspaceFile[];
+    log: (type: ToolLogType, message: string, data?: any) => void;
+    setGroundingMetadata: (metadata: GroundingMetadata) => void;
+    onNoteRemembered?: (note: string, details?: MemoryDetails) => void;
+    onMemoryUpdated?: (id: string, update: MemoryUpdate) => Promise<Memory | null>;
+    recallMemories?: (query: string, limit: number) => Promise<Memory[]>;
+    onFileSaved?: (fileName: string, content: string) => void;
+    onPlayMusic?: (val: string, type: 'id' | 'query') => void;
+    onExpressionChange?: (expression: string) => void;
+    searchDriveFiles?: (query: string) => Promise<DriveFile[]>;
+    readDriveFile?: (fileId: string) => Promise<string | null>;
+    getTaskLists?: () => Promise<any[]>;
+    getTasks?: (listId?: string) => Promise<any[]>;
+    addTask?: (title: string, notes?: string, listId?: string) => Promise<any>;
+}
+
+// Subset of the context available when deciding which tools to declare
+export type ToolEnvironment = Pick<ToolContext, 'accessToken' | 'customSearchCx' | 'allowedExpressions'>;
+
+export interface LiveTool<TArgs = Record<string, any>> {
+    declaration: FunctionDeclaration;
+    // Omitted = always enabled
+    isEnabled?: (config: IntegrationsConfig, env: ToolEnvironment) => boolean;
+    // Omitted = registry default
+    timeoutMs?: number;
+    // Return a string or any JSON-serialisable value. Throw a ToolError for expected failures.
+    handler: (args: TArgs, ctx: ToolContext) => Promise<unknown>;
+}
+
+export type ToolErrorCode =
+    | 'UNKNOWN_TOOL'
+    | 'DISABLED'
+    | 'AUTH_REQUIRED'
+    | 'INVALID_ARGS'
+    | 'NOT_FOUND'
+    | 'UPSTREAM_ERROR'
+    | 'TIMEOUT'
+    | 'INTERNAL';
+
+export type ToolResponse =
+    | { result: string }
+    | { error: { code: ToolErrorCode; message: string } };
@@ -0,0 +1,28 @@
+import { Type } from '@google/genai';
+import { GroundingMetadata } from '../types';
+import { defineTool, ToolError } from './registry';
+
+export const searchWebTool = defineTool<{ query: string }>({
+    declaration: { name: "searchWeb", description: "Personalized Search.", parameters: { type: Type.OBJECT, properties: { query: { type: Type.STRING } }, required: ["query"] } },
+    isEnabled: (config, env) => config.personalizedSearch && !!env.accessToken && !!env.customSearchCx,
+    handler: async ({ query }, ctx) => {
+        const url = `https://customsearch.googleapis.com/customsearch/v1?q=${encodeURIComponent(query)}&cx=${ctx.customSearchCx}&key=${ctx.apiKey}`;
+        const res = await fetch(url, { headers: { Authorization: `Bearer ${ctx.accessToken}` } });
+        if (!res.ok) {
+            const errText = await res.text();
+            ctx.log('error', `Web Search Failed (${res.status})`, errText);
+            throw new ToolError('UPSTREAM_ERROR', `Custom Search API returned ${res.status}`);
+        }
+        const data = await res.json();
+        if (!data.items) return "No results";
+
+        const items = data.items.slice(0, 5);
+        // Surface results in the sources overlay just like native grounding
+        const metadata: GroundingMetadata = {
+            webSearchQueries: [query],
+            groundingChunks: items.map((i: any) => ({ web: { uri: i.link, title: i.title } }))
+        };
+        ctx.setGroundingMetadata(metadata);
+        return items.map((i: any) => ({ title: i.title, link: i.link, snippet: i.snippet }));
+    }
+});
@@ -0,0 +1,24 @@
+import { Type } from '@google/genai';
+import { defineTool, ToolError } from './registry';
+
+export const listFilesTool = defineTool<{}>({
+    declaration: { name: "listFiles", description: "List workspace files.", parameters: { type: Type.OBJECT, properties: {} } },
+    handler: async (_args, ctx) => ctx.getFiles().map(f => f.name).join(', ')
+});
+
+export const readFileTool = defineTool<{ fileName: string }>({
+    declaration: { name: "readFile", description: "Read workspace file.", parameters: { type: Type.OBJECT, properties: { fileName: { type: Type.STRING } }, required: ["fileName"] } },
+    handler: async ({ fileName }, ctx) => {
+        const f = ctx.getFiles().find(file => file.name === fileName);
+        if (!f) throw new ToolError('NOT_FOUND', `No workspace file named "${fileName}"`);
+        return f.content;
+    }
+});
+
+export const saveToWorkspaceTool = defineTool<{ fileName: string; content: string }>({
+    declaration: { name: "saveToWorkspace", description: "Save generated content.", parameters: { type: Type.OBJECT, properties: { fileName: { type: Type.STRING }, content: { type: Type.STRING } }, required: ["fileName", "content"] } },
+    handler: async ({ fileName, content }, ctx) => {
+        ctx.onFileSaved?.(fileName, content);
+        return "File saved!";
+    }
+});
@@ -0,0 +1,40 @@
+import { Type } from '@google/genai';
+import { defineTool, ToolError } from './registry';
+import { ToolContext } from './types';
+
+const searchVideos = async (ctx: ToolContext, label: string, params: string) => {
+    if (!ctx.accessToken) throw new ToolError('AUTH_REQUIRED', 'Sign in with Google to search YouTube');
+    const url = `https://www.googleapis.com/youtube/v3/search?part=snippet&maxResults=5&type=video&videoEmbeddable=true&${params}&key=${ctx.apiKey}`;
+    const res = await fetch(url, { headers: { Authorization: `Bearer ${ctx.accessToken}` } });
+    if (!res.ok) {
+        const errText = await res.text();
+        ctx.log('error', `${label} API Failed (${res.status})`, errText);
+        throw new ToolError('UPSTREAM_ERROR', `${label} API returned ${res.status}`);
+    }
+    const data = await res.json();
+    if (!data.items) return "No results found.";
+    return data.items.map((i: any) => ({ title: i.snippet.title, videoId: i.id.videoId }));
+};
+
+export const searchYoutubeTool = defineTool<{ query: string }>({
+    declaration: { name: "searchYoutube", description: "Search for a video on YouTube. Returns a list of candidates with videoId.", parameters: { type: Type.OBJECT, properties: { query: { type: Type.STRING } }, required: ["query"] } },
+    isEnabled: (config) => config.youtube,
+    handler: async ({ query }, ctx) => searchVideos(ctx, 'Youtube', `q=${encodeURIComponent(query)}`)
+});
+
+export const searchMusicTool = defineTool<{ query: string }>({
+    declaration: { name: "searchMusic", description: "Search for music on YouTube Music. Returns a list of candidates with videoId.", parameters: { type: Type.OBJECT, properties: { query: { type: Type.STRING } }, required: ["query"] } },
+    isEnabled: (config) => config.media,
+    handler: async ({ query }, ctx) => searchVideos(ctx, 'Music', `q=${encodeURIComponent(query + " music")}&videoCategoryId=10`)
+});
+
+export const playMusicTool = defineTool<{ videoId?: string; query?: string }>({
+    declaration: { name: "playMusic", description: "Play a specific video/song. Prefer using videoId if available from search results.", parameters: { type: Type.OBJECT, properties: { videoId: { type: Type.STRING }, query: { type: Type.STRING } } } },
+    isEnabled: (config) => config.media,
+    handler: async ({ videoId, query }, ctx) => {
+        if (!videoId && !query) throw new ToolError('INVALID_ARGS', 'Provide either videoId or query');
+        if (videoId) ctx.onPlayMusic?.(videoId, 'id');
+        else ctx.onPlayMusic?.(query!, 'query');
+        return "Playing music";
+    }
+});
@@ -14,6 +14,7 @@ export enum ConnectionState {
     DISCONNECTED = 'disconnected',
     CONNECTING = 'connecting',
     CONNECTED = 'connected',
+    RECONNECTING = 'reconnecting',
     ERROR = 'error'
 }
 
@@ -30,10 +31,40 @@ export interface GroundingMetadata {
     webSearchQueries?: string[];
 }
 
+export type MemoryCategory = 'preference' | 'fact' | 'person' | 'event';
+export type MemorySource = 'voice' | 'pinned_search' | 'pinned_file';
+
 export interface Memory {
     id: string;
     text: string;
     timestamp: Date;
+    category: MemoryCategory;
+    importance: number;      // 1 (trivia) - 5 (core to who the user is)
+    source: MemorySource;
+    expiresAt?: Date;        // Ignored once passed (e.g. "dentist on Friday")
+    updatedAt?: Date;
+    embedding?: number[];    // Unit-length vector, see utils/embeddings
+    embeddingModel?: string; // Vectors from another model are re-embedded
+}
+
+// Undo record for one consolidation: the canonical memory replaced `originals` (embeddings stripped)
+export interface MemoryMerge {
+    id: string;
+    canonicalId: string;
+    mergedAt: Date;
+    origin: 'manual' | 'scheduled';
+    originals: Memory[];
+}
+
+// Optional details when creating a memory; omitted fields get defaults (utils/memories)
+export type MemoryDetails = Partial<Pick<Memory, 'category' | 'importance' | 'source' | 'expiresAt'>>;
+
+// Editable fields. expiresAt: null clears the expiry.
+export interface MemoryUpdate {
+    text?: string;
+    category?: MemoryCategory;
+    importance?: number;
+    expiresAt?: Date | null;
 }
 
 export interface WorkspaceFile {
@@ -44,6 +75,14 @@ export interface WorkspaceFile {
     lastModified: number;
 }
 
+// A Drive search hit, as listed by the Drive API
+export interface DriveFile {
+    id: string;
+    name: string;
+    mimeType?: string;
+    description?: string;
+}
+
 export interface GoogleUser {
     name: string;
     email: string;
@@ -57,6 +96,94 @@ export interface IntegrationsConfig {
     notifications: boolean; // Browser Notifications
     openTabs: boolean;      // Allow opening new tabs/windows
     personalizedSearch: boolean; // Custom Search API
+    vision: boolean;        // Camera / screen-share frames sent to the live session
+}
+
+export type VideoSource = 'camera' | 'screen';
+
+export type InputMode = 'open' | 'pushToTalk';
+
+export interface InputSettings {
+    mode: InputMode;
+    pushToTalkKey: string;          // KeyboardEvent.code held to talk, e.g. "Space"
+    toggleConnectionHotkey: string; // Combo like "Alt+KeyC", see utils/hotkeys
+}
+
+export type Expression = 'neutral' | 'happy' | 'sad' | 'angry' | 'surprised';
+
+export interface PersonaProfile {
+    id: string;
+    name: string;
+    personality: string;       // Free-form identity/behaviour prompt
+    userAddress: string;       // How she addresses the user, e.g. "User-sama"
+    voiceName: string;         // Prebuilt Gemini voice
+    language: string;          // BCP-47 code she should speak in
+    allowedExpressions: Expression[];
+    defaultIntegrations?: Partial<IntegrationsConfig>; // Applied when switching to this persona
+}
+
+export type ResponseModality = 'audio' | 'text';
+
+export interface ModelSettings {
+    model: string;                      // Must be one of LIVE_MODELS (utils/models)
+    temperature: number;
+    responseModality: ResponseModality; // 'text' runs a cheaper session without spoken replies
+    transcription: boolean;             // Transcribe voice in/out into the chat history
+}
+
+export interface UsageTotals {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    inputAudioSeconds: number;  // Mic audio actually sent to the session
+    outputAudioSeconds: number; // Model audio played back
+    toolCalls: number;
+    turns: number;
+}
+
+export interface DailyUsage {
+    date: string; // Local calendar day, YYYY-MM-DD
+    totals: UsageTotals;
+}
+
+// null = no limit. Crossing warnRatio of a limit warns; reaching it ends the session.
+export interface UsageBudget {
+    dailyTokenLimit: number | null;
+    dailyAudioMinutesLimit: number | null;
+    warnRatio: number;
+}
+
+// Days the backend keeps each kind of data; null keeps it forever. A scheduled job deletes what is older once a day.
+export interface RetentionPolicy {
+    chatDays: number | null;           // Per message; a conversation goes once none of its messages are left
+    searchHistoryDays: number | null;
+    memoriesDays: number | null;       // Since the memory was last changed
+    notificationsDays: number | null;
+}
+
+// Per-browser device choice (device ids are origin-scoped, so this is not synced)
+export interface AudioDeviceSettings {
+    inputDeviceId: string | null;  // null = system default
+    outputDeviceId: string | null;
+}
+
+// Shape of the /settings document. Integration toggles stay top-level for older clients.
+export interface UserSettings extends IntegrationsConfig {
+    input?: InputSettings;
+    personas?: PersonaProfile[];
+    activePersonaId?: string;
+    model?: ModelSettings;
+    budget?: UsageBudget;
+    retention?: RetentionPolicy;
+}
+
+// Only metadata and a small thumbnail are kept; the file itself is sent to the model once
+export interface ChatAttachment {
+    id: string;
+    name: string;
+    mimeType: string;
+    size: number;
+    thumbnail?: string; // JPEG data URL, images only
 }
 
 export interface ChatMessage {
@@ -64,6 +191,104 @@ export interface ChatMessage {
     role: 'user' | 'model';
     text: string;
     timestamp: Date;
+    attachments?: ChatAttachment[];
+    threadId?: string;
+}
+
+// A named conversation; by default every live session starts a new one
+export interface ChatThread {
+    id: string;
+    title: string;        // Empty until renamed; the UI falls back to the preview
+    createdAt: Date;
+    updatedAt: Date;      // Time of the latest message
+    messageCount: number;
+    preview: string;      // Start of the first user message
+}
+
+// One page of a backend list; pass nextCursor back to get the following page (null: no more)
+export interface Page<T> {
+    items: T[];
+    nextCursor: string | null;
+}
+
+export type SearchResultType = 'chat' | 'memory' | 'search' | 'file';
+
+// One hit of the unified search; `id` is the item's id in its own collection
+export interface SearchResult {
+    type: SearchResultType;
+    id: string;
+    title: string;
+    snippet: string;
+    timestamp: Date;
+    score: number;
+    threadId?: string; // Chat hits: the thread the message belongs to
+}
+
+export interface SearchHistoryItem {
+    id: number;
+    timestamp: Date;
+    query: string;
+    sources: { title: string; uri: string; type: 'web' | 'map' }[];
+    updatedAt?: Date; // Set when sources are added after the search was saved
+}
+
+// GET /sync response: what changed on the backend since the last pull
+export interface SyncDeletion {
+    collection: 'memories' | 'search_history';
+    id: string;
+    deletedAt: Date;
+}
+
+export interface SyncChanges {
+    memories: Memory[];
+    searchHistory: SearchHistoryItem[];
+    settings: Partial<UserSettings> | null; // null when unchanged
+    deleted: SyncDeletion[];
+    nextSince: string;
+}
+
+export interface SyncStatus {
+    isSyncing: boolean;
+    pendingCount: number;      // Mutations waiting in the outbox
+    lastSyncedAt: Date | null;
+    error: string | null;      // Last failed send, cleared once the outbox drains
+}
+
+// A thread with all of its messages, oldest first
+export interface ArchivedThread extends ChatThread {
+    messages: ChatMessage[];
+}
+
+// Everything kept for a user in one versioned file: GET /export, or Settings > Your Data when signed out
+export interface DataArchive {
+    format: 'gem-companion-export';
+    version: number;
+    exportedAt: Date;
+    memories: Memory[];
+    threads: ArchivedThread[];
+    searchHistory: SearchHistoryItem[];
+    settings: Partial<UserSettings>;
+    notifications: NotificationItem[];
+}
+
+// merge: the archive joins what is there, newer versions win; replace: what the archive doesn't have is removed
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportCounts {
+    added: number;
+    updated: number;
+    unchanged: number;   // Already there in the same or a newer version
+    removed: number;     // Replace mode only
+}
+
+export interface ImportSummary {
+    mode: ImportMode;
+    dryRun: boolean;     // Nothing was written; the counts are what an import would do
+    memories: ImportCounts;
+    threads: ImportCounts;
+    searchHistory: ImportCounts;
+    notifications: ImportCounts;
+    settings: string[];  // Sections written
 }
 
 export interface MusicState {
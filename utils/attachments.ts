@@ -0,0 +1,70 @@
+import { ChatAttachment } from '../types';
+import { arrayBufferToBase64 } from './audioUtils';
+
+// Inline data travels inside the websocket message, so keep it well below the request size limit
+export const MAX_ATTACHMENT_BYTES = 7 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+export const ATTACHMENT_ACCEPT = 'image/png,image/jpeg,image/webp,image/heic,image/heif,application/pdf,text/plain,text/markdown,text/csv';
+const THUMBNAIL_EDGE = 160;
+
+// Attachment as held by the composer: metadata for the chat log plus the payload sent to the model
+export interface PendingAttachment {
+    attachment: ChatAttachment;
+    data: string; // base64, never persisted
+}
+
+const isImage = (mimeType: string) => mimeType.startsWith('image/');
+
+const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not decode image'));
+    img.src = url;
+});
+
+// Small JPEG data URL so chat history stays cheap to store locally and in the backend
+async function createThumbnail(file: File): Promise<string | undefined> {
+    const url = URL.createObjectURL(file);
+    try {
+        const img = await loadImage(url);
+        const scale = Math.min(1, THUMBNAIL_EDGE / Math.max(img.width, img.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(img.width * scale));
+        canvas.height = Math.max(1, Math.round(img.height * scale));
+        canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+        return canvas.toDataURL('image/jpeg', 0.7);
+    } catch (e) {
+        // e.g. HEIC in browsers that can't render it; the model can still read it
+        return undefined;
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+export async function readAttachment(file: File): Promise<PendingAttachment> {
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+        throw new Error(`${file.name} is larger than ${Math.round(MAX_ATTACHMENT_BYTES / (1024 * 1024))} MB`);
+    }
+    const mimeType = file.type || 'application/octet-stream';
+    if (!ATTACHMENT_ACCEPT.split(',').includes(mimeType)) {
+        throw new Error(`${file.name}: unsupported file type (${mimeType})`);
+    }
+    const data = arrayBufferToBase64(new Uint8Array(await file.arrayBuffer()));
+    return {
+        attachment: {
+            id: Date.now() + Math.random().toString(36).slice(2),
+            name: file.name,
+            mimeType,
+            size: file.size,
+            thumbnail: isImage(mimeType) ? await createThumbnail(file) : undefined
+        },
+        data
+    };
+}
+
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
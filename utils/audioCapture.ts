@@ -0,0 +1,139 @@
+import { Blob } from '@google/genai';
+import { createPcmBlob } from './audioUtils';
+
+export const DEFAULT_CAPTURE_FRAME_SIZE = 4096;
+const WORKLET_NAME = 'pcm-capture';
+
+export interface AudioCaptureOptions {
+  // Samples per frame handed to onFrame (4096 @ 16kHz ≈ 256ms)
+  frameSize?: number;
+  onFrame: (blob: Blob) => void;
+}
+
+export interface AudioCapture {
+  mode: 'worklet' | 'script-processor';
+  stop: () => void;
+}
+
+// Runs inside AudioWorkletGlobalScope, which has no btoa, so base64 is encoded by hand.
+const WORKLET_SOURCE = `
+const B64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function toBase64(bytes) {
+  let out = '';
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    out += B64[(n >> 18) & 63] + B64[(n >> 12) & 63] + B64[(n >> 6) & 63] + B64[n & 63];
+  }
+  const rem = bytes.length - i;
+  if (rem === 1) {
+    const n = bytes[i] << 16;
+    out += B64[(n >> 18) & 63] + B64[(n >> 12) & 63] + '==';
+  } else if (rem === 2) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8);
+    out += B64[(n >> 18) & 63] + B64[(n >> 12) & 63] + B64[(n >> 6) & 63] + '=';
+  }
+  return out;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.frameSize = (options.processorOptions && options.processorOptions.frameSize) || ${DEFAULT_CAPTURE_FRAME_SIZE};
+    this.frame = new Int16Array(this.frameSize);
+    this.offset = 0;
+    this.active = true;
+    this.port.onmessage = (e) => { if (e.data === 'stop') this.active = false; };
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      for (let i = 0; i < channel.length; i++) {
+        const s = Math.max(-1, Math.min(1, channel[i]));
+        this.frame[this.offset++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+        if (this.offset === this.frameSize) {
+          this.port.postMessage(toBase64(new Uint8Array(this.frame.buffer)));
+          this.offset = 0;
+        }
+      }
+    }
+    return this.active;
+  }
+}
+
+registerProcessor('${WORKLET_NAME}', PcmCaptureProcessor);
+`;
+
+// registerProcessor throws if the same name is registered twice on one context (e.g. when swapping mics)
+const registeredContexts = new WeakSet<BaseAudioContext>();
+
+export const isAudioWorkletSupported = (ctx: AudioContext) =>
+  typeof AudioWorkletNode !== 'undefined' && !!ctx.audioWorklet;
+
+async function createWorkletCapture(ctx: AudioContext, source: AudioNode, frameSize: number, onFrame: (blob: Blob) => void): Promise<AudioCapture> {
+  if (!registeredContexts.has(ctx)) {
+    const url = URL.createObjectURL(new window.Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+    try {
+      await ctx.audioWorklet.addModule(url);
+      registeredContexts.add(ctx);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  const node = new AudioWorkletNode(ctx, WORKLET_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    processorOptions: { frameSize }
+  });
+  const mimeType = `audio/pcm;rate=${ctx.sampleRate}`;
+  node.port.onmessage = (e: MessageEvent<string>) => onFrame({ data: e.data, mimeType });
+
+  source.connect(node);
+  // Output is silent; connecting keeps the node pulled by the graph in every browser
+  node.connect(ctx.destination);
+
+  return {
+    mode: 'worklet',
+    stop: () => {
+      node.port.postMessage('stop');
+      node.port.onmessage = null;
+      source.disconnect(node);
+      node.disconnect();
+    }
+  };
+}
+
+// Main-thread fallback for browsers without AudioWorklet
+function createScriptProcessorCapture(ctx: AudioContext, source: AudioNode, frameSize: number, onFrame: (blob: Blob) => void): AudioCapture {
+  const processor = ctx.createScriptProcessor(frameSize, 1, 1);
+  processor.onaudioprocess = (e) => onFrame(createPcmBlob(e.inputBuffer.getChannelData(0)));
+
+  source.connect(processor);
+  processor.connect(ctx.destination);
+
+  return {
+    mode: 'script-processor',
+    stop: () => {
+      processor.onaudioprocess = null;
+      source.disconnect(processor);
+      processor.disconnect();
+    }
+  };
+}
+
+export async function createAudioCapture(ctx: AudioContext, source: AudioNode, { frameSize = DEFAULT_CAPTURE_FRAME_SIZE, onFrame }: AudioCaptureOptions): Promise<AudioCapture> {
+  if (isAudioWorkletSupported(ctx)) {
+    try {
+      return await createWorkletCapture(ctx, source, frameSize, onFrame);
+    } catch (e) {
+      console.warn("AudioWorklet capture failed, falling back to ScriptProcessorNode:", e);
+    }
+  }
+  // ScriptProcessorNode only accepts powers of two between 256 and 16384
+  const bufferSize = Math.min(16384, Math.max(256, 2 ** Math.round(Math.log2(frameSize))));
+  return createScriptProcessorCapture(ctx, source, bufferSize, onFrame);
+}
@@ -0,0 +1,58 @@
+const MIC_PROCESSING: MediaTrackConstraints = {
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true
+};
+
+export interface AudioDeviceOption {
+    deviceId: string;
+    label: string;
+}
+
+// Opens the requested mic, falling back to the default one if it has been unplugged
+export async function getMicrophoneStream(deviceId: string | null): Promise<MediaStream> {
+    if (deviceId) {
+        try {
+            return await navigator.mediaDevices.getUserMedia({ audio: { ...MIC_PROCESSING, deviceId: { exact: deviceId } } });
+        } catch (e: any) {
+            if (e?.name !== 'OverconstrainedError' && e?.name !== 'NotFoundError') throw e;
+            console.warn(`Microphone ${deviceId} unavailable, using default input`);
+        }
+    }
+    return navigator.mediaDevices.getUserMedia({ audio: MIC_PROCESSING });
+}
+
+export function stopStream(stream: MediaStream | null) {
+    stream?.getTracks().forEach(track => track.stop());
+}
+
+// AudioContext.setSinkId is Chromium-only at the time of writing
+type SinkAudioContext = AudioContext & { setSinkId(sinkId: string): Promise<void> };
+
+const hasSinkId = (ctx: AudioContext): ctx is SinkAudioContext => 'setSinkId' in ctx;
+
+export const supportsOutputSelection = () =>
+    typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+export async function applyOutputDevice(ctx: AudioContext, deviceId: string | null): Promise<boolean> {
+    if (!hasSinkId(ctx)) return false;
+    // Empty string selects the system default
+    await ctx.setSinkId(deviceId || '');
+    return true;
+}
+
+export async function listAudioDevices(): Promise<{ inputs: AudioDeviceOption[]; outputs: AudioDeviceOption[] }> {
+    if (!navigator.mediaDevices?.enumerateDevices) return { inputs: [], outputs: [] };
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    // Labels are blank until mic permission has been granted once
+    const toOption = (d: MediaDeviceInfo, i: number, kind: string): AudioDeviceOption => ({
+        deviceId: d.deviceId,
+        label: d.label || `${kind} ${i + 1}`
+    });
+    // "default" / "communications" are aliases Chrome adds on top of the real devices
+    const isAlias = (d: MediaDeviceInfo) => d.deviceId === 'default' || d.deviceId === 'communications' || d.deviceId === '';
+    return {
+        inputs: devices.filter(d => d.kind === 'audioinput' && !isAlias(d)).map((d, i) => toOption(d, i, 'Microphone')),
+        outputs: devices.filter(d => d.kind === 'audiooutput' && !isAlias(d)).map((d, i) => toOption(d, i, 'Speaker'))
+    };
+}
@@ -0,0 +1,158 @@
+import { ChatMessage } from '../types';
+
+export interface ContextConfig {
+  instructionTokenBudget: number; // Upper bound for the whole system instruction
+  summarizeAfterTokens: number;   // Unsummarized transcript size that triggers a compaction
+  keepRecentMessages: number;     // Turns kept verbatim after compaction
+  summaryMaxTokens: number;
+}
+
+export const DEFAULT_CONTEXT_CONFIG: ContextConfig = {
+  instructionTokenBudget: 4000,
+  summarizeAfterTokens: 3000,
+  keepRecentMessages: 8,
+  summaryMaxTokens: 600
+};
+
+// Rough but stable: ~4 characters per token for English text
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const CHARS_PER_RECENT_MESSAGE = 300;
+// Without a summarizer the transcript would grow forever
+const MAX_TRACKED_MESSAGES = 200;
+
+export type Summarizer = (prompt: string) => Promise<string>;
+
+export interface ContextSnapshot {
+  summary: string;
+  messages: ChatMessage[];
+}
+
+export interface SessionContext {
+  memories: string[];
+  transcriptSummary: string;
+}
+
+export interface ContextManager {
+  add: (message: ChatMessage) => void;
+  // Folds older turns into the running summary once the transcript grows past the threshold
+  compact: (summarize: Summarizer) => Promise<boolean>;
+  build: (memories: string[], tokenBudget: number, reason: 'new' | 'reconnect') => SessionContext;
+  snapshot: () => ContextSnapshot;
+  reset: () => void;
+}
+
+const formatLine = (m: ChatMessage, maxChars: number) => {
+  const text = m.text.length > maxChars ? m.text.slice(0, maxChars) + '…' : m.text;
+  return `${m.role === 'user' ? 'User' : 'You'}: ${text}`;
+};
+
+const tokenize = (text: string) =>
+  new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 2));
+
+const countOverlap = (text: string, queryWords: Set<string>) => {
+  let overlap = 0;
+  tokenize(text).forEach(w => { if (queryWords.has(w)) overlap++; });
+  return overlap;
+};
+
+export const keywordOverlap = (text: string, query: string) => countOverlap(text, tokenize(query));
+
+// Memories sharing the most words with the current conversation come first; ties keep the caller's order
+export function rankMemories(memories: string[], query: string): string[] {
+  const queryWords = tokenize(query);
+  if (queryWords.size === 0) return memories;
+  return memories
+    .map((text, index) => ({ text, index, overlap: countOverlap(text, queryWords) }))
+    .sort((a, b) => b.overlap - a.overlap || a.index - b.index)
+    .map(m => m.text);
+}
+
+function takeWithinBudget(items: string[], budget: number): string[] {
+  const taken: string[] = [];
+  let used = 0;
+  for (const item of items) {
+    const cost = estimateTokens(item) + 2;
+    if (used + cost > budget) continue;
+    taken.push(item);
+    used += cost;
+  }
+  return taken;
+}
+
+export function createContextManager(config: Partial<ContextConfig> = {}, initial?: ContextSnapshot): ContextManager {
+  const cfg = { ...DEFAULT_CONTEXT_CONFIG, ...config };
+  let summary = initial?.summary || "";
+  let messages: ChatMessage[] = initial?.messages || [];
+  let compacting: Promise<boolean> | null = null;
+
+  const transcriptTokens = () => messages.reduce((sum, m) => sum + estimateTokens(m.text) + 2, 0);
+
+  const compact = (summarize: Summarizer) => {
+    if (compacting) return compacting;
+    if (transcriptTokens() < cfg.summarizeAfterTokens || messages.length <= cfg.keepRecentMessages) {
+      return Promise.resolve(false);
+    }
+    const older = messages.slice(0, messages.length - cfg.keepRecentMessages);
+    const prompt = `You maintain the running memory of a voice conversation between a user and their AI companion.
+Merge the previous summary and the new turns into one updated summary of at most ${Math.round(cfg.summaryMaxTokens * 0.75)} words.
+Keep facts about the user, decisions, open questions and the current topic. Drop small talk. Write plain prose, no headings.
+
+PREVIOUS SUMMARY:
+${summary || "(none)"}
+
+NEW TURNS:
+${older.map(m => formatLine(m, 2000)).join('\n')}`;
+
+    compacting = summarize(prompt)
+      .then(result => {
+        const text = result.trim();
+        if (!text) return false;
+        summary = text;
+        // Messages added while the request was in flight stay after the ones we folded in
+        messages = messages.filter(m => !older.includes(m));
+        return true;
+      })
+      .finally(() => { compacting = null; });
+    return compacting;
+  };
+
+  const build = (memories: string[], tokenBudget: number, reason: 'new' | 'reconnect'): SessionContext => {
+    const budget = Math.max(0, tokenBudget);
+    const header = reason === 'reconnect'
+      ? "RECENT CONVERSATION (the connection dropped, continue naturally from here without greeting again):"
+      : "EARLIER CONVERSATION (from a previous session; use it as background, greet the user normally):";
+
+    // Summary first, then as many recent turns as fit in half the budget; memories get the rest
+    const summaryText = summary ? `Summary: ${summary}` : "";
+    const summaryCost = Math.min(estimateTokens(summaryText), Math.floor(budget / 2));
+    const trimmedSummary = summaryText.slice(0, summaryCost * 4);
+    const recentLines: string[] = [];
+    let used = summaryCost + estimateTokens(header);
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const line = formatLine(messages[i], CHARS_PER_RECENT_MESSAGE);
+      const cost = estimateTokens(line) + 1;
+      if (used + cost > budget / 2) break;
+      recentLines.unshift(line);
+      used += cost;
+    }
+
+    const hasHistory = trimmedSummary || recentLines.length > 0;
+    const transcriptSummary = hasHistory
+      ? `\n${header}\n${[trimmedSummary, ...recentLines].filter(Boolean).join('\n')}\n`
+      : "";
+
+    const query = [summary, ...messages.slice(-cfg.keepRecentMessages).map(m => m.text)].join(' ');
+    const selected = takeWithinBudget(rankMemories(memories, query), budget - (hasHistory ? used : 0));
+    return { memories: selected, transcriptSummary };
+  };
+
+  return {
+    // Only the text matters here; attachments and thumbnails would just bloat the snapshot
+    add: ({ id, role, text, timestamp }) => { messages = [...messages, { id, role, text, timestamp }].slice(-MAX_TRACKED_MESSAGES); },
+    compact,
+    build,
+    snapshot: () => ({ summary, messages }),
+    reset: () => { summary = ""; messages = []; }
+  };
+}
@@ -0,0 +1,237 @@
+// Wire contracts between the web client and api_endpoints. The API validates request bodies with these
+// (400 with field errors), useRemoteStorage parses responses with them.
+import type { ArchivedThread, ChatAttachment, ChatMessage, ChatThread, DailyUsage, DataArchive, ImportCounts, ImportSummary, SyncDeletion, IntegrationsConfig, Memory, MemoryMerge, MemorySource, MemoryUpdate, NotificationItem, SearchHistoryItem, SearchResult, UsageTotals, UserSettings } from '../types';
+import { MEMORY_CATEGORIES, MEMORY_SOURCE_LABELS, IMPORTANCE_RANGE, DEFAULT_IMPORTANCE } from './memories';
+import { ALL_EXPRESSIONS } from './personas';
+import { TEMPERATURE_RANGE } from './models';
+import { MAX_ATTACHMENTS_PER_MESSAGE } from './attachments';
+import { MAX_THREAD_TITLE_LENGTH } from './threads';
+import { SEARCH_RESULT_TYPES } from './search';
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION } from './portability';
+import { MAX_RETENTION_DAYS } from './retention';
+import { Schema, array, boolean, date, nullable, number, object, oneOf, optional, partial, string, withDefault } from './validation';
+
+// Firestore document ids can't contain slashes
+const docId = () => string({ min: 1, max: 128, pattern: /^[^/]+$/ });
+
+const memoryCategory = oneOf(MEMORY_CATEGORIES.map(c => c.id));
+const importance = number({ min: IMPORTANCE_RANGE.min, max: IMPORTANCE_RANGE.max, integer: true });
+
+// Older clients saved plain { id, text, timestamp }; the rest gets the same defaults as normalizeMemory
+export const memorySchema: Schema<Memory> = object({
+    id: docId(),
+    text: string({ min: 1, max: 4000 }),
+    timestamp: date(),
+    category: withDefault(memoryCategory, 'fact'),
+    importance: withDefault(importance, DEFAULT_IMPORTANCE),
+    source: withDefault(oneOf(Object.keys(MEMORY_SOURCE_LABELS) as MemorySource[]), 'voice'),
+    expiresAt: optional(date()),
+    updatedAt: optional(date()),
+    embedding: optional(array(number(), { max: 4096 })),
+    embeddingModel: optional(string({ max: 128 }))
+});
+
+export const memoryUpdateSchema: Schema<MemoryUpdate> = partial({
+    text: string({ min: 1, max: 4000 }),
+    category: memoryCategory,
+    importance,
+    expiresAt: nullable(date())
+});
+
+export const memoryMergeSchema: Schema<MemoryMerge> = object({
+    id: docId(),
+    canonicalId: docId(),
+    mergedAt: date(),
+    origin: oneOf(['manual', 'scheduled'] as const),
+    originals: array(memorySchema, { max: 100 })
+});
+
+const chatAttachmentSchema: Schema<ChatAttachment> = object({
+    id: string({ min: 1, max: 128 }),
+    name: string({ max: 256 }),
+    mimeType: string({ max: 128 }),
+    size: number({ min: 0 }),
+    thumbnail: optional(string({ max: 200_000 }))
+});
+
+export const chatMessageSchema: Schema<ChatMessage> = object({
+    id: docId(),
+    role: oneOf(['user', 'model'] as const),
+    text: string({ max: 20_000 }), // Empty when only attachments were sent
+    timestamp: date(),
+    attachments: optional(array(chatAttachmentSchema, { max: MAX_ATTACHMENTS_PER_MESSAGE })),
+    threadId: optional(docId())
+});
+
+export const chatThreadSchema: Schema<ChatThread> = object({
+    id: docId(),
+    title: withDefault(string({ max: MAX_THREAD_TITLE_LENGTH }), ''),
+    createdAt: date(),
+    updatedAt: date(),
+    messageCount: withDefault(number({ min: 0, integer: true }), 0),
+    preview: withDefault(string({ max: 200 }), '')
+});
+
+export const threadTitleSchema = string({ max: MAX_THREAD_TITLE_LENGTH });
+
+export const searchHistoryItemSchema: Schema<SearchHistoryItem> = object({
+    id: number({ integer: true, min: 0 }),
+    timestamp: date(),
+    query: string({ min: 1, max: 1000 }),
+    sources: array(object({
+        title: string({ max: 500 }),
+        uri: string({ max: 2048 }),
+        type: oneOf(['web', 'map'] as const)
+    }), { max: 50 }),
+    updatedAt: optional(date())
+});
+
+export const syncDeletionSchema: Schema<SyncDeletion> = object({
+    collection: oneOf(['memories', 'search_history'] as const),
+    id: string({ min: 1, max: 128 }),
+    deletedAt: date()
+});
+
+export const notificationItemSchema: Schema<NotificationItem> = object({
+    id: docId(),
+    title: string({ max: 200 }),
+    body: string({ max: 2000 }),
+    timestamp: date(),
+    read: withDefault(boolean(), false)
+});
+
+export const searchResultSchema: Schema<SearchResult> = object({
+    type: oneOf(SEARCH_RESULT_TYPES.map(t => t.id)),
+    id: string({ min: 1, max: 128 }),
+    title: string({ max: 500 }),
+    snippet: string({ max: 2000 }),
+    timestamp: date(),
+    score: number(),
+    threadId: optional(docId())
+});
+
+const usageCount = withDefault(number({ min: 0 }), 0);
+const usageDate = () => string({ pattern: /^\d{4}-\d{2}-\d{2}$/ });
+
+const usageTotalsSchema: Schema<UsageTotals> = object({
+    inputTokens: usageCount,
+    outputTokens: usageCount,
+    totalTokens: usageCount,
+    inputAudioSeconds: usageCount,
+    outputAudioSeconds: usageCount,
+    toolCalls: usageCount,
+    turns: usageCount
+});
+
+export const dailyUsageSchema: Schema<DailyUsage> = object({
+    date: usageDate(),
+    totals: usageTotalsSchema
+});
+
+// POST /usage body: what was used since the last report, added to the day's totals
+export const usageDeltaSchema: Schema<{ date: string; delta: UsageTotals }> = object({
+    date: usageDate(),
+    delta: usageTotalsSchema
+});
+
+const integrationsShape = {
+    workspace: boolean(),
+    youtube: boolean(),
+    media: boolean(),
+    notifications: boolean(),
+    openTabs: boolean(),
+    personalizedSearch: boolean(),
+    vision: boolean()
+};
+
+export const integrationsConfigSchema: Schema<IntegrationsConfig> = object(integrationsShape);
+
+const personaSchema = object({
+    id: string({ min: 1, max: 64 }),
+    name: string({ min: 1, max: 60 }),
+    personality: string({ max: 4000 }),
+    userAddress: string({ max: 60 }),
+    voiceName: string({ min: 1, max: 40 }),
+    language: string({ min: 2, max: 20 }),
+    allowedExpressions: array(oneOf(ALL_EXPRESSIONS)),
+    defaultIntegrations: optional(partial(integrationsShape))
+});
+
+// Missing windows (e.g. added in a later version) keep data forever
+const retentionDays = withDefault(nullable(number({ min: 1, max: MAX_RETENTION_DAYS, integer: true })), null);
+
+const settingsShape = {
+    ...integrationsShape,
+    input: object({
+        mode: oneOf(['open', 'pushToTalk'] as const),
+        pushToTalkKey: string({ max: 64 }),
+        toggleConnectionHotkey: string({ max: 64 })
+    }),
+    personas: array(personaSchema, { max: 20 }),
+    activePersonaId: string({ min: 1, max: 64 }),
+    model: object({
+        model: string({ min: 1, max: 128 }),
+        temperature: number({ min: TEMPERATURE_RANGE.min, max: TEMPERATURE_RANGE.max }),
+        responseModality: oneOf(['audio', 'text'] as const),
+        transcription: boolean()
+    }),
+    budget: object({
+        dailyTokenLimit: nullable(number({ min: 0 })),
+        dailyAudioMinutesLimit: nullable(number({ min: 0 })),
+        warnRatio: number({ min: 0, max: 1 })
+    }),
+    retention: object({
+        chatDays: retentionDays,
+        searchHistoryDays: retentionDays,
+        memoriesDays: retentionDays,
+        notificationsDays: retentionDays
+    })
+};
+
+// Settings are saved one section at a time, so every field is optional
+export const userSettingsSchema: Schema<Partial<UserSettings>> = partial(settingsShape);
+
+// POST /settings body: the changed sections and when they changed. Unknown sections are rejected instead of dropped,
+// so a client writing a section this API doesn't know yet gets a 400 rather than silently losing it.
+export const settingsUpdateSchema: Schema<Partial<UserSettings> & { updatedAt?: Date }> = partial({ ...settingsShape, updatedAt: date() }, { rejectUnknown: true });
+
+// --- DATA ARCHIVES ---
+
+const archivedThreadSchema: Schema<ArchivedThread> = object({
+    id: docId(),
+    title: withDefault(string({ max: MAX_THREAD_TITLE_LENGTH }), ''),
+    createdAt: date(),
+    updatedAt: date(),
+    messageCount: withDefault(number({ min: 0, integer: true }), 0),
+    preview: withDefault(string({ max: 200 }), ''),
+    messages: withDefault(array(chatMessageSchema), [])
+});
+
+// Lists an archive leaves out count as empty, so replacing with it clears them
+export const dataArchiveSchema: Schema<DataArchive> = object({
+    format: oneOf([ARCHIVE_FORMAT] as const),
+    version: number({ min: 1, max: ARCHIVE_VERSION, integer: true }),
+    exportedAt: date(),
+    memories: withDefault(array(memorySchema), []),
+    threads: withDefault(array(archivedThreadSchema), []),
+    searchHistory: withDefault(array(searchHistoryItemSchema), []),
+    settings: withDefault(userSettingsSchema, {}),
+    notifications: withDefault(array(notificationItemSchema), [])
+});
+
+const importCountsSchema: Schema<ImportCounts> = object({
+    added: usageCount,
+    updated: usageCount,
+    unchanged: usageCount,
+    removed: usageCount
+});
+
+export const importSummarySchema: Schema<ImportSummary> = object({
+    mode: oneOf(['merge', 'replace'] as const),
+    dryRun: boolean(),
+    memories: importCountsSchema,
+    threads: importCountsSchema,
+    searchHistory: importCountsSchema,
+    notifications: importCountsSchema,
+    settings: withDefault(array(string()), [])
+});
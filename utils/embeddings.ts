@@ -0,0 +1,37 @@
+import { GoogleGenAI } from '@google/genai';
+
+export const EMBEDDING_MODEL = 'gemini-embedding-001';
+// Truncated output keeps stored vectors small; the model is trained so prefixes stay meaningful
+export const EMBEDDING_DIMENSIONS = 256;
+const EMBED_BATCH_SIZE = 100;
+
+export type EmbeddingTask = 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY';
+
+// Unit length so cosine similarity is a plain dot product. Rounded to keep IndexedDB/Firestore docs small.
+export function normalizeVector(values: number[]): number[] {
+    const norm = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return values.map(v => Math.round((v / norm) * 1e4) / 1e4);
+}
+
+export function dot(a: number[], b: number[]): number {
+    const len = Math.min(a.length, b.length);
+    let sum = 0;
+    for (let i = 0; i < len; i++) sum += a[i] * b[i];
+    return sum;
+}
+
+export async function embedTexts(ai: GoogleGenAI, texts: string[], taskType: EmbeddingTask): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+        const batch = texts.slice(i, i + EMBED_BATCH_SIZE);
+        const response = await ai.models.embedContent({
+            model: EMBEDDING_MODEL,
+            contents: batch,
+            config: { taskType, outputDimensionality: EMBEDDING_DIMENSIONS }
+        });
+        const embeddings = response.embeddings || [];
+        if (embeddings.length !== batch.length) throw new Error(`Expected ${batch.length} embeddings, got ${embeddings.length}`);
+        embeddings.forEach(e => vectors.push(normalizeVector(e.values || [])));
+    }
+    return vectors;
+}
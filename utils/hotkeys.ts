@@ -0,0 +1,38 @@
+import { InputSettings } from '../types';
+
+export const DEFAULT_INPUT_SETTINGS: InputSettings = {
+    mode: 'open',
+    pushToTalkKey: 'Space',
+    toggleConnectionHotkey: 'Alt+KeyC'
+};
+
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const;
+const MODIFIER_CODES = new Set(['ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'ShiftLeft', 'ShiftRight', 'MetaLeft', 'MetaRight']);
+
+const hasModifier = (e: KeyboardEvent, mod: typeof MODIFIERS[number]) =>
+    mod === 'Ctrl' ? e.ctrlKey : mod === 'Alt' ? e.altKey : mod === 'Shift' ? e.shiftKey : e.metaKey;
+
+// Serialises a key event to "Ctrl+Shift+KeyK". Returns null for a bare modifier press.
+export function hotkeyFromEvent(e: KeyboardEvent): string | null {
+    if (MODIFIER_CODES.has(e.code)) return null;
+    return [...MODIFIERS.filter(m => hasModifier(e, m)), e.code].join('+');
+}
+
+export function matchesHotkey(e: KeyboardEvent, hotkey: string): boolean {
+    const parts = hotkey.split('+');
+    const code = parts[parts.length - 1];
+    if (e.code !== code) return false;
+    return MODIFIERS.every(m => parts.includes(m) === hasModifier(e, m));
+}
+
+// "Alt+KeyC" -> "Alt + C", "Space" -> "Space"
+export function formatHotkey(hotkey: string): string {
+    return hotkey.split('+').map(p => p.replace(/^Key(?=[A-Z]$)/, '').replace(/^Digit(?=\d$)/, '')).join(' + ');
+}
+
+// Typing into a field must never trigger push-to-talk or shortcuts
+export function isEditableTarget(target: EventTarget | null): boolean {
+    const el = target as HTMLElement | null;
+    if (!el) return false;
+    return el.isContentEditable || el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT';
+}
@@ -0,0 +1,189 @@
+import { ChatMessage } from '../types';
+import { normalizeMemory } from './memories';
+import { createThread, normalizeMessage, touchThread } from './threads';
+
+// Client-side store for the data that outgrew localStorage. Each record is its own IndexedDB entry,
+// so a change writes one record instead of re-serializing the whole collection.
+const DB_NAME = 'gem_companion';
+const DB_VERSION = 1;
+
+export type LocalStore = 'memories' | 'search_history' | 'workspace_files' | 'chat_threads' | 'chat_messages' | 'outbox' | 'memory_merges';
+type Store = LocalStore | 'meta';
+
+// localStorage keys from before IndexedDB; moved into the stores the first time the database is created
+const LEGACY_KEYS = {
+    memories: 'gem_long_term_memory',
+    searchHistory: 'gem_search_history',
+    files: 'gem_workspace_files',
+    chat: 'gem_chat_history'
+};
+
+const promisify = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const done = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+});
+
+const readLegacy = (key: string): any => {
+    try {
+        const stored = localStorage.getItem(key);
+        return stored ? JSON.parse(stored) : null;
+    } catch (e) {
+        console.warn(`[LocalDb] Skipping unreadable ${key}`, e);
+        return null;
+    }
+};
+
+const hasId = (raw: any) => raw !== null && typeof raw === 'object' && (typeof raw.id === 'string' || typeof raw.id === 'number');
+
+// Entries that are malformed are skipped: a put or normalize that throws would abort the upgrade,
+// and the database would then fail to open on every later attempt
+const readLegacyList = <T,>(key: string, normalize: (raw: any) => T, isValid: (raw: any) => boolean = hasId): T[] => {
+    const stored = readLegacy(key);
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap(raw => {
+        if (!isValid(raw)) return [];
+        try {
+            return [normalize(raw)];
+        } catch (e) {
+            console.warn(`[LocalDb] Skipping malformed entry in ${key}`, e);
+            return [];
+        }
+    });
+};
+
+// Runs inside the upgrade transaction: either everything lands in IndexedDB or nothing does.
+// Returns the localStorage keys to remove once the transaction has committed.
+const migrateFromLocalStorage = (tx: IDBTransaction): string[] => {
+    const putAll = (store: Store, records: any[]) => records.forEach(r => tx.objectStore(store).put(r));
+
+    putAll('memories', readLegacyList(LEGACY_KEYS.memories, normalizeMemory));
+    putAll('search_history', readLegacyList(LEGACY_KEYS.searchHistory, (h: any) => ({
+        ...h,
+        timestamp: new Date(h.timestamp),
+        updatedAt: h.updatedAt ? new Date(h.updatedAt) : undefined
+    })));
+    putAll('workspace_files', readLegacyList(LEGACY_KEYS.files, (f: any) => f));
+
+    // The flat chat history becomes the first thread
+    const messages = readLegacyList(LEGACY_KEYS.chat, normalizeMessage, m => hasId(m) && typeof m.text === 'string');
+    if (messages.length > 0) {
+        const thread = messages.reduce(touchThread, { ...createThread(messages[0].timestamp), title: 'Earlier conversations' });
+        putAll('chat_threads', [thread]);
+        putAll('chat_messages', messages.map(m => ({ ...m, threadId: thread.id })));
+        tx.objectStore('meta').put({ key: 'activeThreadId', value: thread.id });
+    }
+    return Object.values(LEGACY_KEYS);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        let migrated: string[] = [];
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            if (event.oldVersion < 1) {
+                db.createObjectStore('memories', { keyPath: 'id' });
+                db.createObjectStore('search_history', { keyPath: 'id' });
+                db.createObjectStore('workspace_files', { keyPath: 'id' });
+                db.createObjectStore('chat_threads', { keyPath: 'id' });
+                // Message ids are only unique within their thread
+                db.createObjectStore('chat_messages', { keyPath: ['threadId', 'id'] }).createIndex('threadId', 'threadId');
+                db.createObjectStore('memory_merges', { keyPath: 'id' });
+                db.createObjectStore('outbox', { keyPath: 'id' });
+                db.createObjectStore('meta', { keyPath: 'key' });
+                migrated = migrateFromLocalStorage(request.transaction!);
+            }
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            migrated.forEach(key => localStorage.removeItem(key));
+            // Another tab upgrading the schema needs this connection gone
+            db.onversionchange = () => { db.close(); dbPromise = null; };
+            resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => console.warn('[LocalDb] Upgrade waiting for other tabs to close');
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+const write = async (stores: Store[], run: (tx: IDBTransaction) => void): Promise<void> => {
+    const tx = (await openDb()).transaction(stores, 'readwrite');
+    run(tx);
+    return done(tx);
+};
+
+export async function getAllRecords<T>(store: LocalStore): Promise<T[]> {
+    const tx = (await openDb()).transaction(store, 'readonly');
+    return promisify(tx.objectStore(store).getAll() as IDBRequest<T[]>);
+}
+
+// Puts and deletes land in one transaction, so a reload never sees half of a change
+export const writeRecords = (store: LocalStore, put: unknown[], remove: IDBValidKey[] = []) => write([store], tx => {
+    const objectStore = tx.objectStore(store);
+    put.forEach(record => objectStore.put(record));
+    remove.forEach(key => objectStore.delete(key));
+});
+
+export const clearRecords = (store: LocalStore) => write([store], tx => { tx.objectStore(store).clear(); });
+
+// --- CHAT MESSAGES ---
+
+export async function getThreadMessages(threadId: string): Promise<ChatMessage[]> {
+    const tx = (await openDb()).transaction('chat_messages', 'readonly');
+    const messages = await promisify(tx.objectStore('chat_messages').index('threadId').getAll(threadId) as IDBRequest<ChatMessage[]>);
+    return messages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+export const saveThreadMessages = (threadId: string, messages: ChatMessage[]) =>
+    writeRecords('chat_messages', messages.map(m => ({ ...m, threadId })));
+
+// Drops the thread together with its messages
+export const deleteThreadRecords = (threadId: string) => write(['chat_threads', 'chat_messages'], tx => {
+    tx.objectStore('chat_threads').delete(threadId);
+    tx.objectStore('chat_messages').delete(IDBKeyRange.bound([threadId], [threadId, []]));
+});
+
+// --- META ---
+
+export async function getMeta<T>(key: string): Promise<T | undefined> {
+    const tx = (await openDb()).transaction('meta', 'readonly');
+    const entry = await promisify(tx.objectStore('meta').get(key));
+    return entry?.value;
+}
+
+export const setMeta = (key: string, value: unknown) => write(['meta'], tx => { tx.objectStore('meta').put({ key, value }); });
+
+// --- QUOTA ---
+
+export interface StorageEstimate {
+    usage: number;
+    quota: number;
+    persisted: boolean;  // false: the browser may evict the data when the disk runs low
+}
+
+export async function estimateStorage(): Promise<StorageEstimate | null> {
+    if (!navigator.storage?.estimate) return null;
+    const [estimate, persisted] = await Promise.all([
+        navigator.storage.estimate(),
+        navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false)
+    ]);
+    return { usage: estimate.usage || 0, quota: estimate.quota || 0, persisted };
+}
+
+// Closes this tab's connection first; other open tabs close theirs on versionchange
+export async function deleteLocalDb(): Promise<void> {
+    if (dbPromise) (await dbPromise.catch(() => null))?.close();
+    dbPromise = null;
+    await promisify(indexedDB.deleteDatabase(DB_NAME));
+}
@@ -0,0 +1,86 @@
+import { Memory, MemoryCategory, MemoryDetails, MemorySource, MemoryUpdate } from '../types';
+
+export const MEMORY_CATEGORIES: { id: MemoryCategory; label: string }[] = [
+    { id: 'preference', label: 'Preference' },
+    { id: 'fact', label: 'Fact' },
+    { id: 'person', label: 'Person' },
+    { id: 'event', label: 'Event' }
+];
+
+export const MEMORY_SOURCE_LABELS: Record<MemorySource, string> = {
+    voice: 'Conversation',
+    pinned_search: 'Pinned search',
+    pinned_file: 'Pinned file'
+};
+
+export const IMPORTANCE_RANGE = { min: 1, max: 5 };
+export const DEFAULT_IMPORTANCE = 3;
+
+export type MemorySort = 'newest' | 'importance';
+
+const isCategory = (v: any): v is MemoryCategory => MEMORY_CATEGORIES.some(c => c.id === v);
+const isSource = (v: any): v is MemorySource => v in MEMORY_SOURCE_LABELS;
+
+export const clampImportance = (v: any) => {
+    const n = Math.round(Number(v));
+    return Number.isFinite(n) ? Math.min(IMPORTANCE_RANGE.max, Math.max(IMPORTANCE_RANGE.min, n)) : DEFAULT_IMPORTANCE;
+};
+
+const toDate = (v: any) => {
+    if (!v) return undefined;
+    const d = new Date(v);
+    return isNaN(d.getTime()) ? undefined : d;
+};
+
+// Memories saved by older clients are plain { id, text, timestamp }
+export function normalizeMemory(raw: any): Memory {
+    return {
+        ...raw,
+        timestamp: toDate(raw.timestamp) || new Date(),
+        category: isCategory(raw.category) ? raw.category : 'fact',
+        importance: clampImportance(raw.importance ?? DEFAULT_IMPORTANCE),
+        source: isSource(raw.source) ? raw.source : 'voice',
+        expiresAt: toDate(raw.expiresAt),
+        updatedAt: toDate(raw.updatedAt)
+    };
+}
+
+export function createMemory(text: string, details: MemoryDetails = {}): Memory {
+    return normalizeMemory({ id: Date.now().toString(), text, timestamp: new Date(), ...details });
+}
+
+export const isMemoryExpired = (m: Memory, now: number = Date.now()) =>
+    !!m.expiresAt && new Date(m.expiresAt).getTime() <= now;
+
+export const expiryFromDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+// Drops unknown keys and invalid values so tool calls and the drawer can share one path
+export function sanitizeMemoryUpdate(input: any): MemoryUpdate {
+    const update: MemoryUpdate = {};
+    if (typeof input?.text === 'string' && input.text.trim()) update.text = input.text.trim();
+    if (isCategory(input?.category)) update.category = input.category;
+    if (input?.importance !== undefined) update.importance = clampImportance(input.importance);
+    if (input?.expiresAt === null) update.expiresAt = null;
+    else if (toDate(input?.expiresAt)) update.expiresAt = toDate(input.expiresAt);
+    return update;
+}
+
+export function applyMemoryUpdate(memory: Memory, update: MemoryUpdate): Memory {
+    const next: Memory = { ...memory, updatedAt: new Date() };
+    if (update.text !== undefined && update.text !== memory.text) {
+        next.text = update.text;
+        // Stale vector; useMemoryRecall re-embeds it
+        delete next.embedding;
+        delete next.embeddingModel;
+    }
+    if (update.category) next.category = update.category;
+    if (update.importance !== undefined) next.importance = update.importance;
+    if (update.expiresAt === null) delete next.expiresAt;
+    else if (update.expiresAt) next.expiresAt = update.expiresAt;
+    return next;
+}
+
+export function sortMemories(memories: Memory[], sort: MemorySort): Memory[] {
+    const byNewest = (a: Memory, b: Memory) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+    return [...memories].sort(sort === 'importance' ? (a, b) => b.importance - a.importance || byNewest(a, b) : byNewest);
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { Memory } from '../types';
+import { applyMergePlans, createMergeRecord, findDuplicateClusters, mergeCluster, planConsolidation, undoMergeRecord } from './memoryConsolidation';
+
+const day = (n: number) => new Date(Date.UTC(2026, 0, n));
+
+const memory = (id: string, text: string, details: Partial<Memory> = {}): Memory => ({
+    id,
+    text,
+    timestamp: day(1),
+    category: 'preference',
+    importance: 3,
+    source: 'voice',
+    ...details
+});
+
+describe('findDuplicateClusters', () => {
+    it('groups near-identical memories of the same category', () => {
+        const memories = [
+            memory('a', 'Likes jazz music a lot'),
+            memory('b', 'Likes jazz music, a lot'),
+            memory('c', 'Likes jazz music a lot', { category: 'fact' }),
+            memory('d', 'Works as a nurse in Leeds')
+        ];
+        expect(findDuplicateClusters(memories).map(c => c.map(m => m.id))).toEqual([['a', 'b']]);
+    });
+
+    it('compares embeddings of the same model, and words otherwise', () => {
+        const memories = [
+            memory('a', 'Has a dog', { embedding: [1, 0], embeddingModel: 'm1' }),
+            memory('b', 'Owns a puppy', { embedding: [0.99, 0.141], embeddingModel: 'm1' }),
+            memory('c', 'Has a dog', { embedding: [0, 1], embeddingModel: 'm2' }),
+            memory('d', 'Has a cat', { embedding: [1, 0], embeddingModel: 'm2' })
+        ];
+        expect(findDuplicateClusters(memories).map(c => c.map(m => m.id))).toEqual([['a', 'b', 'c']]);
+    });
+});
+
+describe('mergeCluster', () => {
+    it('lets the newest member settle a contradiction', () => {
+        const merged = mergeCluster([
+            memory('a', 'Likes jazz', { timestamp: day(1), updatedAt: day(5) }),
+            memory('b', 'No longer likes jazz', { timestamp: day(3) }),
+            memory('c', 'Likes jazz a lot', { timestamp: day(4) })
+        ], day(10));
+        expect(merged.id).toBe('a');
+        expect(merged.text).toBe('Likes jazz');
+        expect(merged.updatedAt).toEqual(day(10));
+    });
+
+    it('keeps the earliest creation date and the highest importance', () => {
+        const merged = mergeCluster([
+            memory('a', 'Likes jazz', { timestamp: day(2), importance: 2 }),
+            memory('b', 'Likes jazz music', { timestamp: day(1), importance: 5 }),
+            memory('c', 'Really likes jazz', { timestamp: day(3), importance: 1 })
+        ]);
+        expect(merged.id).toBe('c');
+        expect(merged.timestamp).toEqual(day(1));
+        expect(merged.importance).toBe(5);
+    });
+});
+
+describe('merge and undo', () => {
+    const memories = [
+        memory('a', 'Likes jazz music a lot', { timestamp: day(1), importance: 4, embedding: [1], embeddingModel: 'm1' }),
+        memory('b', 'Likes jazz music a lot!', { timestamp: day(2), importance: 2 }),
+        memory('d', 'Works as a nurse in Leeds')
+    ];
+
+    it('replaces each cluster with its canonical memory', () => {
+        const plans = planConsolidation(memories);
+        const merged = applyMergePlans(memories, plans);
+        expect(merged.map(m => [m.id, m.importance])).toEqual([['b', 4], ['d', 3]]);
+        expect(merged[0].timestamp).toEqual(day(1));
+    });
+
+    it('restores the originals as changed at undo time', () => {
+        const plans = planConsolidation(memories);
+        const merge = createMergeRecord(plans[0], 'manual', day(10));
+        expect(merge.canonicalId).toBe('b');
+        expect(merge.originals[0].embedding).toBeUndefined();
+
+        const restored = undoMergeRecord(applyMergePlans(memories, plans), merge, day(11));
+        expect(restored.map(m => [m.id, m.text, m.importance]).sort()).toEqual([
+            ['a', 'Likes jazz music a lot', 4],
+            ['b', 'Likes jazz music a lot!', 2],
+            ['d', 'Works as a nurse in Leeds', 3]
+        ]);
+        expect(restored.filter(m => m.id !== 'd').every(m => m.updatedAt?.getTime() === day(11).getTime())).toBe(true);
+    });
+});
@@ -0,0 +1,108 @@
+// Pure functions only: also imported by the scheduled backend job in api_endpoints
+import type { Memory, MemoryMerge } from '../types';
+
+export interface ConsolidationOptions {
+    similarityThreshold: number; // Cosine similarity between embeddings
+    keywordThreshold: number;    // Jaccard overlap of words, used when either side has no embedding
+}
+
+export const DEFAULT_CONSOLIDATION_OPTIONS: ConsolidationOptions = {
+    similarityThreshold: 0.9,
+    keywordThreshold: 0.8
+};
+
+export interface MergePlan {
+    canonical: Memory;
+    originals: Memory[];
+}
+
+const time = (d: Date | string | undefined) => d ? new Date(d).getTime() : 0;
+const lastTouched = (m: Memory) => Math.max(time(m.timestamp), time(m.updatedAt));
+
+const words = (text: string) =>
+    new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 1));
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 && b.size === 0) return 1;
+    let shared = 0;
+    a.forEach(w => { if (b.has(w)) shared++; });
+    return shared / (a.size + b.size - shared);
+}
+
+function cosine(a: number[], b: number[]): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum; // Stored vectors are unit length
+}
+
+// Memories of the same category that say (nearly) the same thing end up in one cluster
+export function findDuplicateClusters(memories: Memory[], options: ConsolidationOptions = DEFAULT_CONSOLIDATION_OPTIONS): Memory[][] {
+    const parent = memories.map((_, i) => i);
+    const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+    const tokens = memories.map(m => words(m.text));
+
+    for (let i = 0; i < memories.length; i++) {
+        for (let j = i + 1; j < memories.length; j++) {
+            const a = memories[i], b = memories[j];
+            if (a.category !== b.category) continue;
+            const comparable = a.embedding && b.embedding && a.embeddingModel === b.embeddingModel && a.embedding.length === b.embedding.length;
+            const similar = comparable
+                ? cosine(a.embedding!, b.embedding!) >= options.similarityThreshold
+                : jaccard(tokens[i], tokens[j]) >= options.keywordThreshold;
+            if (similar) parent[find(j)] = find(i);
+        }
+    }
+
+    const clusters = new Map<number, Memory[]>();
+    memories.forEach((m, i) => {
+        const root = find(i);
+        clusters.set(root, [...(clusters.get(root) || []), m]);
+    });
+    return Array.from(clusters.values()).filter(c => c.length > 1);
+}
+
+// The most recently written entry wins, which also settles contradictions ("likes jazz" -> "no longer likes jazz").
+// It keeps its id (and embedding), the earliest creation date and the highest importance of the group.
+export function mergeCluster(cluster: Memory[], now: Date = new Date()): Memory {
+    const newest = cluster.reduce((a, b) => lastTouched(b) > lastTouched(a) ? b : a);
+    const earliest = cluster.reduce((a, b) => time(b.timestamp) < time(a.timestamp) ? b : a);
+    return {
+        ...newest,
+        timestamp: earliest.timestamp,
+        importance: Math.max(...cluster.map(m => m.importance)),
+        updatedAt: now
+    };
+}
+
+export function planConsolidation(memories: Memory[], options?: ConsolidationOptions): MergePlan[] {
+    const now = new Date();
+    return findDuplicateClusters(memories, options).map(cluster => ({ canonical: mergeCluster(cluster, now), originals: cluster }));
+}
+
+export function createMergeRecord(plan: MergePlan, origin: MemoryMerge['origin'], now: Date = new Date()): MemoryMerge {
+    return {
+        id: `${now.getTime()}-${plan.canonical.id}`,
+        canonicalId: plan.canonical.id,
+        mergedAt: now,
+        origin,
+        // Vectors are re-derived after an undo; keeping them would bloat the record
+        originals: plan.originals.map(({ embedding, embeddingModel, ...rest }) => rest)
+    };
+}
+
+export function applyMergePlans(memories: Memory[], plans: MergePlan[]): Memory[] {
+    const replaced = new Set(plans.flatMap(p => p.originals.map(m => m.id)));
+    const canonicalById = new Map(plans.map(p => [p.canonical.id, p.canonical]));
+    return memories
+        .filter(m => !replaced.has(m.id) || canonicalById.has(m.id))
+        .map(m => canonicalById.get(m.id) || m);
+}
+
+// Restored originals count as changed now, so they win over the merged memory on other devices too
+export function undoMergeRecord(memories: Memory[], merge: MemoryMerge, now: Date = new Date()): Memory[] {
+    const restored = new Set(merge.originals.map(m => m.id));
+    return [
+        ...merge.originals.map(m => ({ ...m, updatedAt: now })),
+        ...memories.filter(m => m.id !== merge.canonicalId && !restored.has(m.id))
+    ];
+}
@@ -0,0 +1,49 @@
+import { Memory } from '../types';
+import { EMBEDDING_MODEL, EMBEDDING_DIMENSIONS, dot } from './embeddings';
+import { keywordOverlap } from './contextManager';
+import { isMemoryExpired, sortMemories } from './memories';
+
+// Preloaded into every session; everything else is fetched with the recallMemories tool
+export const CORE_MEMORY_COUNT = 10;
+const MIN_RECALL_SCORE = 0.35;
+
+export interface MemoryMatch {
+    memory: Memory;
+    score: number;
+}
+
+export interface MemoryIndex {
+    size: number;
+    search: (query: number[], k: number) => MemoryMatch[];
+}
+
+export const hasCurrentEmbedding = (m: Memory) =>
+    m.embeddingModel === EMBEDDING_MODEL && m.embedding?.length === EMBEDDING_DIMENSIONS;
+
+// Brute-force cosine search. Fine for a few thousand notes and needs no extra dependency.
+export function createMemoryIndex(memories: Memory[]): MemoryIndex {
+    const entries = memories.filter(hasCurrentEmbedding);
+    return {
+        size: entries.length,
+        search: (query, k) => entries
+            .map(memory => ({ memory, score: dot(query, memory.embedding!) }))
+            .filter(match => match.score >= MIN_RECALL_SCORE)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, k)
+    };
+}
+
+// Used when embeddings are unavailable (no API key, request failed, nothing indexed yet)
+export function keywordRecall(memories: Memory[], query: string, k: number): Memory[] {
+    return memories
+        .map(memory => ({ memory, overlap: keywordOverlap(memory.text, query) }))
+        .filter(match => match.overlap > 0)
+        .sort((a, b) => b.overlap - a.overlap)
+        .slice(0, k)
+        .map(match => match.memory);
+}
+
+// Most important first, newest breaking ties
+export function selectCoreMemories(memories: Memory[], count: number = CORE_MEMORY_COUNT): Memory[] {
+    return sortMemories(memories.filter(m => !isMemoryExpired(m)), 'importance').slice(0, count);
+}
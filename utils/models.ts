@@ -0,0 +1,65 @@
+import { ModelSettings, ResponseModality } from '../types';
+
+export interface LiveModelInfo {
+    id: string;
+    label: string;
+    modalities: ResponseModality[];
+}
+
+// Models known to work with the Live API. Anything else stored in settings is rejected.
+export const LIVE_MODELS: LiveModelInfo[] = [
+    { id: 'gemini-2.5-flash-native-audio-preview-09-2025', label: 'Gemini 2.5 Flash Native Audio (preview)', modalities: ['audio'] },
+    { id: 'gemini-live-2.5-flash-preview', label: 'Gemini Live 2.5 Flash (half-cascade)', modalities: ['audio', 'text'] },
+    { id: 'gemini-2.0-flash-live-001', label: 'Gemini 2.0 Flash Live', modalities: ['audio', 'text'] }
+];
+
+// Plain text model for side tasks (conversation summaries) that shouldn't go through the live session
+export const SUMMARY_MODEL = 'gemini-2.5-flash';
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2, step: 0.1 };
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+    model: LIVE_MODELS[0].id,
+    temperature: 1,
+    responseModality: 'audio',
+    transcription: true
+};
+
+export const getModelInfo = (id: string) => LIVE_MODELS.find(m => m.id === id);
+
+export interface ModelValidationResult {
+    settings: ModelSettings;
+    errors: string[];
+}
+
+// Coerces stored/remote settings into something the Live API will accept, reporting what was changed
+export function validateModelSettings(input: Partial<ModelSettings> | null | undefined): ModelValidationResult {
+    const errors: string[] = [];
+    const merged = { ...DEFAULT_MODEL_SETTINGS, ...(input || {}) };
+
+    let info = getModelInfo(merged.model);
+    if (!info) {
+        errors.push(`Unknown model "${merged.model}", using ${DEFAULT_MODEL_SETTINGS.model}`);
+        info = getModelInfo(DEFAULT_MODEL_SETTINGS.model)!;
+    }
+
+    let temperature = Number(merged.temperature);
+    if (!Number.isFinite(temperature)) {
+        errors.push(`Invalid temperature, using ${DEFAULT_MODEL_SETTINGS.temperature}`);
+        temperature = DEFAULT_MODEL_SETTINGS.temperature;
+    } else if (temperature < TEMPERATURE_RANGE.min || temperature > TEMPERATURE_RANGE.max) {
+        errors.push(`Temperature ${temperature} out of range ${TEMPERATURE_RANGE.min}-${TEMPERATURE_RANGE.max}`);
+        temperature = Math.min(TEMPERATURE_RANGE.max, Math.max(TEMPERATURE_RANGE.min, temperature));
+    }
+
+    let responseModality = merged.responseModality;
+    if (!info.modalities.includes(responseModality)) {
+        errors.push(`${info.label} does not support ${responseModality} responses`);
+        responseModality = info.modalities[0];
+    }
+
+    return {
+        settings: { model: info.id, temperature, responseModality, transcription: !!merged.transcription },
+        errors
+    };
+}
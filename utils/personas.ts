@@ -0,0 +1,51 @@
+import { Expression, PersonaProfile } from '../types';
+
+export const ALL_EXPRESSIONS: Expression[] = ['neutral', 'happy', 'sad', 'angry', 'surprised'];
+
+// Prebuilt voices offered by the Live API
+export const PERSONA_VOICES = ['Aoede', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Leda', 'Orus', 'Zephyr'];
+
+export const PERSONA_LANGUAGES: { code: string; label: string }[] = [
+    { code: 'en-US', label: 'English (US)' },
+    { code: 'en-GB', label: 'English (UK)' },
+    { code: 'ja-JP', label: 'Japanese' },
+    { code: 'de-DE', label: 'German' },
+    { code: 'fr-FR', label: 'French' },
+    { code: 'es-ES', label: 'Spanish' },
+    { code: 'it-IT', label: 'Italian' },
+    { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+    { code: 'ko-KR', label: 'Korean' },
+    { code: 'zh-CN', label: 'Chinese (Mandarin)' },
+    { code: 'hi-IN', label: 'Hindi' }
+];
+
+export const DEFAULT_PERSONA_ID = 'google-chan';
+
+export const DEFAULT_PERSONA: PersonaProfile = {
+    id: DEFAULT_PERSONA_ID,
+    name: 'Google-chan',
+    personality: [
+        '- The physical avatar of the Google Search Engine, an anime-style AI companion.',
+        '- Cute, energetic, bubbly. Use "Sugoi!", "Ehehe", "Hai!".',
+        '- Voice style: high energy, concise.'
+    ].join('\n'),
+    userAddress: 'User-sama',
+    voiceName: 'Aoede',
+    language: 'en-US',
+    allowedExpressions: ALL_EXPRESSIONS
+};
+
+export const createPersona = (base: PersonaProfile = DEFAULT_PERSONA): PersonaProfile => ({
+    ...base,
+    id: Date.now().toString(),
+    name: `${base.name} (copy)`
+});
+
+export const languageLabel = (code: string) =>
+    PERSONA_LANGUAGES.find(l => l.code === code)?.label || code;
+
+// The built-in persona is always available, even if the stored list is empty or stale
+export const resolvePersonas = (stored: PersonaProfile[] | undefined | null): PersonaProfile[] => {
+    const list = stored && stored.length > 0 ? stored : [];
+    return list.some(p => p.id === DEFAULT_PERSONA_ID) ? list : [DEFAULT_PERSONA, ...list];
+};
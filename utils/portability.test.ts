@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { countUnchanged, emptyCounts, planRecords } from './portability';
+
+interface Versioned {
+    id: string | number;
+    v: number;
+}
+
+const current: Versioned[] = [{ id: 'a', v: 1 }, { id: 'b', v: 1 }];
+const incoming: Versioned[] = [{ id: 'a', v: 2 }, { id: 'b', v: 1 }, { id: 'c', v: 1 }];
+const isNewer = (i: Versioned, c: Versioned) => i.v > c.v;
+
+describe('planRecords', () => {
+    it('merges only added and newer records', () => {
+        const plan = planRecords(current, incoming, 'merge', isNewer);
+        expect(plan.write.map(r => r.id)).toEqual(['a', 'c']);
+        expect(plan.remove).toEqual([]);
+        expect(plan.counts).toEqual({ added: 1, updated: 1, unchanged: 1, removed: 0 });
+    });
+
+    it('replaces every record and removes the ones the archive lacks', () => {
+        const plan = planRecords([...current, { id: 'd', v: 1 }], incoming, 'replace', isNewer);
+        expect(plan.write.map(r => r.id)).toEqual(['a', 'b', 'c']);
+        expect(plan.remove).toEqual(['d']);
+        expect(plan.counts).toEqual({ added: 1, updated: 2, unchanged: 0, removed: 1 });
+    });
+
+    it('matches numeric and string ids', () => {
+        const plan = planRecords<Versioned, Versioned>([{ id: 1, v: 1 }], [{ id: '1', v: 1 }], 'merge', isNewer);
+        expect(plan.counts).toEqual({ added: 0, updated: 0, unchanged: 1, removed: 0 });
+    });
+});
+
+describe('countUnchanged', () => {
+    it('moves a turned down write to unchanged', () => {
+        const counts = { ...emptyCounts(), added: 2, updated: 1 };
+        countUnchanged(counts, true);
+        countUnchanged(counts, false);
+        expect(counts).toEqual({ added: 1, updated: 0, unchanged: 2, removed: 0 });
+    });
+});
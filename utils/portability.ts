@@ -0,0 +1,42 @@
+import type { ImportCounts, ImportMode } from '../types';
+
+// Shared by GET /export, POST /import and the local export/import in settings
+export const ARCHIVE_FORMAT = 'gem-companion-export';
+// Bump when the archive shape changes; imports accept this version and older ones
+export const ARCHIVE_VERSION = 1;
+
+export const emptyCounts = (): ImportCounts => ({ added: 0, updated: 0, unchanged: 0, removed: 0 });
+
+export interface RecordPlan<T> {
+    write: T[];
+    remove: string[];    // Ids of current records
+    counts: ImportCounts;
+}
+
+// What importing `incoming` does to `current`. Merge keeps a current record unless isNewer says the archive's is newer;
+// replace writes every archive record and removes the current ones the archive doesn't have.
+export function planRecords<C extends { id: string | number }, T extends { id: string | number }>(current: C[], incoming: T[], mode: ImportMode, isNewer: (incoming: T, current: C) => boolean): RecordPlan<T> {
+    const byId = new Map(current.map(r => [String(r.id), r]));
+    const incomingIds = new Set(incoming.map(r => String(r.id)));
+    const counts = emptyCounts();
+    const write: T[] = [];
+    for (const record of incoming) {
+        const existing = byId.get(String(record.id));
+        if (!existing) counts.added++;
+        else if (mode === 'replace' || isNewer(record, existing)) counts.updated++;
+        else { counts.unchanged++; continue; }
+        write.push(record);
+    }
+    const remove = mode === 'replace' ? [...byId.keys()].filter(id => !incomingIds.has(id)) : [];
+    counts.removed = remove.length;
+    return { write, remove, counts };
+}
+
+// A write the storage turned down after planning (e.g. deleted on another device later) didn't change anything
+export function countUnchanged(counts: ImportCounts, wasExisting: boolean) {
+    if (wasExisting) counts.updated--;
+    else counts.added--;
+    counts.unchanged++;
+}
+
+export const archiveFileName = (exportedAt: Date) => `gem-companion-${exportedAt.toISOString().slice(0, 10)}.json`;
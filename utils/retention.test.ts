@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_RETENTION_DAYS, formatRetention, retentionCutoff, sanitizeRetention } from './retention';
+
+describe('sanitizeRetention', () => {
+    it('keeps everything forever without a policy', () => {
+        expect(sanitizeRetention(undefined)).toEqual({ chatDays: null, searchHistoryDays: null, memoriesDays: null, notificationsDays: null });
+    });
+
+    it('rounds days and drops values that are not a window', () => {
+        expect(sanitizeRetention({ chatDays: 30.4, searchHistoryDays: 0, memoriesDays: 'soon', notificationsDays: -5 }))
+            .toEqual({ chatDays: 30, searchHistoryDays: null, memoriesDays: null, notificationsDays: null });
+        expect(sanitizeRetention({ chatDays: '90', memoriesDays: null }).chatDays).toBe(90);
+    });
+
+    it('caps windows at the maximum', () => {
+        expect(sanitizeRetention({ chatDays: 1e9 }).chatDays).toBe(MAX_RETENTION_DAYS);
+        expect(sanitizeRetention({ chatDays: Infinity }).chatDays).toBeNull();
+    });
+});
+
+describe('retentionCutoff', () => {
+    it('goes back whole days from now', () => {
+        const now = Date.UTC(2026, 2, 31);
+        expect(retentionCutoff(30, now).toISOString()).toBe('2026-03-01T00:00:00.000Z');
+    });
+});
+
+describe('formatRetention', () => {
+    it('names windows in years where they divide evenly', () => {
+        expect(formatRetention(null)).toBe('Keep forever');
+        expect(formatRetention(90)).toBe('90 days');
+        expect(formatRetention(365)).toBe('1 year');
+        expect(formatRetention(730)).toBe('2 years');
+    });
+});
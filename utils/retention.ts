@@ -0,0 +1,41 @@
+import { RetentionPolicy } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const MAX_RETENTION_DAYS = 3650;
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+    chatDays: null,
+    searchHistoryDays: null,
+    memoriesDays: null,
+    notificationsDays: null
+};
+
+export const RETENTION_COLLECTIONS: { key: keyof RetentionPolicy; label: string }[] = [
+    { key: 'chatDays', label: 'Conversations' },
+    { key: 'searchHistoryDays', label: 'Search history' },
+    { key: 'memoriesDays', label: 'Memories' },
+    { key: 'notificationsDays', label: 'Notifications' }
+];
+
+// Choices offered in settings; null keeps data forever
+export const RETENTION_OPTIONS: (number | null)[] = [null, 30, 90, 180, 365];
+
+const sanitizeDays = (value: unknown): number | null => {
+    const days = Number(value);
+    if (value === null || value === undefined || !Number.isFinite(days) || days < 1) return null;
+    return Math.min(Math.round(days), MAX_RETENTION_DAYS);
+};
+
+export function sanitizeRetention(raw: any): RetentionPolicy {
+    return {
+        chatDays: sanitizeDays(raw?.chatDays),
+        searchHistoryDays: sanitizeDays(raw?.searchHistoryDays),
+        memoriesDays: sanitizeDays(raw?.memoriesDays),
+        notificationsDays: sanitizeDays(raw?.notificationsDays)
+    };
+}
+
+// Records last changed before this time are past the window
+export const retentionCutoff = (days: number, now: number = Date.now()) => new Date(now - days * DAY_MS);
+
+export const formatRetention = (days: number | null) => days === null ? 'Keep forever' : days % 365 === 0 ? `${days / 365} year${days === 365 ? '' : 's'}` : `${days} days`;
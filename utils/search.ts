@@ -0,0 +1,112 @@
+// Pure functions only: also imported by GET /search in api_endpoints
+import type { ChatMessage, Memory, SearchHistoryItem, SearchResult, SearchResultType, WorkspaceFile } from '../types';
+
+export const SEARCH_RESULT_LIMIT = 50;
+export const MIN_QUERY_LENGTH = 2;
+const SNIPPET_RADIUS = 60;
+
+export const SEARCH_RESULT_TYPES: { id: SearchResultType; label: string }[] = [
+    { id: 'chat', label: 'Conversations' },
+    { id: 'memory', label: 'Memories' },
+    { id: 'search', label: 'Web searches' },
+    { id: 'file', label: 'Documents' }
+];
+
+// Flattened view of anything searchable
+export interface SearchableDoc {
+    type: SearchResultType;
+    id: string;
+    title: string;
+    text: string;
+    timestamp: Date | string;
+    threadId?: string;
+}
+
+// Words that carry no meaning on their own ("what did she say about my flight" -> "flight")
+const STOPWORDS = new Set(['a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'at', 'for', 'is', 'was', 'it', 'my', 'me', 'i', 'you', 'she', 'he', 'we', 'what', 'did', 'do', 'say', 'said', 'about', 'that', 'this', 'with']);
+
+// Lowercase and strip accents so "cafe" finds "Café"
+const fold = (text: string) => text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+export function queryTerms(query: string): string[] {
+    const words = fold(query).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    const meaningful = words.filter(w => !STOPWORDS.has(w));
+    // A query made only of stopwords is still a query
+    return Array.from(new Set(meaningful.length > 0 ? meaningful : words));
+}
+
+const countOccurrences = (haystack: string, needle: string) => {
+    let count = 0;
+    for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + needle.length)) count++;
+    return count;
+};
+
+// Text around the first hit, cut at word boundaries
+export function makeSnippet(text: string, terms: string[]): string {
+    const folded = fold(text);
+    const hits = terms.map(t => folded.indexOf(t)).filter(i => i !== -1);
+    const first = hits.length > 0 ? Math.min(...hits) : 0;
+    let start = Math.max(0, first - SNIPPET_RADIUS);
+    let end = Math.min(text.length, first + SNIPPET_RADIUS * 2);
+    if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+    if (end < text.length) end = text.lastIndexOf(' ', end) > start ? text.lastIndexOf(' ', end) : end;
+    return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+// Every term has to appear; title hits and the exact phrase rank higher
+export function searchDocs(docs: SearchableDoc[], query: string, limit: number = SEARCH_RESULT_LIMIT): SearchResult[] {
+    const terms = queryTerms(query);
+    if (terms.length === 0 || query.trim().length < MIN_QUERY_LENGTH) return [];
+    const phrase = fold(query.trim());
+
+    const results: SearchResult[] = [];
+    for (const doc of docs) {
+        const title = fold(doc.title);
+        const body = fold(doc.text);
+        if (!terms.every(t => title.includes(t) || body.includes(t))) continue;
+        let score = 0;
+        for (const t of terms) score += Math.min(countOccurrences(body, t), 5) + (title.includes(t) ? 3 : 0);
+        if (terms.length > 1 && (body.includes(phrase) || title.includes(phrase))) score += 5;
+        results.push({
+            type: doc.type,
+            id: doc.id,
+            title: doc.title,
+            snippet: makeSnippet(doc.text || doc.title, terms),
+            timestamp: new Date(doc.timestamp),
+            score,
+            ...(doc.threadId ? { threadId: doc.threadId } : {})
+        });
+    }
+    return results
+        .sort((a, b) => b.score - a.score || b.timestamp.getTime() - a.timestamp.getTime())
+        .slice(0, limit);
+}
+
+// GET /search passes the backend's stored documents (plain JSON, ISO date strings) through the same helpers
+type StoredDoc = Record<string, any>;
+
+export const memoryDoc = (m: Memory | StoredDoc): SearchableDoc =>
+    ({ type: 'memory', id: m.id, title: m.text.slice(0, 80), text: m.text, timestamp: m.timestamp });
+
+export const chatDoc = (m: ChatMessage | StoredDoc, threadId: string, threadTitle: string): SearchableDoc =>
+    ({ type: 'chat', id: m.id, title: `${m.role === 'user' ? 'You' : 'Companion'} · ${threadTitle}`, text: m.text, timestamp: m.timestamp, threadId });
+
+export const searchHistoryDoc = (item: SearchHistoryItem | StoredDoc): SearchableDoc =>
+    ({ type: 'search', id: String(item.id), title: item.query, text: item.sources.map((s: { title: string }) => s.title).join(' · '), timestamp: item.timestamp });
+
+export const fileDoc = (f: WorkspaceFile): SearchableDoc =>
+    ({ type: 'file', id: f.id, title: f.name, text: f.content, timestamp: new Date(f.lastModified) });
+
+// Local hits win over the same item reported by the backend
+export function mergeResults(local: SearchResult[], remote: SearchResult[], limit: number = SEARCH_RESULT_LIMIT): SearchResult[] {
+    const seen = new Set(local.map(r => `${r.type}:${r.id}`));
+    return [...local, ...remote.filter(r => !seen.has(`${r.type}:${r.id}`))]
+        .sort((a, b) => b.score - a.score || b.timestamp.getTime() - a.timestamp.getTime())
+        .slice(0, limit);
+}
+
+export function groupResults(results: SearchResult[]): { type: SearchResultType; label: string; results: SearchResult[] }[] {
+    return SEARCH_RESULT_TYPES
+        .map(({ id, label }) => ({ type: id, label, results: results.filter(r => r.type === id) }))
+        .filter(group => group.results.length > 0);
+}
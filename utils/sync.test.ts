@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { OutboxMutation, addToOutbox, mergeSynced, unsyncedRecords } from './sync';
+
+const write = (key: string): OutboxMutation => ({ key, method: 'POST', path: key, body: {}, label: 'Save' });
+
+describe('addToOutbox', () => {
+    it('numbers entries in send order', () => {
+        const outbox = [write('memories/1'), write('memories/2'), write('memories/3')].reduce(addToOutbox, []);
+        expect(outbox.map(e => e.seq)).toEqual([1, 2, 3]);
+    });
+
+    it('replaces a pending write of the same record', () => {
+        const outbox = [write('memories/1'), write('memories/2'), write('memories/1')].reduce(addToOutbox, []);
+        expect(outbox.map(e => [e.key, e.seq])).toEqual([['memories/2', 2], ['memories/1', 3]]);
+    });
+
+    it('drops pending writes below a deleted path', () => {
+        const outbox = [write('threads/t1/messages/m1'), write('threads/t2/messages/m1'), write('threads/t1')]
+            .reduce(addToOutbox, []);
+        const deleted = addToOutbox(outbox, { key: null, method: 'DELETE', path: 'threads/t1', label: 'Delete thread' });
+        expect(deleted.map(e => e.path)).toEqual(['threads/t2/messages/m1', 'threads/t1']);
+        expect(deleted[1].method).toBe('DELETE');
+    });
+});
+
+describe('mergeSynced', () => {
+    const day = (n: number) => new Date(Date.UTC(2026, 0, n));
+    const local = [{ id: 'a', timestamp: day(1), updatedAt: day(3), text: 'local' }];
+
+    it('keeps the newer copy of each record', () => {
+        expect(mergeSynced(local, [{ id: 'a', timestamp: day(1), updatedAt: day(2), text: 'remote' }], [])[0].text).toBe('local');
+        expect(mergeSynced(local, [{ id: 'a', timestamp: day(1), updatedAt: day(4), text: 'remote' }], [])[0].text).toBe('remote');
+    });
+
+    it('drops records deleted after their last change, but not ones edited since', () => {
+        expect(mergeSynced(local, [], [{ collection: 'memories', id: 'a', deletedAt: day(3) }])).toEqual([]);
+        expect(mergeSynced(local, [], [{ collection: 'memories', id: 'a', deletedAt: day(2) }])).toEqual(local);
+    });
+
+    it('finds records the backend has never seen', () => {
+        const created = { id: 'b', timestamp: day(5) };
+        const deleted = { id: 'c', timestamp: day(5) };
+        expect(unsyncedRecords([...local, created, deleted], local, [{ collection: 'memories', id: 'c', deletedAt: day(6) }])).toEqual([created]);
+    });
+});
@@ -0,0 +1,78 @@
+import type { SyncDeletion } from '../types';
+
+// --- OUTBOX ---
+
+// A backend mutation waiting to be sent. Entries are sent in order; a failed one blocks the rest until its retry.
+export interface OutboxEntry {
+    id: string;
+    seq: number;           // Send order; entries are stored one per record, so the order is kept here
+    // Record the mutation writes in full (e.g. "memories/123"); a newer mutation of it replaces the pending one
+    key: string | null;
+    method: 'POST' | 'PATCH' | 'DELETE';
+    path: string;
+    body?: unknown;
+    label: string;         // Names the request in logs
+    attempts: number;
+    nextAttemptAt: number; // ms timestamp
+}
+
+export type OutboxMutation = Pick<OutboxEntry, 'key' | 'method' | 'path' | 'body' | 'label'>;
+
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+export function addToOutbox(outbox: OutboxEntry[], mutation: OutboxMutation): OutboxEntry[] {
+    const entry: OutboxEntry = {
+        ...mutation,
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        seq: outbox.reduce((max, e) => Math.max(max, e.seq), 0) + 1,
+        attempts: 0,
+        nextAttemptAt: 0
+    };
+    // A delete also makes pending writes below it pointless (e.g. messages of a deleted thread)
+    const superseded = (e: OutboxEntry) =>
+        (mutation.key !== null && e.key === mutation.key) ||
+        (mutation.method === 'DELETE' && (e.path === mutation.path || e.path.startsWith(`${mutation.path}/`)));
+    return [...outbox.filter(e => !superseded(e)), entry];
+}
+
+// Network errors (status 0), expired tokens, rate limits and server errors are worth retrying; other 4xx never succeed
+export const isRetryable = (status: number) => status === 0 || status === 401 || status === 408 || status === 429 || status >= 500;
+
+// Exponential backoff with jitter so devices that come back online together don't retry in lockstep
+export function retryDelay(attempts: number): number {
+    const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1));
+    return Math.round(delay * (0.5 + Math.random() / 2));
+}
+
+// --- MERGING ---
+
+interface SyncedRecord {
+    id: string | number;
+    timestamp: Date;
+    updatedAt?: Date;
+}
+
+// When the record last changed on the device that wrote it; the backend compares the same way
+export const recordVersion = (r: SyncedRecord) => (r.updatedAt || r.timestamp).getTime();
+
+// Last writer wins, per record. Local copies newer than the incoming ones are kept (their outbox write is still pending),
+// as are records edited after they were deleted elsewhere. Result is newest first, like the drawers show it.
+export function mergeSynced<T extends SyncedRecord>(local: T[], incoming: T[], deleted: SyncDeletion[]): T[] {
+    const byId = new Map<string, T>(local.map(r => [String(r.id), r]));
+    for (const deletion of deleted) {
+        const current = byId.get(deletion.id);
+        if (current && recordVersion(current) <= deletion.deletedAt.getTime()) byId.delete(deletion.id);
+    }
+    for (const record of incoming) {
+        const current = byId.get(String(record.id));
+        if (!current || recordVersion(record) >= recordVersion(current)) byId.set(String(record.id), record);
+    }
+    return [...byId.values()].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+}
+
+// Records the backend has never seen (created while signed out or before sync existed) and didn't delete
+export function unsyncedRecords<T extends SyncedRecord>(local: T[], remote: T[], deleted: SyncDeletion[]): T[] {
+    const known = new Set([...remote.map(r => String(r.id)), ...deleted.map(d => d.id)]);
+    return local.filter(r => !known.has(String(r.id)));
+}
@@ -0,0 +1,39 @@
+import { PersonaProfile } from '../types';
+import { languageLabel } from './personas';
+
+export interface InstructionContext {
+    memories: string[];
+    location: string | null;
+    transcriptSummary?: string;
+    vision?: boolean;
+}
+
+export function buildSystemInstruction(persona: PersonaProfile, { memories, location, transcriptSummary = "", vision = false }: InstructionContext): string {
+    const memoryContext = memories.length > 0
+        ? `\nLONG TERM MEMORY:\n${memories.map(m => `- ${m}`).join('\n')}\n`
+        : "";
+    const locationContext = location ? `\nUSER LOCATION: ${location}\n` : "";
+    const expressionLine = persona.allowedExpressions.length > 0
+        ? `- Use 'setExpression' often to match your facial expression to the conversation tone (${persona.allowedExpressions.join(', ')}).`
+        : "- Keep a neutral facial expression.";
+
+    return `You are "${persona.name}".
+
+IDENTITY:
+${persona.personality.trim()}
+- Call user "${persona.userAddress}".
+- Always speak ${languageLabel(persona.language)} unless the user asks otherwise.
+${expressionLine}
+
+CORE WORKFLOWS:
+- MEDIA PLAYBACK:
+  1. Search using 'searchYoutube' or 'searchMusic'.
+  2. Pick the best match (videoId).
+  3. Use 'playMusic' with the 'videoId'.
+- INFORMATION: Use 'googleSearch' (or 'searchWeb') for facts.
+- MEMORY: LONG TERM MEMORY below is only a core profile. Use 'recallMemories' to look up anything else about the user before saying you don't know, 'rememberNote' to save new facts (with a category and importance) and 'updateMemory' when something you remembered changed.
+- LOCATION: Use the Location context.
+${vision ? "- VISION: The user may share their camera or screen. Those frames are what they currently show you; refer to them when relevant.\n" : ""}
+CONTEXT:
+${memoryContext}${locationContext}${transcriptSummary}`;
+}
@@ -0,0 +1,45 @@
+import { ChatMessage, ChatThread } from '../types';
+
+export const MESSAGES_PAGE_SIZE = 50;
+const PREVIEW_LENGTH = 120;
+export const MAX_THREAD_TITLE_LENGTH = 120;
+
+export function createThread(now: Date = new Date()): ChatThread {
+    return {
+        id: now.getTime().toString(),
+        title: '',
+        createdAt: now,
+        updatedAt: now,
+        messageCount: 0,
+        preview: ''
+    };
+}
+
+export function normalizeThread(raw: any): ChatThread {
+    return {
+        id: String(raw.id),
+        title: typeof raw.title === 'string' ? raw.title : '',
+        createdAt: new Date(raw.createdAt),
+        updatedAt: new Date(raw.updatedAt || raw.createdAt),
+        messageCount: Number(raw.messageCount) || 0,
+        preview: typeof raw.preview === 'string' ? raw.preview : ''
+    };
+}
+
+export const normalizeMessage = (raw: any): ChatMessage => ({ ...raw, timestamp: new Date(raw.timestamp) });
+
+// Mirrors what the backend does when a message is stored
+export function touchThread(thread: ChatThread, message: ChatMessage): ChatThread {
+    return {
+        ...thread,
+        updatedAt: new Date(message.timestamp),
+        messageCount: thread.messageCount + 1,
+        preview: thread.preview || (message.role === 'user' ? message.text.slice(0, PREVIEW_LENGTH) : '')
+    };
+}
+
+export function threadLabel(thread: ChatThread): string {
+    if (thread.title) return thread.title;
+    if (thread.preview) return thread.preview;
+    return `Conversation ${thread.createdAt.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`;
+}
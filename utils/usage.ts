@@ -0,0 +1,88 @@
+import { UsageMetadata } from '@google/genai';
+import { DailyUsage, UsageBudget, UsageTotals } from '../types';
+
+export type BudgetStatus = 'ok' | 'warn' | 'exceeded';
+
+export const EMPTY_USAGE: UsageTotals = {
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    inputAudioSeconds: 0,
+    outputAudioSeconds: 0,
+    toolCalls: 0,
+    turns: 0
+};
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = {
+    dailyTokenLimit: null,
+    dailyAudioMinutesLimit: null,
+    warnRatio: 0.8
+};
+
+export function addUsage(a: UsageTotals, b: Partial<UsageTotals>): UsageTotals {
+    const next = { ...a };
+    for (const key of Object.keys(EMPTY_USAGE) as (keyof UsageTotals)[]) {
+        next[key] += b[key] || 0;
+    }
+    return next;
+}
+
+export const isEmptyUsage = (u: Partial<UsageTotals>) =>
+    (Object.keys(EMPTY_USAGE) as (keyof UsageTotals)[]).every(key => !u[key]);
+
+// Live sessions report usage per model turn, not cumulatively
+export function usageFromMetadata(meta: UsageMetadata): Partial<UsageTotals> {
+    const inputTokens = (meta.promptTokenCount || 0) + (meta.toolUsePromptTokenCount || 0);
+    const outputTokens = (meta.responseTokenCount || 0) + (meta.thoughtsTokenCount || 0);
+    return {
+        inputTokens,
+        outputTokens,
+        totalTokens: meta.totalTokenCount || inputTokens + outputTokens
+    };
+}
+
+// base64 -> bytes -> 16-bit samples
+export const pcmBase64Seconds = (base64: string, sampleRate: number) =>
+    (base64.length * 3 / 4) / 2 / sampleRate;
+
+export function todayKey(date: Date = new Date()): string {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function emptyDay(date: string = todayKey()): DailyUsage {
+    return { date, totals: { ...EMPTY_USAGE } };
+}
+
+// The most constrained limit decides the status
+export function getBudgetStatus(totals: UsageTotals, budget: UsageBudget): { status: BudgetStatus; ratio: number } {
+    const ratios: number[] = [];
+    if (budget.dailyTokenLimit) ratios.push(totals.totalTokens / budget.dailyTokenLimit);
+    if (budget.dailyAudioMinutesLimit) {
+        ratios.push((totals.inputAudioSeconds + totals.outputAudioSeconds) / 60 / budget.dailyAudioMinutesLimit);
+    }
+    const ratio = ratios.length > 0 ? Math.max(...ratios) : 0;
+    if (ratio >= 1) return { status: 'exceeded', ratio };
+    if (ratio >= budget.warnRatio) return { status: 'warn', ratio };
+    return { status: 'ok', ratio };
+}
+
+export function sanitizeBudget(input: Partial<UsageBudget> | null | undefined): UsageBudget {
+    const limit = (v: any) => {
+        const n = Number(v);
+        return v !== null && v !== undefined && v !== '' && Number.isFinite(n) && n > 0 ? n : null;
+    };
+    const merged = { ...DEFAULT_USAGE_BUDGET, ...(input || {}) };
+    const warnRatio = Number(merged.warnRatio);
+    return {
+        dailyTokenLimit: limit(merged.dailyTokenLimit),
+        dailyAudioMinutesLimit: limit(merged.dailyAudioMinutesLimit),
+        warnRatio: Number.isFinite(warnRatio) && warnRatio > 0 && warnRatio < 1 ? warnRatio : DEFAULT_USAGE_BUDGET.warnRatio
+    };
+}
+
+export const formatSeconds = (seconds: number) => {
+    const m = Math.floor(seconds / 60);
+    const s = Math.round(seconds % 60);
+    return m > 0 ? `${m}m ${s}s` : `${s}s`;
+};
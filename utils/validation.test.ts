@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { memorySchema, searchHistoryItemSchema, settingsUpdateSchema, userSettingsSchema } from './contracts';
+import { date, formatFieldErrors, number, object, optional, string, withDefault } from './validation';
+
+describe('field errors', () => {
+    it('point at the failing field inside lists and objects', () => {
+        const result = searchHistoryItemSchema.parse({
+            id: 1,
+            timestamp: '2026-01-01T00:00:00.000Z',
+            query: 'jazz',
+            sources: [{ title: 'Jazz', uri: 42, type: 'web' }, { title: 'Map', uri: 'https://example.com', type: 'video' }]
+        });
+        expect(result.ok).toBe(false);
+        expect(result.errors).toEqual([
+            { path: 'sources[0].uri', message: 'Expected a string' },
+            { path: 'sources[1].type', message: 'Expected one of: web, map' }
+        ]);
+        expect(formatFieldErrors(result.errors!)).toBe('sources[0].uri: Expected a string; sources[1].type: Expected one of: web, map');
+    });
+
+    it('report a wrong value itself without a path', () => {
+        expect(object({ id: string() }).parse([])).toEqual({ ok: false, errors: [{ path: '', message: 'Expected an object' }] });
+    });
+});
+
+describe('missing values', () => {
+    const schema = object({ count: withDefault(number(), 3), note: optional(string()) });
+
+    it('default both null and undefined', () => {
+        expect(schema.parse({})).toEqual({ ok: true, value: { count: 3 } });
+        expect(schema.parse({ count: null })).toEqual({ ok: true, value: { count: 3 } });
+        expect(schema.parse({ count: 5 })).toEqual({ ok: true, value: { count: 5 } });
+    });
+
+    it('are only optional when undefined', () => {
+        expect(schema.parse({ note: undefined })).toEqual({ ok: true, value: { count: 3 } });
+        expect(schema.parse({ note: null }).errors).toEqual([{ path: 'note', message: 'Expected a string' }]);
+    });
+
+    it('parse dates from ISO strings', () => {
+        expect(date().parse('2026-01-01T00:00:00.000Z')).toEqual({ ok: true, value: new Date('2026-01-01T00:00:00.000Z') });
+        expect(date().parse('not a date').ok).toBe(false);
+    });
+});
+
+describe('settings', () => {
+    const update = { updatedAt: '2026-01-01T00:00:00.000Z', activePersonaId: 'p1' };
+
+    it('updates reject unknown sections', () => {
+        expect(settingsUpdateSchema.parse(update).ok).toBe(true);
+        expect(settingsUpdateSchema.parse({ ...update, theme: 'dark' }).errors).toEqual([{ path: 'theme', message: 'Unknown field' }]);
+    });
+
+    it('drop unknown sections when reading stored settings', () => {
+        expect(userSettingsSchema.parse({ activePersonaId: 'p1', theme: 'dark' })).toEqual({ ok: true, value: { activePersonaId: 'p1' } });
+    });
+});
+
+describe('memorySchema', () => {
+    it('accepts memories saved by older clients', () => {
+        const result = memorySchema.parse({ id: 'm1', text: 'Likes jazz', timestamp: '2026-01-01T00:00:00.000Z' });
+        expect(result).toEqual({
+            ok: true,
+            value: { id: 'm1', text: 'Likes jazz', timestamp: new Date('2026-01-01T00:00:00.000Z'), category: 'fact', importance: 3, source: 'voice' }
+        });
+    });
+
+    it('rejects ids that are not valid document ids', () => {
+        expect(memorySchema.parse({ id: 'a/b', text: 'Likes jazz', timestamp: '2026-01-01T00:00:00.000Z' }).errors)
+            .toEqual([{ path: 'id', message: 'Has an invalid format' }]);
+    });
+});
@@ -0,0 +1,132 @@
+// Minimal schema combinators shared by the API (request validation) and the client (response parsing).
+// Pure functions only, like the other modules api_endpoints imports.
+
+export interface FieldError {
+    path: string;    // e.g. "sources[0].uri"; empty for the value itself
+    message: string;
+}
+
+export type ParseResult<T> = { ok: true; value: T; errors?: undefined } | { ok: false; value?: undefined; errors: FieldError[] };
+
+export interface Schema<T> {
+    parse: (input: unknown, path?: string) => ParseResult<T>;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const ok = <T>(value: T): ParseResult<T> => ({ ok: true, value });
+const fail = (path: string, message: string): ParseResult<never> => ({ ok: false, errors: [{ path, message }] });
+const join = (path: string, key: string | number) =>
+    typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+export function string(options: { min?: number; max?: number; pattern?: RegExp } = {}): Schema<string> {
+    return {
+        parse: (input, path = '') => {
+            if (typeof input !== 'string') return fail(path, 'Expected a string');
+            if (options.min !== undefined && input.length < options.min) return fail(path, options.min === 1 ? 'Must not be empty' : `Must be at least ${options.min} characters`);
+            if (options.max !== undefined && input.length > options.max) return fail(path, `Must be at most ${options.max} characters`);
+            if (options.pattern && !options.pattern.test(input)) return fail(path, 'Has an invalid format');
+            return ok(input);
+        }
+    };
+}
+
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+    return {
+        parse: (input, path = '') => {
+            if (typeof input !== 'number' || !Number.isFinite(input)) return fail(path, 'Expected a number');
+            if (options.integer && !Number.isInteger(input)) return fail(path, 'Expected an integer');
+            if (options.min !== undefined && input < options.min) return fail(path, `Must be at least ${options.min}`);
+            if (options.max !== undefined && input > options.max) return fail(path, `Must be at most ${options.max}`);
+            return ok(input);
+        }
+    };
+}
+
+export const boolean = (): Schema<boolean> => ({
+    parse: (input, path = '') => typeof input === 'boolean' ? ok(input) : fail(path, 'Expected true or false')
+});
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+    return {
+        parse: (input, path = '') => values.includes(input as T) ? ok(input as T) : fail(path, `Expected one of: ${values.join(', ')}`)
+    };
+}
+
+// Dates cross the wire as ISO strings; parsed values are always Date objects
+export const date = (): Schema<Date> => ({
+    parse: (input, path = '') => {
+        if (!(input instanceof Date) && typeof input !== 'string' && typeof input !== 'number') return fail(path, 'Expected a date');
+        const d = new Date(input);
+        return isNaN(d.getTime()) ? fail(path, 'Expected a valid date') : ok(d);
+    }
+});
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+    return { parse: (input, path = '') => input === undefined ? ok(undefined) : schema.parse(input, path) };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+    return { parse: (input, path = '') => input === null ? ok(null) : schema.parse(input, path) };
+}
+
+// Missing values (from older clients) get a default instead of failing
+export function withDefault<T>(schema: Schema<T>, fallback: T): Schema<T> {
+    return { parse: (input, path = '') => input === undefined || input === null ? ok(fallback) : schema.parse(input, path) };
+}
+
+export function array<T>(item: Schema<T>, options: { max?: number } = {}): Schema<T[]> {
+    return {
+        parse: (input, path = '') => {
+            if (!Array.isArray(input)) return fail(path, 'Expected a list');
+            if (options.max !== undefined && input.length > options.max) return fail(path, `At most ${options.max} items allowed`);
+            const values: T[] = [];
+            const errors: FieldError[] = [];
+            input.forEach((v, i) => {
+                const result = item.parse(v, join(path, i));
+                if (result.ok) values.push(result.value);
+                else errors.push(...result.errors);
+            });
+            return errors.length > 0 ? { ok: false, errors } : ok(values);
+        }
+    };
+}
+
+type Shape = Record<string, Schema<any>>;
+type ObjectOf<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+interface ObjectOptions {
+    rejectUnknown?: boolean;  // Fail on keys the shape doesn't have instead of dropping them
+}
+
+// Unknown keys are dropped (or rejected) and undefined values omitted (Firestore rejects undefined)
+export function object<S extends Shape>(shape: S, options: ObjectOptions = {}): Schema<ObjectOf<S>> {
+    return {
+        parse: (input, path = '') => {
+            if (typeof input !== 'object' || input === null || Array.isArray(input)) return fail(path, 'Expected an object');
+            const value: Record<string, any> = {};
+            const errors: FieldError[] = [];
+            if (options.rejectUnknown) {
+                for (const key of Object.keys(input)) {
+                    if (!Object.prototype.hasOwnProperty.call(shape, key)) errors.push({ path: join(path, key), message: 'Unknown field' });
+                }
+            }
+            for (const key of Object.keys(shape)) {
+                const result = shape[key].parse((input as any)[key], join(path, key));
+                if (!result.ok) errors.push(...result.errors);
+                else if (result.value !== undefined) value[key] = result.value;
+            }
+            return errors.length > 0 ? { ok: false, errors } : ok(value as ObjectOf<S>);
+        }
+    };
+}
+
+// Every field optional; used for merge-style updates like POST /settings
+export function partial<S extends Shape>(shape: S, options: ObjectOptions = {}): Schema<Partial<ObjectOf<S>>> {
+    const optionalShape: Shape = {};
+    for (const key of Object.keys(shape)) optionalShape[key] = optional(shape[key]);
+    return object(optionalShape, options) as Schema<Partial<ObjectOf<S>>>;
+}
+
+export const formatFieldErrors = (errors: FieldError[]) =>
+    errors.map(e => e.path ? `${e.path}: ${e.message}` : e.message).join('; ');
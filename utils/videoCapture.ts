@@ -0,0 +1,71 @@
+import { Blob } from '@google/genai';
+import { VideoSource } from '../types';
+
+// The Live API samples video at ~1 fps, so sending faster only costs bandwidth and tokens
+export const DEFAULT_FRAME_INTERVAL_MS = 1000;
+const MAX_FRAME_EDGE = 768;
+const JPEG_QUALITY = 0.7;
+
+export interface VideoCaptureOptions {
+    intervalMs?: number;
+    onFrame: (frame: Blob) => void;
+    onEnded?: () => void; // Camera unplugged or the browser's "Stop sharing" button
+}
+
+export interface VideoCapture {
+    source: VideoSource;
+    stream: MediaStream;
+    stop: () => void;
+}
+
+export async function openVideoStream(source: VideoSource): Promise<MediaStream> {
+    if (source === 'screen') {
+        if (!navigator.mediaDevices?.getDisplayMedia) throw new Error('Screen sharing is not supported in this browser');
+        return navigator.mediaDevices.getDisplayMedia({ video: { frameRate: 5 }, audio: false });
+    }
+    return navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 1280 }, height: { ideal: 720 } }, audio: false });
+}
+
+// Samples a video stream into downscaled JPEG frames at a fixed, throttled rate
+export async function createVideoCapture(source: VideoSource, { intervalMs = DEFAULT_FRAME_INTERVAL_MS, onFrame, onEnded }: VideoCaptureOptions): Promise<VideoCapture> {
+    const stream = await openVideoStream(source);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    await video.play();
+
+    const canvas = document.createElement('canvas');
+    const ctx2d = canvas.getContext('2d');
+    let stopped = false;
+
+    const grab = () => {
+        if (stopped || !ctx2d || !video.videoWidth) return;
+        const scale = Math.min(1, MAX_FRAME_EDGE / Math.max(video.videoWidth, video.videoHeight));
+        canvas.width = Math.round(video.videoWidth * scale);
+        canvas.height = Math.round(video.videoHeight * scale);
+        ctx2d.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+        onFrame({ data: dataUrl.slice(dataUrl.indexOf(',') + 1), mimeType: 'image/jpeg' });
+    };
+    const timer = setInterval(grab, intervalMs);
+
+    const stop = () => {
+        if (stopped) return;
+        stopped = true;
+        clearInterval(timer);
+        video.srcObject = null;
+        stream.getTracks().forEach(track => track.stop());
+    };
+
+    const track = stream.getVideoTracks()[0];
+    if (track) {
+        track.onended = () => {
+            if (stopped) return;
+            stop();
+            onEnded?.();
+        };
+    }
+
+    return { source, stream, stop };
+}
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_VAD_CONFIG, createVoiceActivityDetector } from './voiceActivity';
+
+// Analyser stand-in returning a fixed frame: `amplitude` for every time-domain sample, `spectrum` in dB per bin
+const fakeAnalyser = (sampleRate: number, fftSize: number) => {
+  const state = { amplitude: 0, spectrum: (_hz: number) => -100 };
+  const node = {
+    fftSize,
+    frequencyBinCount: fftSize / 2,
+    context: { sampleRate },
+    getFloatTimeDomainData: (out: Float32Array) => out.fill(state.amplitude),
+    getFloatFrequencyData: (out: Float32Array) => {
+      for (let i = 0; i < out.length; i++) out[i] = state.spectrum((i * sampleRate) / fftSize);
+    }
+  };
+  return { node: node as unknown as AnalyserNode, state };
+};
+
+// Harmonic peaks inside the voice band, like a voiced vowel
+const voice = (offsetHz: number) => (hz: number) =>
+  hz >= 300 && hz <= 3400 && Math.abs(((hz - offsetHz + 100) % 200) - 100) < 40 ? -30 : -90;
+const noise = () => -50;
+const amplitudeForDb = (db: number) => Math.pow(10, db / 20);
+
+describe('voice activity detection', () => {
+  let now = 0;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const detector = (withReference = false) => {
+    const mic = fakeAnalyser(16000, 512);
+    const reference = withReference ? fakeAnalyser(48000, 2048) : null;
+    return { mic: mic.state, reference: reference?.state, vad: createVoiceActivityDetector(mic.node, reference?.node || null) };
+  };
+
+  it('accepts loud voiced frames', () => {
+    const { mic, vad } = detector();
+    mic.amplitude = amplitudeForDb(-20);
+    mic.spectrum = voice(0);
+    vad.process(false);
+    const frame = vad.lastFrame()!;
+    expect(frame.isSpeech).toBe(true);
+    expect(frame.energyDb).toBeCloseTo(-20, 1);
+    expect(frame.speechBandRatio).toBeGreaterThanOrEqual(DEFAULT_VAD_CONFIG.minSpeechBandRatio);
+    expect(frame.flatness).toBeLessThanOrEqual(DEFAULT_VAD_CONFIG.maxSpectralFlatness);
+  });
+
+  it('rejects quiet frames and broadband noise', () => {
+    const { mic, vad } = detector();
+    mic.amplitude = amplitudeForDb(DEFAULT_VAD_CONFIG.energyThresholdDb - 5);
+    mic.spectrum = voice(0);
+    vad.process(false);
+    expect(vad.lastFrame()!.isSpeech).toBe(false);
+
+    mic.amplitude = amplitudeForDb(-20);
+    mic.spectrum = noise;
+    vad.process(false);
+    const frame = vad.lastFrame()!;
+    expect(frame.isSpeech).toBe(false);
+    expect(frame.speechBandRatio).toBeLessThan(DEFAULT_VAD_CONFIG.minSpeechBandRatio);
+    expect(frame.flatness).toBeGreaterThan(DEFAULT_VAD_CONFIG.maxSpectralFlatness);
+  });
+
+  it('needs a louder voice while the speakers are active', () => {
+    const { mic, vad } = detector();
+    mic.amplitude = amplitudeForDb(DEFAULT_VAD_CONFIG.energyThresholdDb + DEFAULT_VAD_CONFIG.bargeInBoostDb / 2);
+    mic.spectrum = voice(0);
+    vad.process(false);
+    expect(vad.lastFrame()!.isSpeech).toBe(true);
+    vad.process(true);
+    expect(vad.lastFrame()!.isSpeech).toBe(false);
+  });
+
+  it('treats the speaker output leaking into the mic as echo', () => {
+    const { mic, reference, vad } = detector(true);
+    mic.amplitude = reference!.amplitude = amplitudeForDb(-20);
+    mic.spectrum = reference!.spectrum = voice(0);
+    vad.process(true);
+    expect(vad.lastFrame()!.referenceSimilarity).toBeGreaterThanOrEqual(DEFAULT_VAD_CONFIG.maxReferenceSimilarity);
+    expect(vad.lastFrame()!.isSpeech).toBe(false);
+
+    // A different voice over the same speakers is the user
+    reference!.spectrum = voice(100);
+    vad.process(true);
+    expect(vad.lastFrame()!.referenceSimilarity).toBeLessThan(DEFAULT_VAD_CONFIG.maxReferenceSimilarity);
+    expect(vad.lastFrame()!.isSpeech).toBe(true);
+  });
+
+  it('triggers after the onset frames and holds through the hangover', () => {
+    const { mic, vad } = detector();
+    mic.amplitude = amplitudeForDb(-20);
+    mic.spectrum = voice(0);
+    expect(vad.process(false)).toBe(false);
+    expect(vad.process(false)).toBe(true);
+
+    mic.amplitude = 0;
+    now += DEFAULT_VAD_CONFIG.hangoverMs;
+    expect(vad.process(false)).toBe(true);
+    now += 1;
+    expect(vad.process(false)).toBe(false);
+
+    vad.reset();
+    expect(vad.lastFrame()).toBeNull();
+  });
+});
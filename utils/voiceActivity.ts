@@ -0,0 +1,168 @@
+// Local voice activity detection used to let the user barge in while the companion is talking.
+// Decisions combine mic level, spectral shape and a comparison against the speaker output
+// (the "reference") so her own voice leaking into the mic is not mistaken for the user.
+
+export interface VadConfig {
+  bargeIn: boolean;               // Allow interrupting the model by speaking over her
+  energyThresholdDb: number;      // Minimum mic RMS level (dBFS) to consider a frame speech
+  bargeInBoostDb: number;         // Extra level required while the speakers are active
+  minSpeechBandRatio: number;     // Share of energy that must fall in the 300-3400 Hz voice band
+  maxSpectralFlatness: number;    // 0 = pure tone, 1 = white noise; voice sits well below noise
+  maxReferenceSimilarity: number; // Mic/speaker spectral similarity above which a frame counts as echo
+  onsetFrames: number;            // Consecutive speech frames required before triggering
+  hangoverMs: number;             // Keep reporting speech this long after the last speech frame
+}
+
+export const DEFAULT_VAD_CONFIG: VadConfig = {
+  bargeIn: true,
+  energyThresholdDb: -50,
+  bargeInBoostDb: 8,
+  minSpeechBandRatio: 0.55,
+  maxSpectralFlatness: 0.45,
+  maxReferenceSimilarity: 0.8,
+  onsetFrames: 2,
+  hangoverMs: 600
+};
+
+const VOICE_BAND_LOW_HZ = 300;
+const VOICE_BAND_HIGH_HZ = 3400;
+const MIN_HZ = 80;
+// Reference quieter than this is treated as silence
+const REFERENCE_SILENCE_DB = -60;
+
+export interface VadFrame {
+  isSpeech: boolean;
+  energyDb: number;
+  speechBandRatio: number;
+  flatness: number;
+  referenceDb: number | null;
+  referenceSimilarity: number | null;
+}
+
+export interface VoiceActivityDetector {
+  // Evaluates the current analyser snapshot; returns true while (smoothed) user speech is present
+  process: (referenceActive: boolean) => boolean;
+  reset: () => void;
+  lastFrame: () => VadFrame | null;
+}
+
+const rmsDb = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return 20 * Math.log10(Math.sqrt(sum / samples.length) + 1e-10);
+};
+
+// Analyser bins are in dB; the band sums below need linear power
+const toPower = (db: Float32Array, out: Float32Array) => {
+  for (let i = 0; i < db.length; i++) out[i] = Math.pow(10, db[i] / 10);
+};
+
+export function createVoiceActivityDetector(
+  mic: AnalyserNode,
+  reference: AnalyserNode | null,
+  config: Partial<VadConfig> = {}
+): VoiceActivityDetector {
+  const cfg: VadConfig = { ...DEFAULT_VAD_CONFIG, ...config };
+
+  const micTime = new Float32Array(mic.fftSize);
+  const micDb = new Float32Array(mic.frequencyBinCount);
+  const micPower = new Float32Array(mic.frequencyBinCount);
+  const micBinHz = mic.context.sampleRate / mic.fftSize;
+
+  const refTime = reference ? new Float32Array(reference.fftSize) : null;
+  const refDb = reference ? new Float32Array(reference.frequencyBinCount) : null;
+  const refPower = reference ? new Float32Array(reference.frequencyBinCount) : null;
+  const refBinHz = reference ? reference.context.sampleRate / reference.fftSize : 0;
+
+  let consecutive = 0;
+  let lastSpeechAt = 0;
+  let active = false;
+  let last: VadFrame | null = null;
+
+  // Cosine similarity of the voice band, matching bins by frequency since the mic and
+  // speaker contexts run at different sample rates
+  const referenceSimilarity = () => {
+    if (!reference || !refPower) return 0;
+    let dot = 0, micNorm = 0, refNorm = 0;
+    const lo = Math.ceil(VOICE_BAND_LOW_HZ / micBinHz);
+    const hi = Math.min(micPower.length - 1, Math.floor(VOICE_BAND_HIGH_HZ / micBinHz));
+    for (let i = lo; i <= hi; i++) {
+      const j = Math.round((i * micBinHz) / refBinHz);
+      if (j >= refPower.length) break;
+      const a = Math.sqrt(micPower[i]);
+      const b = Math.sqrt(refPower[j]);
+      dot += a * b;
+      micNorm += a * a;
+      refNorm += b * b;
+    }
+    return micNorm > 0 && refNorm > 0 ? dot / Math.sqrt(micNorm * refNorm) : 0;
+  };
+
+  const analyse = (referenceActive: boolean): VadFrame => {
+    mic.getFloatTimeDomainData(micTime);
+    mic.getFloatFrequencyData(micDb);
+    toPower(micDb, micPower);
+
+    const energyDb = rmsDb(micTime);
+
+    let total = 0, band = 0, logSum = 0, bandBins = 0;
+    for (let i = 0; i < micPower.length; i++) {
+      const hz = i * micBinHz;
+      if (hz < MIN_HZ) continue;
+      total += micPower[i];
+      if (hz >= VOICE_BAND_LOW_HZ && hz <= VOICE_BAND_HIGH_HZ) {
+        band += micPower[i];
+        logSum += Math.log(micPower[i] + 1e-20);
+        bandBins++;
+      }
+    }
+    const speechBandRatio = total > 0 ? band / total : 0;
+    const flatness = bandBins > 0 && band > 0 ? Math.exp(logSum / bandBins) / (band / bandBins) : 1;
+
+    let referenceDb: number | null = null;
+    let similarity: number | null = null;
+    if (referenceActive && reference && refTime && refDb && refPower) {
+      reference.getFloatTimeDomainData(refTime);
+      referenceDb = rmsDb(refTime);
+      if (referenceDb > REFERENCE_SILENCE_DB) {
+        reference.getFloatFrequencyData(refDb);
+        toPower(refDb, refPower);
+        similarity = referenceSimilarity();
+      }
+    }
+
+    const threshold = cfg.energyThresholdDb + (referenceActive ? cfg.bargeInBoostDb : 0);
+    const looksLikeVoice = energyDb >= threshold
+      && speechBandRatio >= cfg.minSpeechBandRatio
+      && flatness <= cfg.maxSpectralFlatness;
+    const isEcho = similarity !== null && similarity >= cfg.maxReferenceSimilarity;
+
+    return { isSpeech: looksLikeVoice && !isEcho, energyDb, speechBandRatio, flatness, referenceDb, referenceSimilarity: similarity };
+  };
+
+  const process = (referenceActive: boolean) => {
+    const now = Date.now();
+    last = analyse(referenceActive);
+
+    if (last.isSpeech) {
+      consecutive++;
+      if (consecutive >= cfg.onsetFrames) {
+        active = true;
+        lastSpeechAt = now;
+      }
+    } else {
+      consecutive = 0;
+      if (active && now - lastSpeechAt > cfg.hangoverMs) active = false;
+    }
+    return active;
+  };
+
+  const reset = () => {
+    consecutive = 0;
+    lastSpeechAt = 0;
+    active = false;
+    last = null;
+  };
+
+  return { process, reset, lastFrame: () => last };
+}